@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getProviderAuthHeaders } from '@/utils/provider';
 export const runtime = 'edge';
 
 export async function POST(req: NextRequest) {
   try {
     const requestBody = await req.json();
-    const { url, apiKey, ...restBody } = requestBody;
+    const { url, apiKey, kind, method = 'POST', ...restBody } = requestBody;
 
     if (!url) {
       return NextResponse.json({ error: 'URL is required' }, { status: 400 });
@@ -14,18 +15,21 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'API key is required' }, { status: 400 });
     }
 
-    // 构建转发到 OpenAI 的请求
-    const response = await fetch(url, {
+    // 按服务商接口类型设置鉴权请求头; GET 请求(如获取模型列表)不转发请求体
+    const response = await fetch(url, method === 'GET' ? {
+      method: 'GET',
+      headers: getProviderAuthHeaders(kind, apiKey),
+    } : {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
+        ...getProviderAuthHeaders(kind, apiKey),
       },
       body: JSON.stringify(restBody),
     });
 
-    // 流式响应
-    if (restBody.stream) {
+    // 流式响应, Gemini 通过 url 而不是请求体指定流式
+    if (restBody.stream || response.headers.get('Content-Type')?.includes('text/event-stream')) {
       // 转发流
       const readable = response.body;
       if (!readable) {
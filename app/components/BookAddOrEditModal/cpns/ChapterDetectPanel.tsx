@@ -0,0 +1,100 @@
+import { useMemo } from 'react';
+import { Button, Collapse, InputNumber, Select, Switch, Typography } from 'antd';
+import { PlainTextChapter } from '@/types/book';
+import { useTranslation } from '@/i18n/useTranslation';
+import { useChapterDetectStore } from '@/store/useChapterDetectStore';
+import { CHAPTER_DETECT_BOUNDS } from '@/constants/chapter';
+import { chaptersToParagraphs, detectChapters, parseChapterRule } from '@/utils/chapter';
+import { getParagraphText, isImageBlock } from '@/utils/paragraph';
+
+const { Text } = Typography;
+
+interface ChapterDetectPanelProps {
+  chapterList: PlainTextChapter[];
+  name: string; // 导入时的书名, 用于识别由书名生成的章节标题
+  onApply: (chapterList: PlainTextChapter[]) => void;
+}
+
+function ChapterDetectPreview({ chapterList, name, onApply }: ChapterDetectPanelProps) {
+  const { t } = useTranslation();
+  const { chapterDetectOptions, setChapterDetectOptions, resetChapterDetectOptions } = useChapterDetectStore();
+
+  const invalidRules = useMemo(() => {
+    return chapterDetectOptions.customRules.filter(rule => parseChapterRule(rule) === null);
+  }, [chapterDetectOptions.customRules]);
+
+  const previewChapters = useMemo(() => {
+    return detectChapters(chaptersToParagraphs(chapterList, name), name, chapterDetectOptions);
+  }, [chapterList, name, chapterDetectOptions]);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center gap-6 flex-wrap">
+        <span className="flex items-center gap-2">
+          <Switch
+            size="small"
+            checked={chapterDetectOptions.useBuiltinRules}
+            onChange={(checked) => setChapterDetectOptions({ useBuiltinRules: checked })}
+          />
+          <Text>{t('book.builtinChapterRules')}</Text>
+        </span>
+        <span className="flex items-center gap-2">
+          <Text>{t('book.chunkSize')}</Text>
+          <InputNumber
+            size="small"
+            min={CHAPTER_DETECT_BOUNDS.chunkSize.min}
+            max={CHAPTER_DETECT_BOUNDS.chunkSize.max}
+            step={1000}
+            value={chapterDetectOptions.chunkSize}
+            onChange={(value) => value && setChapterDetectOptions({ chunkSize: value })}
+          />
+        </span>
+        <Button size="small" onClick={resetChapterDetectOptions}>
+          {t('common.reset')}
+        </Button>
+      </div>
+
+      <Select
+        mode="tags"
+        value={chapterDetectOptions.customRules}
+        onChange={(rules: string[]) => setChapterDetectOptions({ customRules: rules })}
+        placeholder={t('book.customChapterRulesPlaceholder')}
+        status={invalidRules.length > 0 ? 'error' : undefined}
+        open={false}
+        suffixIcon={null}
+      />
+      {invalidRules.length > 0 && (
+        <Text type="danger">{t('book.invalidChapterRules', { rules: invalidRules.join(', ') })}</Text>
+      )}
+
+      <div className="flex justify-between items-center">
+        <Text type="secondary">{t('book.detectedChapters', { count: previewChapters.length.toString() })}</Text>
+        <Button type="primary" size="small" onClick={() => onApply(previewChapters)}>
+          {t('book.applyChapterDetect')}
+        </Button>
+      </div>
+      <div className="max-h-[200px] overflow-y-auto rounded border border-[var(--ant-color-border)] px-3 py-1">
+        {previewChapters.map((chapter, index) => (
+          <div key={`preview-${index}`} className="flex justify-between gap-4 py-1">
+            <Text ellipsis>{chapter.title}</Text>
+            <Text type="secondary" className="shrink-0">
+              {t('book.paragraphCount', { count: chapter.paragraphs.filter(paragraph => isImageBlock(paragraph) || getParagraphText(paragraph).trim() !== '').length.toString() })}
+            </Text>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function ChapterDetectPanel(props: ChapterDetectPanelProps) {
+  const { t } = useTranslation();
+  // 折叠时不渲染预览, 避免打开弹窗时对整本书做一次识别
+  return (
+    <Collapse
+      size="small"
+      destroyInactivePanel
+      items={[{ key: 'chapter-detect', label: t('book.chapterDetect'), children: <ChapterDetectPreview {...props} /> }]}
+    />
+  );
+}
@@ -5,12 +5,15 @@ import { PlusOutlined, MenuOutlined, DeleteOutlined, CheckOutlined, CloseOutline
 import { Book, PlainTextChapter } from '@/types/book';
 import { useTranslation } from '@/i18n/useTranslation';
 import TextArea from 'antd/es/input/TextArea';
+import { flattenToc, remapToc, renameTocItem } from '@/utils/toc';
+import { getParagraphText, imageToPlaceholder, isImageBlock, isRichParagraph, placeholderToImage } from '@/utils/paragraph';
 
 const { Text, Title } = Typography;
 
-interface TocItem {
+interface ChapterListItem {
   title: string;
   index: number;
+  depth: number; // 在目录中的层级, 用于缩进显示
 }
 
 interface ChapterManagerProps {
@@ -24,7 +27,7 @@ const ChapterItem = memo(({
   isSelected,
   onClick
 }: {
-  item: TocItem;
+  item: ChapterListItem;
   index: number;
   isSelected: boolean;
   onClick: () => void
@@ -45,7 +48,7 @@ const ChapterItem = memo(({
           }}
           onClick={onClick}
         >
-          <div className="flex items-center">
+          <div className="flex items-center" style={{ paddingLeft: item.depth * 16 }}>
             <div {...provided.dragHandleProps} className="mr-2">
               <MenuOutlined className="text-gray-400" />
             </div>
@@ -64,6 +67,18 @@ export default function ChapterManager({ book, onChange }: ChapterManagerProps)
   const [selectedChapterIndex, setSelectedChapterIndex] = useState<number>(0);
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [editingTitle, setEditingTitle] = useState('');
+  // 章节列表按 chapterList 顺序展示, 层级取目录中指向该章节的最后一项
+  const chapterItems = useMemo<ChapterListItem[]>(() => {
+    if (!book) return [];
+    const depths = new Map<number, number>();
+    flattenToc(book.toc).forEach(item => depths.set(item.index, item.depth));
+    return book.chapterList.map((chapter, index) => ({
+      title: chapter.title,
+      index,
+      depth: depths.get(index) ?? 0
+    }));
+  }, [book]);
+
   // Handle drag end to reorder chapters
   const handleDragEnd = async (result: DropResult) => {
     if (!result.destination) return;
@@ -74,44 +89,24 @@ export default function ChapterManager({ book, onChange }: ChapterManagerProps)
     if (sourceIndex === destinationIndex) return;
 
     // Create copies to avoid direct state mutation
-    const newToc = [...book.toc];
     const newChapterList = [...book.chapterList];
+    const [movedChapter] = newChapterList.splice(sourceIndex, 1);
+    newChapterList.splice(destinationIndex, 0, movedChapter);
+
+    // 目录中的章节下标随之移动
+    const mapIndex = (index: number) => {
+      if (index === sourceIndex) return destinationIndex;
+      if (sourceIndex < destinationIndex && index > sourceIndex && index <= destinationIndex) return index - 1;
+      if (sourceIndex > destinationIndex && index >= destinationIndex && index < sourceIndex) return index + 1;
+      return index;
+    };
 
-    // Get the moving item
-    const [movedTocItem] = newToc.splice(sourceIndex, 1);
-    const [movedChapter] = newChapterList.splice(movedTocItem.index, 1);
-
-    // Insert at new position
-    newToc.splice(destinationIndex, 0, movedTocItem);
-
-    // Recalculate indices for toc items
-    const recalculatedToc = newToc.map((item, index) => ({
-      ...item,
-      index: index
-    }));
-
-    // Reorder chapter list to match toc
-    const reorderedChapterList = recalculatedToc.map(tocItem => {
-      if (tocItem.title === movedTocItem.title) {
-        return movedChapter;
-      }
-
-      const originalChapter = book.chapterList.find((_, i) =>
-        book.toc.find(t => t.index === i)?.title === tocItem.title
-      );
-
-      return originalChapter || { title: tocItem.title, paragraphs: [] };
-    });
-
-    const updatedBook = {
+    onChange({
       ...book,
-      toc: recalculatedToc,
-      chapterList: reorderedChapterList
-    };
-    onChange(updatedBook);
-    if (selectedChapterIndex === movedTocItem.index) {
-      setSelectedChapterIndex(destinationIndex);
-    }
+      toc: remapToc(book.toc, mapIndex),
+      chapterList: newChapterList
+    });
+    setSelectedChapterIndex(mapIndex(selectedChapterIndex));
   };
 
   const handleAddChapter = useCallback(() => {
@@ -123,15 +118,10 @@ export default function ChapterManager({ book, onChange }: ChapterManagerProps)
       paragraphs: []
     };
 
-    const newTocItem: TocItem = {
-      title: newChapterTitle,
-      index: newChapterIndex
-    };
-
     const updatedBook = {
       ...book,
       chapterList: [...book.chapterList, newChapter],
-      toc: [...book.toc, newTocItem]
+      toc: [...book.toc, { title: newChapterTitle, index: newChapterIndex }]
     };
 
     onChange(updatedBook);
@@ -146,31 +136,24 @@ export default function ChapterManager({ book, onChange }: ChapterManagerProps)
     const newChapterList = [...book.chapterList];
     newChapterList.splice(selectedChapterIndex, 1);
 
-    const tocItemToDelete = book.toc.find(item => item.index === selectedChapterIndex);
-    if (!tocItemToDelete) return;
-
-    const newToc = book.toc.filter(item => item.index !== selectedChapterIndex);
-
-    // 重新计算索引
-    const recalculatedToc = newToc.map((item, idx) => ({
-      ...item,
-      index: idx
-    }));
+    // 移除指向该章节的目录项, 并重新计算索引
+    const newToc = remapToc(book.toc, index => {
+      if (index === selectedChapterIndex) return null;
+      return index > selectedChapterIndex ? index - 1 : index;
+    });
 
     setSelectedChapterIndex(0);
-    onChange({ ...book, chapterList: newChapterList, toc: recalculatedToc });
+    onChange({ ...book, chapterList: newChapterList, toc: newToc });
   }, [book, onChange, selectedChapterIndex, t]);
 
   const handleEditChapterTitle = useCallback((title: string) => {
-    const newChapterList = [...book.chapterList];
-    newChapterList[selectedChapterIndex].title = title;
+    const oldTitle = book.chapterList[selectedChapterIndex].title;
+    const newChapterList = book.chapterList.map((chapter, index) =>
+      index === selectedChapterIndex ? { ...chapter, title } : chapter
+    );
 
     // 更新toc中对应章节的标题
-    const newToc = [...book.toc];
-    const tocIndex = newToc.findIndex(item => item.index === selectedChapterIndex);
-    if (tocIndex !== -1) {
-      newToc[tocIndex].title = title;
-    }
+    const newToc = renameTocItem(book.toc, selectedChapterIndex, oldTitle, title);
 
     onChange({ ...book, chapterList: newChapterList, toc: newToc });
   }, [book, onChange, selectedChapterIndex]);
@@ -191,12 +174,21 @@ export default function ChapterManager({ book, onChange }: ChapterManagerProps)
 
   const selectedChapterText = useMemo(() => {
     if (!book || !book.chapterList[selectedChapterIndex]) return '';
-    return book.chapterList[selectedChapterIndex].paragraphs.join('\n');
+    // 图片段落以占位文本显示, 编辑时保留占位行即可保留图片; 带格式段落显示纯文本
+    return book.chapterList[selectedChapterIndex].paragraphs
+      .map(paragraph => isImageBlock(paragraph) ? imageToPlaceholder(paragraph) : getParagraphText(paragraph))
+      .join('\n');
   }, [book, selectedChapterIndex]);
 
   const handleEditChapterText = useCallback(async (text: string) => {
     const newChapterList = [...book.chapterList];
-    newChapterList[selectedChapterIndex].paragraphs = text.split('\n');
+    const resourceKeys = new Set(Object.keys(book.resources ?? {}));
+    // 未改动的带格式段落保留其格式
+    const richParagraphs = new Map(newChapterList[selectedChapterIndex].paragraphs
+      .filter(isRichParagraph)
+      .map(paragraph => [getParagraphText(paragraph), paragraph]));
+    newChapterList[selectedChapterIndex].paragraphs = text.split('\n')
+      .map(line => placeholderToImage(line, resourceKeys) ?? richParagraphs.get(line) ?? line);
     onChange({ ...book, chapterList: newChapterList });
   }, [book, onChange, selectedChapterIndex]);
 
@@ -215,7 +207,7 @@ export default function ChapterManager({ book, onChange }: ChapterManagerProps)
                   {...provided.droppableProps}
                   className="overflow-y-auto h-[528px]"
                 >
-                  {book.toc.map((item, index) => (
+                  {chapterItems.map((item, index) => (
                     <ChapterItem
                       key={`chapter-item-${item.index}-${index}`}
                       item={item}
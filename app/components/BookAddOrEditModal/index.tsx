@@ -1,11 +1,15 @@
-import { Book } from "@/types/book";
+import { Book, PlainTextChapter } from "@/types/book";
 import { Modal, Form, Input, Divider, Space, Upload, Button, Row, Col, Select } from "antd";
 import { useCallback, useEffect, useState } from "react";
 import { useTranslation } from "@/i18n/useTranslation";
 import { UploadOutlined } from '@ant-design/icons';
 import type { UploadProps } from 'antd';
-import { COMMON_LANGUAGES } from "@/constants/book";
+import { BOOK_FORMAT, COMMON_LANGUAGES } from "@/constants/book";
+import { SEGMENT_LANGUAGES } from "@/constants/segmenter";
 import ChapterManager from "./cpns/ChapterManager";
+import ChapterDetectPanel from "./cpns/ChapterDetectPanel";
+import { chapterListToToc } from "@/utils/toc";
+import { createThumbnail } from "@/utils/image";
 
 const { Option } = Select;
 
@@ -20,28 +24,32 @@ interface BookAddOrEditModalProps {
 export default function BookAddOrEditModal({ open, onCancel, onOk, getInitialData, type }: BookAddOrEditModalProps) {
   const { t } = useTranslation();
   const [book, setBook] = useState<Book>();
+  const [initialTitle, setInitialTitle] = useState('');
   const [form] = Form.useForm()
 
   useEffect(() => {
     if (!open) return
     const initialData = getInitialData();
     setBook(initialData);
+    setInitialTitle(initialData.metadata.title);
     form.setFieldsValue({
       title: initialData.metadata.title,
       author: initialData.metadata.author,
       publisher: initialData.metadata.publisher,
       date: initialData.metadata.date,
       language: initialData.metadata.language,
+      segmentLanguage: initialData.segmentLanguage,
     });
   }, [open, getInitialData, setBook, form]);
 
   const handleFormChange = () => {
-    const formValues = form.getFieldsValue();
+    const { segmentLanguage, ...formValues } = form.getFieldsValue();
     if (book) {
       setBook({
         ...book,
         title: formValues.title,
         author: formValues.author,
+        segmentLanguage: segmentLanguage || undefined,
         metadata: {
           ...book.metadata,
           ...formValues
@@ -54,17 +62,20 @@ export default function BookAddOrEditModal({ open, onCancel, onOk, getInitialDat
     beforeUpload: file => {
       const reader = new FileReader();
       reader.readAsDataURL(file);
-      reader.onload = () => {
+      reader.onload = async () => {
         if (book && reader.result) {
           const coverData = reader.result.toString();
+          const cover = {
+            data: coverData.split(',')[1],
+            mediaType: file.type
+          };
+          const thumbnail = await createThumbnail(cover);
           setBook({
             ...book,
             metadata: {
               ...book.metadata,
-              cover: {
-                data: coverData.split(',')[1],
-                mediaType: file.type
-              }
+              cover,
+              thumbnail
             }
           });
         }
@@ -73,6 +84,16 @@ export default function BookAddOrEditModal({ open, onCancel, onOk, getInitialDat
     }
   };
 
+  // 按章节识别结果重建章节与目录
+  const handleApplyChapters = useCallback((chapterList: PlainTextChapter[]) => {
+    if (!book) return
+    setBook({
+      ...book,
+      chapterList,
+      toc: chapterListToToc(chapterList)
+    });
+  }, [book]);
+
   const handleSubmit = useCallback(() => {
     form.validateFields().then(() => {
       onOk(book as Book);
@@ -126,6 +147,7 @@ export default function BookAddOrEditModal({ open, onCancel, onOk, getInitialDat
                       if (book) {
                         const newMetadata = { ...book.metadata };
                         delete newMetadata.cover;
+                        delete newMetadata.thumbnail;
                         setBook({ ...book, metadata: newMetadata });
                       }
                     }}
@@ -193,6 +215,18 @@ export default function BookAddOrEditModal({ open, onCancel, onOk, getInitialDat
                 ))}
               </Select>
             </Form.Item>
+
+            <Form.Item
+              name="segmentLanguage"
+              label={t('book.segmentLanguage')}
+              extra={t('book.segmentLanguageHint')}
+            >
+              <Select
+                placeholder={t('book.segmentLanguageAuto')}
+                allowClear
+                options={SEGMENT_LANGUAGES.map(lang => ({ value: lang.code, label: `${lang.name} (${lang.code})` }))}
+              />
+            </Form.Item>
           </Form>
 
         </Col>
@@ -201,6 +235,17 @@ export default function BookAddOrEditModal({ open, onCancel, onOk, getInitialDat
 
       <Divider style={{ margin: '24px 0' }} />
 
+      {/* 章节识别预览, 只用于纯文本书籍: EPUB 等格式的层级目录与脚注无法按重新识别的章节保留 */}
+      {book && (book.format === BOOK_FORMAT.TXT || book.format === BOOK_FORMAT.MD) && (
+        <div className="mb-4">
+          <ChapterDetectPanel
+            chapterList={book.chapterList}
+            name={initialTitle}
+            onApply={handleApplyChapters}
+          />
+        </div>
+      )}
+
       {/* 下方章节编辑部分 */}
       <div className="chapters-list">
         <ChapterManager
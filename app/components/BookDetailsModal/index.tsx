@@ -1,9 +1,10 @@
 'use client';
 
-import { FC, useState, useEffect, useCallback } from 'react';
-import { Modal, Button, Typography, Divider, Popconfirm, message } from 'antd';
-import { DeleteOutlined, EditOutlined, InfoCircleOutlined } from '@ant-design/icons';
-import { Book, Resource } from '@/types/book';
+import { FC, useState, useEffect, useCallback, useRef } from 'react';
+import { Modal, Button, Typography, Divider, Popconfirm, Progress, Upload, message } from 'antd';
+import { CloseOutlined, DeleteOutlined, EditOutlined, InfoCircleOutlined, SyncOutlined } from '@ant-design/icons';
+import { Book, BookUpdateReport, ImportProgress, Resource } from '@/types/book';
+import { BOOK_FORMAT } from '@/constants/book';
 import db from '@/services/DB';
 import { useRouter } from 'next/navigation';
 import { useTranslation } from '@/i18n/useTranslation';
@@ -11,6 +12,12 @@ import BookAddOrEditModal from '../BookAddOrEditModal';
 import { useReadingProgressStore } from '@/store/useReadingProgress';
 import { useBook } from '@/hooks/useBook';
 import { useSiderStore } from '@/store/useSiderStore';
+import { useBookmarkStore } from '@/store/useBookmarkStore';
+import { getBookSegmentLanguage } from '@/services/segmenter';
+import { updateBookFromFile } from '@/services/BookUpdate';
+import { getImportPercent } from '@/services/ServerUpload';
+import { useChapterDetectStore } from '@/store/useChapterDetectStore';
+import { useUploadStore } from '@/store/useUploadStore';
 
 const { Title, Text } = Typography;
 
@@ -32,6 +39,12 @@ const BookDetailsModal: FC<BookDetailsModalProps> = ({
   const { readingId, setReadingId } = useSiderStore()
   const { updateReadingProgress } = useReadingProgressStore()
   const [, , updateBook] = useBook()
+  const { relocateBookmarks, getBookmarksByBookId } = useBookmarkStore()
+  const { chapterDetectOptions } = useChapterDetectStore();
+  const { encoding } = useUploadStore();
+  const [updateProgress, setUpdateProgress] = useState<ImportProgress | null>(null);
+  const [updateReport, setUpdateReport] = useState<BookUpdateReport | null>(null);
+  const updateAbortRef = useRef<AbortController | null>(null);
   const { t } = useTranslation();
 
   // Fetch book details when modal opens
@@ -104,6 +117,10 @@ const BookDetailsModal: FC<BookDetailsModalProps> = ({
       return;
     }
 
+    // 修改了章节或分句语言时重建句子索引, 阅读位置与书签按内容锚点迁移到新的句子
+    const reindex = updatedBook.chapterList !== currentBook.chapterList
+      || getBookSegmentLanguage(updatedBook) !== getBookSegmentLanguage(currentBook);
+
     try {
       setLoading(true);
       await db.updateBook(bookId, {
@@ -115,17 +132,105 @@ const BookDetailsModal: FC<BookDetailsModalProps> = ({
       setEditModalOpen(false);
       message.success(t('common.templates.updateSuccess', { entity: t('common.entities.bookGeneric') }));
       router.refresh();
+      if (reindex) {
+        try {
+          const relocate = await db.indexSentences(bookId)
+          relocateBookmarks(bookId, relocate)
+          await updateReadingProgress(bookId)
+        } catch (error) {
+          // 书籍已保存, 句子索引在下次打开时按需重建
+          console.error('Error reindexing sentences:', error);
+          message.error(t('bookDetails.reindexFailed'));
+        }
+      }
+      await updateBook()
     } catch (error) {
       console.error('Error updating book:', error);
       message.error(t('common.templates.updateFailed', { entity: t('common.entities.bookGeneric') }));
     } finally {
       setLoading(false);
-      await db.resetReadingProgress(bookId)
-      await updateReadingProgress(bookId)
-      await updateBook()
       onClose();
     }
-  }, [bookId, router, t, getBookForEdit]);
+  }, [bookId, router, t, getBookForEdit, relocateBookmarks, updateReadingProgress, updateBook, onClose]);
+
+  // 以新版本文件更新书籍, 阅读位置、书签与翻译迁移到对应的新句子
+  const handleUpdateFromFile = useCallback(async (file: File) => {
+    const controller = new AbortController();
+    updateAbortRef.current = controller;
+    setUpdateReport(null);
+    setUpdateProgress({ stage: 'queued' });
+    try {
+      const { report, bookmarks } = await updateBookFromFile(
+        bookId,
+        file,
+        getBookmarksByBookId(bookId),
+        { chapterDetect: chapterDetectOptions, encoding },
+        { onProgress: setUpdateProgress, signal: controller.signal }
+      );
+      relocateBookmarks(bookId, bookmark => bookmarks.find(item => item.id === bookmark.id) ?? bookmark);
+      setUpdateReport(report);
+      setBook(await db.getBook(bookId));
+      await updateReadingProgress(bookId);
+      await updateBook();
+      router.refresh();
+      message.success(t('bookDetails.updateFromFileSuccess', { fileName: file.name }));
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        message.info(t('uploader.importCancelled', { fileName: file.name }));
+      } else {
+        console.error('Error updating book from file:', error);
+        message.error(t('uploader.importFailedWithError', {
+          fileName: file.name,
+          error: error instanceof Error ? error.message : String(error)
+        }));
+      }
+    } finally {
+      updateAbortRef.current = null;
+      setUpdateProgress(null);
+    }
+  }, [bookId, chapterDetectOptions, encoding, getBookmarksByBookId, relocateBookmarks, router, t, updateBook, updateReadingProgress]);
+
+  const renderUpdateReport = (report: BookUpdateReport) => (
+    <>
+      <Title level={5}>{t('bookDetails.updateReport')}</Title>
+      <Text className="block">
+        {t('bookDetails.reportChapters', {
+          unchanged: report.chapters.unchanged.toString(),
+          changed: report.chapters.changed.toString(),
+          added: report.chapters.added.toString(),
+          removed: report.chapters.removed.toString()
+        })}
+      </Text>
+      <Text className="block">
+        {t('bookDetails.reportSentences', {
+          unchanged: report.sentences.unchanged.toString(),
+          added: report.sentences.added.toString(),
+          removed: report.sentences.removed.toString()
+        })}
+      </Text>
+      <Text className="block" type={report.progressMapped ? undefined : 'warning'}>
+        {report.progressMapped ? t('bookDetails.reportProgressMapped') : t('bookDetails.reportProgressUnmapped')}
+      </Text>
+      <Text className="block" type={report.bookmarks.unmapped.length > 0 ? 'warning' : undefined}>
+        {t('bookDetails.reportBookmarks', {
+          mapped: report.bookmarks.mapped.toString(),
+          unmapped: report.bookmarks.unmapped.length.toString()
+        })}
+      </Text>
+      {report.bookmarks.unmapped.map(bookmark => (
+        <Text key={bookmark.id} type="secondary" className="block !text-xs truncate" title={bookmark.sentence}>
+          {bookmark.chapterIndex + 1} · {bookmark.sentence}
+        </Text>
+      ))}
+      <Text className="block" type={report.translations.unmapped > 0 ? 'warning' : undefined}>
+        {t('bookDetails.reportTranslations', {
+          mapped: report.translations.mapped.toString(),
+          unmapped: report.translations.unmapped.toString()
+        })}
+      </Text>
+      <Divider />
+    </>
+  );
 
   const renderDetailedView = () => (
     <div className="space-y-4">
@@ -163,7 +268,36 @@ const BookDetailsModal: FC<BookDetailsModalProps> = ({
         </>
       )}
 
+      {updateReport && renderUpdateReport(updateReport)}
+
+      {updateProgress && (
+        <div className="flex items-center gap-2">
+          <Text type="secondary" className="shrink-0 !text-xs">{t(`uploader.stages.${updateProgress.stage}`)}</Text>
+          <Progress size="small" className="!m-0" percent={getImportPercent(updateProgress)} showInfo={false} />
+          <Button
+            type="text"
+            size="small"
+            icon={<CloseOutlined />}
+            title={t('uploader.cancelImport')}
+            disabled={updateProgress.stage === 'save'}
+            onClick={() => updateAbortRef.current?.abort()}
+          />
+        </div>
+      )}
+
       <div className="flex justify-end gap-2">
+        <Upload
+          accept={Object.values(BOOK_FORMAT).map(format => `.${format}`).join(',')}
+          showUploadList={false}
+          beforeUpload={(file) => {
+            handleUpdateFromFile(file);
+            return false;
+          }}
+        >
+          <Button icon={<SyncOutlined />} loading={!!updateProgress} title={t('bookDetails.updateFromFileHint')}>
+            {t('bookDetails.updateFromFile')}
+          </Button>
+        </Upload>
         <Button
           type="primary"
           icon={<EditOutlined />}
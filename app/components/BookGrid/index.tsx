@@ -78,8 +78,8 @@ export default function BookGrid({ books }: BookGridProps) {
   );
 }
 
-function handleBase64(base64: string) {
-  return `data:image/jpeg;base64,${base64}`
+function handleBase64(cover: Resource) {
+  return `data:${cover.mediaType || 'image/jpeg'};base64,${cover.data}`
 }
 
 const BookCover = ({ cover, title }: { cover: Resource | undefined, title: string }) => {
@@ -103,7 +103,7 @@ const BookCover = ({ cover, title }: { cover: Resource | undefined, title: strin
   return (
     cover ? (
       // eslint-disable-next-line @next/next/no-img-element
-      <img className={imageCSS} src={handleBase64(cover.data)} alt={title} />
+      <img className={imageCSS} src={handleBase64(cover)} alt={title} />
     ) : (
       <div className={noCoverCSS}>
         No Cover
@@ -1,15 +1,24 @@
 import type { UploadProps, UploadFile } from 'antd';
-import { message, Upload } from 'antd';
-import { PlusOutlined } from '@ant-design/icons';
+import { Button, message, Progress, Select, Tooltip, Typography, Upload } from 'antd';
+import { CloseOutlined, PlusOutlined } from '@ant-design/icons';
 import { BOOK_FORMAT } from '@/constants/book';
 import { UPLOAD_CONFIG } from '@/constants/upload';
 import db from '@/services/DB';
-import { Book } from '@/types/book';
-import { handleFileUpload } from '@/services/ServerUpload';
+import { ImportedBook, ImportProgress } from '@/types/book';
+import { getImportPercent, handleFileUpload } from '@/services/ServerUpload';
 import { useTranslation } from '@/i18n/useTranslation';
 import { useCallback, useState, useRef } from 'react';
+import { useChapterDetectStore } from '@/store/useChapterDetectStore';
+import { useUploadStore } from '@/store/useUploadStore';
+import { AUTO_ENCODING, TEXT_ENCODINGS } from '@/constants/encoding';
 
 const { Dragger } = Upload;
+const { Text } = Typography;
+
+interface ImportTask {
+  name: string;
+  progress: ImportProgress;
+}
 
 function checkFileFormat(file: File): boolean {
   const fileExtension = file.name.split('.').pop()?.toLowerCase();
@@ -21,8 +30,25 @@ function checkFileFormat(file: File): boolean {
 export default function BookUploader() {
   const { t } = useTranslation();
   const [fileList, setFileList] = useState<UploadFile[]>([]);
+  const { chapterDetectOptions } = useChapterDetectStore();
+  const { encoding, setEncoding } = useUploadStore();
   const errorShownRef = useRef<Set<string>>(new Set());
   const batchInfoRef = useRef<{ total: number; processed: number }>({ total: 0, processed: 0 });
+  const [tasks, setTasks] = useState<Record<string, ImportTask>>({});
+  const abortControllersRef = useRef<Map<string, AbortController>>(new Map());
+
+  const updateTask = useCallback((uid: string, task: ImportTask | null) => {
+    setTasks(prev => {
+      const next = { ...prev };
+      if (task) next[uid] = task;
+      else delete next[uid];
+      return next;
+    });
+  }, []);
+
+  const cancelImport = useCallback((uid: string) => {
+    abortControllersRef.current.get(uid)?.abort();
+  }, []);
 
   const showError = useCallback((fileNames: string) => {
     const supportedFormats = Object.values(BOOK_FORMAT).join('/');
@@ -51,22 +77,26 @@ export default function BookUploader() {
     fileList,
     customRequest: async (options) => {
       const { file } = options;
-      let fileToUpload = file as File;
-
-      if (fileToUpload.name.endsWith('.md') && !fileToUpload.type) {
-        fileToUpload = new File(
-          [fileToUpload],
-          fileToUpload.name,
-          { type: 'text/markdown' }
-        );
-      }
+      const fileToUpload = file as File;
 
+      const { uid } = file as UploadFile;
+      const controller = new AbortController();
+      abortControllersRef.current.set(uid, controller);
       try {
-        const result = await handleFileUpload(fileToUpload);
+        const result = await handleFileUpload(
+          fileToUpload,
+          { chapterDetect: chapterDetectOptions, encoding },
+          {
+            onProgress: (progress) => updateTask(uid, { name: fileToUpload.name, progress }),
+            signal: controller.signal
+          }
+        );
         options.onSuccess?.(result);
       } catch (error) {
         if (error instanceof Error) options.onError?.(error)
         else options.onError?.(new Error(String(error)));
+      } finally {
+        abortControllersRef.current.delete(uid);
       }
     },
     accept: Object.values(BOOK_FORMAT).map(format => `.${format}`).join(','),
@@ -105,7 +135,7 @@ export default function BookUploader() {
       }
     },
     onChange: async (info) => {
-      const { status, response } = info.file;
+      const { status, response, uid } = info.file;
 
       // 检查是否应该清空列表的函数
       const checkAndClearList = () => {
@@ -117,6 +147,12 @@ export default function BookUploader() {
       };
 
       if (status === 'error') {
+        updateTask(uid, null);
+        if (info.file.error?.name === 'AbortError') {
+          message.info(t('uploader.importCancelled', { fileName: info.file.name }));
+          checkAndClearList();
+          return;
+        }
         const errorMsg = response?.error || t('uploader.importFailed', { fileName: info.file.name });
         message.error(t('uploader.importFailedWithError', {
           fileName: info.file.name,
@@ -126,9 +162,10 @@ export default function BookUploader() {
         return;
       }
       else if (status === 'done') {
+        const { book, sentences } = response as ImportedBook;
+        updateTask(uid, { name: info.file.name, progress: { stage: 'save' } });
         try {
-          const id = await db.addBook(response as Book)
-          await db.addReadingProgress(id)
+          await db.addBook(book, sentences)
           message.success(t('uploader.importSuccess', { fileName: info.file.name }));
         } catch (error) {
           if (error instanceof Error) {
@@ -140,6 +177,7 @@ export default function BookUploader() {
             message.error(t('uploader.importFailed', { fileName: info.file.name }));
           }
         }
+        updateTask(uid, null);
         checkAndClearList();
       } else {
         // 更新文件列表状态
@@ -149,10 +187,48 @@ export default function BookUploader() {
   };
 
   return (
-    <div className="w-[100%] h-[100%]">
+    <div className="w-[100%] h-[100%] relative">
       <Dragger {...props} className="h-full flex items-center justify-center bg-[var(--ant-color-bg-elevated)] dark:bg-[var(--ant-color-bg-elevated)] rounded-lg hover:bg-[var(--ant-color-fill-tertiary)] dark:hover:bg-[var(--ant-color-fill-tertiary)] transition-colors">
         <PlusOutlined className="text-2xl text-[var(--ant-color-text-tertiary)]" />
       </Dragger>
+      {/* 导入进度, 解析在 Worker 中进行, 可同时导入多本并单独取消 */}
+      {Object.keys(tasks).length > 0 && (
+        <div className="absolute inset-x-1 top-1 max-h-[calc(100%-2.5rem)] overflow-y-auto flex flex-col gap-1">
+          {Object.entries(tasks).map(([uid, { name, progress }]) => (
+            <div key={uid} className="rounded bg-[var(--ant-color-bg-container)] px-2 py-1 shadow-sm">
+              <div className="flex items-center gap-1">
+                <Text ellipsis className="flex-1 !text-xs" title={name}>{name}</Text>
+                <Tooltip title={t('uploader.cancelImport')}>
+                  <Button
+                    type="text"
+                    size="small"
+                    icon={<CloseOutlined />}
+                    disabled={progress.stage === 'save'}
+                    onClick={() => cancelImport(uid)}
+                  />
+                </Tooltip>
+              </div>
+              <Text type="secondary" className="!text-xs">{t(`uploader.stages.${progress.stage}`)}</Text>
+              <Progress size="small" percent={getImportPercent(progress)} showInfo={false} />
+            </div>
+          ))}
+        </div>
+      )}
+      {/* TXT/MD 字符编码, 自动检测出错时手动指定 */}
+      <Tooltip title={t('uploader.encoding')}>
+        <Select
+          size="small"
+          variant="borderless"
+          className="!absolute bottom-1 right-1"
+          popupMatchSelectWidth={false}
+          value={encoding}
+          onChange={setEncoding}
+          options={TEXT_ENCODINGS.map(item => ({
+            value: item.value,
+            label: item.value === AUTO_ENCODING ? t('uploader.autoEncoding') : item.label
+          }))}
+        />
+      </Tooltip>
     </div>
   );
 } 
\ No newline at end of file
@@ -60,6 +60,18 @@ function HeaderContentArea() {
       key: '/read',
       disabled: !readingId,
     },
+    {
+      label: t('header.vocabulary'),
+      key: '/vocabulary',
+    },
+    {
+      label: t('header.review'),
+      key: '/review',
+    },
+    {
+      label: t('header.usage'),
+      key: '/usage',
+    },
   ]
   const router = useRouter();
   const current = usePathname().split('?')[0]
@@ -21,7 +21,7 @@ export default function StandardChat() {
   const { t } = useTranslation()
   const { readingProgress } = useReadingProgressStore()
   const { selectedId, promptOptions, setSelectedId } = useOutputOptions()
-  const { chatShortcut } = useSiderStore()
+  const { chatShortcut, readingId } = useSiderStore()
   const [history, setHistory] = useState<LLMHistory>(() => getNewHistory(promptOptions, selectedId))
   const { setHistory: setStoreHistory, historys } = useHistoryStore()
   const { chatModel } = useLLMStore()
@@ -181,7 +181,7 @@ export default function StandardChat() {
     let thinkingStartTime: number | null = null
     let thinkingTime: number | null = null
     try {
-      const responseGenerator = chatLLMClient.completionsGenerator(messages, prompt, signal)
+      const responseGenerator = chatLLMClient.completionsGenerator(messages, prompt, signal, { feature: 'chat', bookId: readingId || undefined })
       let currentMessages = handleMessage(newHistory.messages, '', chatLLMClient.name, false, null)
       setHistory(prev => {
         const newHistory = {
@@ -239,7 +239,7 @@ export default function StandardChat() {
       setIsGenerating(false)
       abortControllerRef.current = null
     }
-  }, [chatLLMClient, setHistory, setStoreHistory, handleMessage, handleTags])
+  }, [chatLLMClient, setHistory, setStoreHistory, handleMessage, handleTags, readingId])
 
   const handleStopGeneration = useCallback(() => {
     if (abortControllerRef.current) {
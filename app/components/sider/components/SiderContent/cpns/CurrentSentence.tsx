@@ -1,14 +1,23 @@
-import { Tooltip, Button, Input } from "antd";
+import { Tooltip, Button, Input, Segmented } from "antd";
 import { EditOutlined, DoubleRightOutlined, StarOutlined, StarFilled } from "@ant-design/icons";
-import nlp from "compromise";
 import { useCallback, useMemo, useState, useRef, useEffect } from "react";
 import { useTranslation } from "@/i18n/useTranslation";
 import { useTheme } from "next-themes";
 import { TextAreaRef } from "antd/es/input/TextArea";
 import { useBookmarkStore } from "@/store/useBookmarkStore";
+import { resolveWordLanguage, tokenizeWords } from "@/services/tokenizer";
+import { annotateRuby } from "@/services/ruby";
+import { WordToken } from "@/types/tokenizer";
+import { RubySegment } from "@/types/ruby";
+import { WordStatus } from "@/types/word";
+import { useWordStatusStore } from "@/store/useWordStatusStore";
+import { WORD_STATUS_HIGHLIGHT_COLORS, WORD_STATUSES } from "@/constants/word";
+import { normalizeLemma } from "@/utils/word";
 type CurrentSentenceProps = {
   sentence: string;
-  handleWord: (word: string) => void;
+  language?: string;
+  showRuby?: boolean;
+  handleWord: (word: string, lemma?: string) => void;
   onEditComplete: (text: string) => void;
   currentBookmarkInfo: {
     bookId: string;
@@ -18,7 +27,7 @@ type CurrentSentenceProps = {
   } | null;
   onBookmarkToggle: () => void;
 }
-export default function CurrentSentence({ sentence, handleWord, onEditComplete, currentBookmarkInfo, onBookmarkToggle }: CurrentSentenceProps) {
+export default function CurrentSentence({ sentence, language, showRuby, handleWord, onEditComplete, currentBookmarkInfo, onBookmarkToggle }: CurrentSentenceProps) {
   const { t } = useTranslation()
   const { theme: currentTheme } = useTheme();
   const [isEditing, setIsEditing] = useState(false);
@@ -52,13 +61,45 @@ export default function CurrentSentence({ sentence, handleWord, onEditComplete,
   const getChunkColor = useCallback((chunk: string) => {
     return wordTypeColors[chunk] || 'text-[var(--ant-color-text)]';
   }, [wordTypeColors]);
-  const terms = useMemo(() => {
-    if (sentence && sentence.length > 0) {
-      const doc = nlp(sentence)
-      return doc.terms().json()
-    }
-    return []
-  }, [sentence])
+  // 按句子语言分词, 中日文的词典在首次使用时加载
+  const [tokens, setTokens] = useState<WordToken[]>([]);
+  useEffect(() => {
+    let cancelled = false;
+    tokenizeWords(sentence ?? '', language).then(result => {
+      if (!cancelled) setTokens(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sentence, language]);
+
+  // 注音按词标注, 与分词结果一一对应; 分词结果变化后旧的注音不再使用
+  const [annotated, setAnnotated] = useState<{ tokens: WordToken[], rubies: RubySegment[][] } | null>(null);
+  const tokenRubies = showRuby && annotated?.tokens === tokens ? annotated.rubies : null;
+  useEffect(() => {
+    if (!showRuby) return;
+    let cancelled = false;
+    Promise.all(tokens.map(token => token.isWord ? annotateRuby(token.text, language) : [{ text: token.text }])).then(rubies => {
+      if (!cancelled) setAnnotated({ tokens, rubies });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [tokens, language, showRuby]);
+
+  // 点击的词可一键标记掌握程度, 状态按句子所用语言记录
+  const wordLanguage = useMemo(() => resolveWordLanguage(sentence ?? '', language), [sentence, language]);
+  const wordStatuses = useWordStatusStore(state => state.wordsByLanguage[wordLanguage]);
+  const highlightWords = useWordStatusStore(state => state.highlightWords);
+  const setWordStatus = useWordStatusStore(state => state.setWordStatus);
+  const [selectedLemma, setSelectedLemma] = useState('');
+  useEffect(() => {
+    setSelectedLemma('');
+  }, [sentence]);
+  const getHighlightColor = (token: WordToken) => {
+    const lemma = normalizeLemma(token);
+    return highlightWords && lemma ? WORD_STATUS_HIGHLIGHT_COLORS[wordStatuses?.[lemma] ?? 'new'] : undefined;
+  };
 
   useEffect(() => {
     if (isEditing && inputRef.current) {
@@ -83,7 +124,7 @@ export default function CurrentSentence({ sentence, handleWord, onEditComplete,
     setIsEditing(false);
   };
   return (
-    <div className="w-full h-[136px] p-4 relative">
+    <div className={`w-full ${selectedLemma && !isEditing ? 'h-[168px]' : 'h-[136px]'} p-4 relative`}>
       <div className="flex items-center justify-between">
         <Tooltip
           color={currentTheme === 'dark' ? '' : 'white'}
@@ -143,19 +184,40 @@ export default function CurrentSentence({ sentence, handleWord, onEditComplete,
             }}
           />
         ) : (
-          terms.map((term, i) => (
+          tokens.map((token, i) => token.isWord ? (
             <span
               key={i}
-              className={`${getChunkColor(term.terms[0].chunk)} hover:underline cursor-pointer text-base`}
+              className={`${getChunkColor(token.chunk ?? '')} hover:underline cursor-pointer text-base`}
+              style={{ backgroundColor: getHighlightColor(token) }}
+              title={token.lemma && token.lemma !== token.text ? token.lemma : undefined}
               onClick={() => {
-                handleWord(term.text)
+                const lemma = normalizeLemma(token)
+                handleWord(token.text, lemma || undefined)
+                setSelectedLemma(lemma)
               }}
             >
-              {term.text}{' '}
+              {tokenRubies?.[i]
+                ? tokenRubies[i].map((segment, j) => segment.ruby
+                  ? <ruby key={j}>{segment.text}<rp>(</rp><rt>{segment.ruby}</rt><rp>)</rp></ruby>
+                  : segment.text)
+                : token.text}
             </span>
+          ) : (
+            <span key={i} className="text-base text-[var(--ant-color-text)] whitespace-pre-wrap">{token.text}</span>
           ))
         )}
       </div>
+      {selectedLemma && !isEditing && (
+        <div className="flex items-center gap-2 mt-2">
+          <span className="text-sm font-medium truncate" title={selectedLemma}>{selectedLemma}</span>
+          <Segmented
+            size="small"
+            value={wordStatuses?.[selectedLemma] ?? 'new'}
+            options={WORD_STATUSES.map(status => ({ value: status, label: t(`sider.wordStatus.${status}`) }))}
+            onChange={(status) => setWordStatus(wordLanguage, selectedLemma, status as WordStatus)}
+          />
+        </div>
+      )}
     </div>
   )
 }
@@ -45,12 +45,13 @@ function useThinkGenerator(SentenceProcessing: SentenceProcessing, outputType: '
           setList(currentList => {
             setThinkContext(currentThinkContext => {
               if (shouldCache(currentText, currentList)) {
-                const { id, type, text: sentence, fromCache } = SentenceProcessing
+                const { id, type, text: sentence, sentenceId, fromCache } = SentenceProcessing
                 if (!fromCache) {
                   cacheService.set(
                     {
                       bookId: bookId || '',
                       sentence,
+                      sentenceId,
                       ruleId: id
                     },
                     {
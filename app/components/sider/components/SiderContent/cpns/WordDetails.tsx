@@ -1,7 +1,52 @@
+import { Button, Divider, Tag } from 'antd'
+import { StarOutlined } from '@ant-design/icons'
 import MarkdownViewer from '@/app/components/common/MarkdownViewer'
+import { DictionaryLookupResult } from '@/types/dictionary'
+import { useTranslation } from '@/i18n/useTranslation'
 
-export default function WordDetails({ wordDetails }: { wordDetails: string }) {
-  return <MarkdownViewer content={wordDetails} minHeight={578} className="h-[578px] overflow-y-auto" />
+interface WordDetailsProps {
+  wordDetails: string
+  dictionaryResults: DictionaryLookupResult[]
+  // 词典中查到时大模型解析按需生成, 没有模型时为空
+  onExplain?: () => void
+  explaining: boolean
 }
 
-WordDetails.displayName = 'WordDetails';
\ No newline at end of file
+export default function WordDetails({ wordDetails, dictionaryResults, onExplain, explaining }: WordDetailsProps) {
+  const { t } = useTranslation()
+
+  if (dictionaryResults.length === 0) {
+    return <MarkdownViewer content={wordDetails} minHeight={578} className="h-[578px] overflow-y-auto" />
+  }
+
+  return (
+    <div className="h-[578px] overflow-y-auto">
+      <div className="flex flex-col gap-3 p-4">
+        {dictionaryResults.map((result, index) => (
+          <div key={index}>
+            <div className="flex items-center gap-2">
+              <span className="text-base font-bold">{result.headword}</span>
+              {result.reading && result.reading !== result.headword.toLowerCase() && (
+                <span className="text-[var(--ant-color-text-secondary)]">{result.reading}</span>
+              )}
+              <Tag className="ml-auto" bordered={false}>{result.dictionaryName}</Tag>
+            </div>
+            <div className="mt-1 whitespace-pre-wrap text-sm">{result.definition}</div>
+          </div>
+        ))}
+      </div>
+      {(wordDetails || explaining) ? (
+        <>
+          <Divider className="my-0" />
+          <MarkdownViewer content={wordDetails} minHeight={120} />
+        </>
+      ) : onExplain && (
+        <div className="flex justify-center pb-4">
+          <Button icon={<StarOutlined />} onClick={onExplain}>{t('sider.explainWord')}</Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+WordDetails.displayName = 'WordDetails';
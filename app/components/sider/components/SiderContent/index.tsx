@@ -11,12 +11,21 @@ import { OUTPUT_PROMPT } from "@/constants/prompt"
 import { useTranslation } from "@/i18n/useTranslation"
 import { useTTSStore } from "@/store/useTTSStore"
 import { useTheme } from 'next-themes'
-import { ReadingProgress } from "@/types/book"
+import { ChapterNote, ContentAnchor, ReadingProgress } from "@/types/book"
 import { SentenceProcessing } from "@/types/cache"
 import { cacheService } from "@/services/CacheService"
 import { createCacheGenerator } from "@/utils/cacheGenerator"
 import { Client as LLMClient } from "@/types/llm"
 import { useBookmarkStore } from "@/store/useBookmarkStore"
+import { useRubyStore } from "@/store/useRubyStore"
+import { useBook } from "@/hooks/useBook"
+import { formatNotes, mapNotesToLines } from "@/utils/note"
+import { createContentAnchor } from "@/utils/anchor"
+import { getBookSegmentLanguage } from "@/services/segmenter"
+import { resolveWordLanguage } from "@/services/tokenizer"
+import { getVocabularyEntry, saveVocabulary, VocabularyRecord } from "@/utils/db"
+import { formatDictionaryResults, lookupWord } from "@/services/dictionary"
+import { DictionaryLookupResult } from "@/types/dictionary"
 
 
 /**
@@ -28,7 +37,9 @@ async function createSentenceGenerator(
   bookId: string,
   defaultLLMClient: LLMClient,
   theme: string,
-  signal: AbortSignal
+  signal: AbortSignal,
+  notes?: string,
+  sentenceId?: string
 ): Promise<{
   generator: AsyncGenerator<string, void, unknown> | null,
   fromCache: boolean,
@@ -36,10 +47,12 @@ async function createSentenceGenerator(
 }> {
   const { type, rulePrompt, id } = option
 
+  // 句子所引用的注释作为额外上下文, 同一句子的注释固定, 不影响缓存
   // 生成缓存键参数，如果没有bookId则使用空字符串
   const cacheParams = {
     bookId: bookId || '',
     sentence: text,
+    sentenceId,
     ruleId: id
   }
 
@@ -64,16 +77,18 @@ async function createSentenceGenerator(
 
     if (type === OUTPUT_TYPE.MD) {
       generator = defaultLLMClient.completionsGenerator(
-        contextMessages(text),
+        contextMessages(text, undefined, undefined, notes),
         assemblePrompt(rulePrompt, `theme: ${theme} output: ${OUTPUT_PROMPT[type]}`),
-        signal
+        signal,
+        { feature: 'sentence', bookId }
       )
     } else {
       generator = getGeneratorThinkAndHTMLTag(
         defaultLLMClient.completionsGenerator(
-          contextMessages(text),
+          contextMessages(text, undefined, undefined, notes),
           assemblePrompt(rulePrompt, OUTPUT_PROMPT[type]),
-          signal
+          signal,
+          { feature: 'sentence', bookId }
         )
       )
     }
@@ -104,16 +119,23 @@ export default function SiderContent() {
 
   const [word, setWord] = useState<string>("")
   const [wordDetails, setWordDetails] = useState<string>("")
+  const [dictionaryResults, setDictionaryResults] = useState<DictionaryLookupResult[]>([])
+  const [explaining, setExplaining] = useState(false)
+  const wordLemmaRef = useRef<string | undefined>(undefined)
 
   // 书签相关状态
   const [currentBookmarkInfo, setCurrentBookmarkInfo] = useState<{
     bookId: string;
     sentence: string;
+    sentenceId?: string;
+    anchor?: ContentAnchor;
     chapterIndex: number;
     lineIndex: number;
   } | null>(null);
 
   const { addBookmark, removeBookmark, getBookmarksByBookId } = useBookmarkStore();
+  const [book] = useBook()
+  const showRuby = useRubyStore(state => !!book && !!state.rubyByBook[book.id])
   const wordOption = useMemo(() => {
     return wordOptions.find(option => option.id === selectedWordId) || wordOptions[0] || {
       id: crypto.randomUUID(),
@@ -141,7 +163,7 @@ export default function SiderContent() {
   }, [parseModel])
 
 
-  const processingSentences = useCallback((text: string, bookId: string) => {
+  const processingSentences = useCallback((text: string, bookId: string, notes?: string, sentenceId?: string) => {
     // 阅读
     if (speak && text && ttsGlobalConfig.autoSentenceTTS) {
       speak(text)
@@ -163,6 +185,7 @@ export default function SiderContent() {
     setSelectedTab("sentence-analysis")
     setWord("")
     setWordDetails("")
+    setDictionaryResults([])
     if (!text || !defaultLLMClient) return
 
     // 清空现有列表
@@ -180,7 +203,9 @@ export default function SiderContent() {
             bookId,
             defaultLLMClient,
             theme || '',
-            signal
+            signal,
+            notes,
+            sentenceId
           )
 
           if (generator) {
@@ -190,6 +215,7 @@ export default function SiderContent() {
               generator,
               id,
               text,
+              sentenceId,
               fromCache,
               bookId,
               signal: generatorSignal  // 传递signal到SentenceProcessing
@@ -215,13 +241,15 @@ export default function SiderContent() {
   // 处理行索引
   const handleLineIndex = useCallback(async (readingProgress: ReadingProgress) => {
     // 取出lineindex和currentChapter
-    const { currentLocation, sentenceChapters, bookId } = readingProgress
+    const { currentLocation, sentenceChapters, sentenceIds, bookId } = readingProgress
     const { chapterIndex, lineIndex: index } = currentLocation
     const currentChapter = sentenceChapters[chapterIndex]
+    const currentIds = sentenceIds?.[chapterIndex] ?? []
 
     let text = ''
+    let nextIndex = index;
+    let lineIndexes: number[] = [index]
     try {
-      let nextIndex = index;
       const texts: string[] = [];
       const targetSize = Math.min(batchProcessingSize, currentChapter.length - index);
       texts.push(currentChapter[nextIndex]);
@@ -232,10 +260,12 @@ export default function SiderContent() {
         const currentText = currentChapter[nextIndex];
         if (currentText.trim()) {
           texts.push(currentText);
+          lineIndexes.push(nextIndex);
         } else {
           nextIndex++;
           if (nextIndex < currentChapter.length) {
             texts.push(currentChapter[nextIndex]);
+            lineIndexes.push(nextIndex);
           }
         }
       }
@@ -243,24 +273,37 @@ export default function SiderContent() {
     } catch (error) {
       console.log(error, '多句子处理错误')
       text = currentChapter[index]
+      nextIndex = index
+      lineIndexes = [index]
     }
+    // 解析缓存按所选句子的 id 区分, 原文相同而位置不同的句子各自缓存
+    const ids = lineIndexes.map(lineIndex => currentIds[lineIndex]).filter(Boolean)
+    const sentenceId = ids.length === lineIndexes.length ? ids.join(',') : undefined
+
+    // 收集所选句子引用的脚注/尾注
+    const lineNotes = book?.id === bookId ? mapNotesToLines(book.chapterList[chapterIndex], currentChapter) : new Map<number, ChapterNote[]>()
+    const notes = [...lineNotes.entries()]
+      .filter(([lineIndex]) => lineIndex >= index && lineIndex <= nextIndex)
+      .flatMap(([, notes]) => notes)
 
     // 维护当前书签信息
     setCurrentBookmarkInfo({
       bookId,
       sentence: currentChapter[index], // 书签不需要存储发送文本
+      sentenceId: currentIds[index] || undefined,
+      anchor: createContentAnchor(currentChapter, index),
       chapterIndex,
       lineIndex: index
     });
 
-    processingSentences(text, bookId)
-  }, [defaultLLMClient, sentenceOptions, setSentenceProcessingList, batchProcessingSize, t, processingSentences])
+    processingSentences(text, bookId, notes.length > 0 ? formatNotes(notes) : undefined, sentenceId)
+  }, [defaultLLMClient, sentenceOptions, setSentenceProcessingList, batchProcessingSize, t, processingSentences, book])
 
   // 书签操作函数
   const handleBookmarkToggle = useCallback(() => {
     if (!currentBookmarkInfo) return;
 
-    const { bookId, sentence, chapterIndex, lineIndex } = currentBookmarkInfo;
+    const { bookId, sentence, sentenceId, anchor, chapterIndex, lineIndex } = currentBookmarkInfo;
     const bookmarks = getBookmarksByBookId(bookId);
     const existingBookmark = bookmarks.find(bookmark =>
       bookmark.chapterIndex === chapterIndex &&
@@ -273,6 +316,8 @@ export default function SiderContent() {
       addBookmark({
         bookId,
         sentence,
+        sentenceId,
+        anchor,
         chapterIndex,
         lineIndex
       });
@@ -321,8 +366,49 @@ export default function SiderContent() {
     })
   }, [setWord])
 
+  // 保存到生词本, 手动编辑过的句子没有位置, 生词本中无法跳回原文
+  const saveWord = useCallback(async (word: string, lemma: string | undefined, explanation: string, explanationSource: VocabularyRecord['explanationSource'] = 'model') => {
+    if (!book) return
+    const location = currentBookmarkInfo?.bookId === book.id ? currentBookmarkInfo : null
+    await saveVocabulary({
+      word,
+      lemma,
+      language: resolveWordLanguage(sentence, getBookSegmentLanguage(book)),
+      explanation,
+      explanationSource,
+      sentence,
+      bookId: book.id,
+      bookTitle: book.title,
+      sentenceId: location?.sentenceId,
+      anchor: location?.anchor,
+      chapterIndex: location?.chapterIndex,
+      lineIndex: location?.lineIndex
+    })
+  }, [book, currentBookmarkInfo, sentence])
+
+  // 大模型流式解析单词, 请求失败时保留词典结果
+  const explainWord = useCallback(async (word: string, lemma: string | undefined, signal: AbortSignal) => {
+    if (!defaultLLMClient) return
+    let explanation = ''
+    setExplaining(true)
+    try {
+      const wordDetailGenerator = defaultLLMClient.completionsGenerator([{ role: 'user', content: `word:${word} sentence:${sentence}` }], wordOption.rulePrompt + OUTPUT_PROMPT.MD_WORD, signal, { feature: 'word', bookId: book?.id })
+      for await (const chunk of wordDetailGenerator) {
+        if (!chunk) continue
+        explanation += chunk
+        setWordDetails((prev) => (prev || "") + chunk)
+      }
+    } catch (error) {
+      if (!signal.aborted) console.error('单词解析失败:', error)
+    } finally {
+      if (!signal.aborted) setExplaining(false)
+    }
+    if (signal.aborted) return
+    await saveWord(word, lemma, explanation)
+  }, [defaultLLMClient, sentence, wordOption, saveWord, book?.id])
+
   // 处理点击单词
-  const handleWord = useCallback(async (word: string) => {
+  const handleWord = useCallback(async (word: string, lemma?: string) => {
     // 阅读
     if (speak && word && ttsGlobalConfig.autoWordTTS) {
       speak(word)
@@ -334,18 +420,40 @@ export default function SiderContent() {
     }
     wordAbortControllerRef.current = new AbortController();
     const { signal } = wordAbortControllerRef.current;
+    wordLemmaRef.current = lemma
 
     setWordDetails("")
+    setDictionaryResults([])
+    setExplaining(false)
     handleTabChange('word-details')
 
-    if (!defaultLLMClient) return
-    const wordDetailGenerator = defaultLLMClient.completionsGenerator([{ role: 'user', content: `word:${word} sentence:${sentence}` }], wordOption.rulePrompt + OUTPUT_PROMPT.MD_WORD, signal)
-    for await (const chunk of wordDetailGenerator) {
-      if (!chunk) continue
-      setWordDetails((prev) => (prev || "") + chunk)
+    // 离线词典结果立即显示; 每次查词都记入生词本, 同一句子中查过的词直接使用保存的解析
+    const language = book ? resolveWordLanguage(sentence, getBookSegmentLanguage(book)) : undefined
+    const [saved, results] = await Promise.all([
+      book ? getVocabularyEntry(book.id, word, sentence) : undefined,
+      lookupWord(word, lemma, language).catch(error => {
+        console.error('词典查询失败:', error)
+        return []
+      })
+    ])
+    if (signal.aborted) return
+    setDictionaryResults(results)
+    if (saved?.explanation && saved.explanationSource !== 'dictionary') {
+      setWordDetails(saved.explanation)
+      await saveWord(word, lemma, saved.explanation, saved.explanationSource)
+    } else if (results.length > 0) {
+      // 词典中查到时大模型解析改为按需生成, 省去每次查词的请求; 词典释义作为解析保存, 用于复习卡片与导出
+      await saveWord(word, lemma, formatDictionaryResults(results), 'dictionary')
+    } else {
+      await explainWord(word, lemma, signal)
     }
-  }, [defaultLLMClient, handleTabChange, sentence, isSameWord, wordOption])
+  }, [handleTabChange, sentence, isSameWord, book, saveWord, explainWord])
 
+  const handleExplainWord = useCallback(() => {
+    const signal = wordAbortControllerRef.current?.signal
+    if (!word || !signal || signal.aborted) return
+    explainWord(word, wordLemmaRef.current, signal)
+  }, [word, explainWord])
 
   const handleEditComplete = useCallback((text: string) => {
     setSentence(text)
@@ -358,6 +466,8 @@ export default function SiderContent() {
     <div className="w-full h-full flex flex-col">
       <CurrentSentence
         sentence={sentence}
+        language={book ? getBookSegmentLanguage(book) : undefined}
+        showRuby={showRuby}
         handleWord={handleWord}
         onEditComplete={handleEditComplete}
         currentBookmarkInfo={currentBookmarkInfo}
@@ -371,7 +481,14 @@ export default function SiderContent() {
           : <Empty description={parseModel ? t('sider.noSentenceSelected') : t('sider.noAnalysisModelSelected')} className="flex flex-col items-center justify-center h-[262px]" />}
       </div>
       {selectedTab === 'word-details' && (
-        (word && parseModel) ? <WordDetails wordDetails={wordDetails} />
+        (word && (parseModel || dictionaryResults.length > 0)) ? (
+          <WordDetails
+            wordDetails={wordDetails}
+            dictionaryResults={dictionaryResults}
+            onExplain={defaultLLMClient ? handleExplainWord : undefined}
+            explaining={explaining}
+          />
+        )
           : <Empty description={parseModel ? t('sider.noWordSelected') : t('sider.noAnalysisModelSelected')} className="flex flex-col items-center justify-center h-[262px]" />
       )}
       <Divider className="my-0" />
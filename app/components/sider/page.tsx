@@ -23,7 +23,7 @@ export default function Sider() {
   // 当返回阅读页面时 更新阅读进度
   useEffect(() => {
     if (pathname.includes('/read') && readingId) {
-      updateReadingProgress(readingId)
+      updateReadingProgress(readingId).catch(error => console.error('更新阅读进度失败:', error))
     }
   }, [updateReadingProgress, pathname, readingId])
   const updateLineIndex = useCallback(async (lineIndex: number) => {
@@ -4,10 +4,15 @@ import { Menu, Button, List, Empty, Popconfirm } from 'antd'
 import { MenuFoldOutlined, MenuUnfoldOutlined, BookOutlined, DeleteOutlined } from '@ant-design/icons'
 import { Book, Bookmark } from '@/types/book'
 import { useSiderStore } from '@/store/useSiderStore'
+import db from '@/services/DB'
 import { useBookmarkStore } from '@/store/useBookmarkStore'
 import { useBook } from '@/hooks/useBook'
 import { useTranslation } from '@/i18n/useTranslation'
-import { useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
+import { useWordStatusStore } from '@/store/useWordStatusStore'
+import { collectChapterWords } from '@/services/WordStats'
+import { getBookSegmentLanguage } from '@/services/segmenter'
+import { WordSpan } from '@/types/word'
 
 interface ReadMenuProps {
   toc: Book['toc']
@@ -15,18 +20,90 @@ interface ReadMenuProps {
   onChapterChange: (index: number, lineIndex: number) => void
 }
 
+type TocMenuItem = {
+  key: string
+  label: React.ReactNode
+  title: string
+  children?: TocMenuItem[]
+  onTitleClick?: () => void
+}
+
+// 目录项的 key 由其在目录树中的路径生成, 多个目录项可能指向同一章节
+const buildTocMenu = (
+  toc: Book['toc'],
+  currentChapter: number,
+  onChapterChange: (index: number, lineIndex: number) => void,
+  collapsed: boolean,
+  unknownCounts?: Map<number, number>,
+  parentKey = ''
+): { items: TocMenuItem[], selectedKeys: string[], openKeys: string[] } => {
+  const selectedKeys: string[] = []
+  const openKeys: string[] = []
+
+  const items = toc.map(({ title, index, children }, i) => {
+    const key = parentKey ? `${parentKey}-${i}` : String(i)
+    if (index === currentChapter) selectedKeys.push(key)
+    const unknownCount = unknownCounts?.get(index)
+    const item: TocMenuItem = {
+      key,
+      label: collapsed ? index + 1 : unknownCount === undefined ? title : (
+        <span className="flex justify-between gap-2">
+          <span className="truncate">{title}</span>
+          <span className="shrink-0 text-xs text-[var(--ant-color-text-tertiary)]">{unknownCount}</span>
+        </span>
+      ),
+      title: title
+    }
+    if (children && children.length > 0) {
+      const sub = buildTocMenu(children, currentChapter, onChapterChange, collapsed, unknownCounts, key)
+      item.children = sub.items
+      // 有子目录的目录项本身也是章节, 点击标题时跳转
+      item.onTitleClick = () => onChapterChange(index, 0)
+      selectedKeys.push(...sub.selectedKeys)
+      if (sub.selectedKeys.length > 0) openKeys.push(key, ...sub.openKeys)
+    }
+    return item
+  })
+
+  return { items, selectedKeys, openKeys }
+}
+
 // 渲染目录菜单函数
-const renderTocMenu = (
+const TocMenu = ({
+  toc,
+  currentChapter,
+  onChapterChange,
+  collapsed,
+  unknownCounts
+}: {
   toc: Book['toc'],
   currentChapter: number,
   onChapterChange: (index: number, lineIndex: number) => void,
-  collapsed: boolean
-) => {
-  const menuItems = toc.map(({ title, index }) => ({
-    key: index,
-    label: collapsed ? index + 1 : title,
-    title: title
-  }))
+  collapsed: boolean,
+  unknownCounts?: Map<number, number>
+}) => {
+  const { items, selectedKeys, openKeys: currentOpenKeys } = useMemo(
+    () => buildTocMenu(toc, currentChapter, onChapterChange, collapsed, unknownCounts),
+    [toc, currentChapter, onChapterChange, collapsed, unknownCounts]
+  )
+  const keyIndexMap = useMemo(() => {
+    const map = new Map<string, number>()
+    const walk = (items: Book['toc'], parentKey = '') => items.forEach((item, i) => {
+      const key = parentKey ? `${parentKey}-${i}` : String(i)
+      map.set(key, item.index)
+      if (item.children) walk(item.children, key)
+    })
+    walk(toc)
+    return map
+  }, [toc])
+  const [openKeys, setOpenKeys] = useState<string[]>(currentOpenKeys)
+  const currentOpenKeysStr = currentOpenKeys.join(',')
+
+  // 切换章节时展开当前章节所在的目录层级
+  useEffect(() => {
+    if (!currentOpenKeysStr) return
+    setOpenKeys(prev => [...new Set([...prev, ...currentOpenKeysStr.split(',')])])
+  }, [currentOpenKeysStr])
 
   return (
     <Menu
@@ -34,10 +111,14 @@ const renderTocMenu = (
       style={{
         width: '100%',
       }}
-      selectedKeys={[String(currentChapter)]}
+      selectedKeys={selectedKeys}
       inlineCollapsed={collapsed}
-      items={menuItems}
-      onClick={({ key }) => onChapterChange(parseInt(key), 0)}
+      items={items}
+      {...(collapsed ? {} : { openKeys, onOpenChange: setOpenKeys })}
+      onClick={({ key }) => {
+        const index = keyIndexMap.get(key)
+        if (index !== undefined) onChapterChange(index, 0)
+      }}
       className="flex-1 overflow-auto"
     />
   )
@@ -106,7 +187,7 @@ const renderBookmarkList = (
 
 export default function ReadMenu({ toc, currentChapter, onChapterChange }: ReadMenuProps) {
   const { collapsed, setCollapsed, readingId } = useSiderStore()
-  const { getBookmarksByBookId, removeBookmark } = useBookmarkStore()
+  const { getBookmarksByBookId, removeBookmark, relocateBookmarks } = useBookmarkStore()
   const [book] = useBook()
   const [mode, setMode] = useState<'toc' | 'bookmark'>('toc')
   const { t } = useTranslation()
@@ -114,11 +195,42 @@ export default function ReadMenu({ toc, currentChapter, onChapterChange }: ReadM
   // 获取当前书籍的书签
   const bookmarks = book ? getBookmarksByBookId(book.id) : []
 
+  // 开启生词高亮时逐章统计生词数, 便于挑选生词比例合适的章节
+  const highlightWords = useWordStatusStore(state => state.highlightWords)
+  const wordsByLanguage = useWordStatusStore(state => state.wordsByLanguage)
+  const [chapterWords, setChapterWords] = useState<Map<number, WordSpan[]>>(new Map())
+  const bookId = book?.id
+  const segmentLanguage = book ? getBookSegmentLanguage(book) : undefined
+  useEffect(() => {
+    setChapterWords(new Map())
+    if (!bookId || !highlightWords) return
+    const controller = new AbortController()
+    collectChapterWords(bookId, segmentLanguage, (chapterIndex, words) => {
+      setChapterWords(prev => new Map(prev).set(chapterIndex, words))
+    }, controller.signal).catch(error => {
+      console.error('统计生词失败:', error)
+    })
+    return () => controller.abort()
+  }, [bookId, segmentLanguage, highlightWords])
+  const unknownCounts = useMemo(() => {
+    if (!highlightWords) return undefined
+    const counts = new Map<number, number>()
+    chapterWords.forEach((words, chapterIndex) => {
+      counts.set(chapterIndex, words.filter(word => !wordsByLanguage[word.language]?.[word.lemma]).length)
+    })
+    return counts
+  }, [highlightWords, chapterWords, wordsByLanguage])
+
   // 处理书签点击跳转
   const handleBookmarkClick = async (bookmark: Bookmark) => {
     if (!readingId) return
     try {
-      await onChapterChange(bookmark.chapterIndex, bookmark.lineIndex)
+      // 按句子 id 与内容锚点重新定位, 位置变化时同步保存到书签
+      const [location] = await db.relocateLocations(readingId, [bookmark])
+      if (location.chapterIndex !== bookmark.chapterIndex || location.lineIndex !== bookmark.lineIndex) {
+        relocateBookmarks(readingId, item => item.id === bookmark.id ? location : item)
+      }
+      await onChapterChange(location.chapterIndex, location.lineIndex)
       // 跳转后切换回目录模式
       setMode('toc')
     } catch (error) {
@@ -168,7 +280,7 @@ export default function ReadMenu({ toc, currentChapter, onChapterChange }: ReadM
       </div>
 
       {mode === 'toc'
-        ? renderTocMenu(toc, currentChapter, onChapterChange, collapsed)
+        ? <TocMenu toc={toc} currentChapter={currentChapter} onChapterChange={onChapterChange} collapsed={collapsed} unknownCounts={unknownCounts} />
         : renderBookmarkList(bookmarks, handleBookmarkClick, handleConfirmDeleteBookmark, t)}
     </div>
   )
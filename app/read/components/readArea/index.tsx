@@ -1,11 +1,11 @@
-import { Book, ReadingProgress } from "@/types/book"
+import { Book, ChapterNote, ImageBlock, ReadingProgress, Resource, TextRun } from "@/types/book"
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import db from "@/services/DB"
 import { EVENT_NAMES, EventEmitter } from "@/services/EventService"
-import { Radio, Spin } from "antd"
+import { Button, Popover, Radio, Spin, Tooltip } from "antd"
 import { createLLMClient } from "@/services/llm"
 import { useLLMStore } from "@/store/useLLMStore"
-import { LoadingOutlined } from "@ant-design/icons"
+import { FontSizeOutlined, HighlightOutlined, LoadingOutlined } from "@ant-design/icons"
 import type { ChatCompletionMessageParam } from "openai/resources/index.mjs"
 import { INPUT_PROMPT } from "@/constants/prompt"
 import { useTranslationStore } from "@/store/useTranslationStore"
@@ -14,6 +14,17 @@ import {
   saveTranslation as saveTranslationToDB,
   getBatchTranslations
 } from "@/utils/db"
+import { isImageBlock, mapRunsToLines } from "@/utils/paragraph"
+import { mapNotesToLines } from "@/utils/note"
+import { useRubyStore } from "@/store/useRubyStore"
+import { annotateRuns } from "@/services/ruby"
+import { getBookSegmentLanguage } from "@/services/segmenter"
+import { useTranslation } from "@/i18n/useTranslation"
+import { useWordStatusStore } from "@/store/useWordStatusStore"
+import { extractWords } from "@/services/tokenizer"
+import { WordSpan, WordStatus } from "@/types/word"
+import { WORD_STATUS_HIGHLIGHT_COLORS } from "@/constants/word"
+import { splitRunsByWords } from "@/utils/word"
 
 
 export default function ReadArea({ book, readingProgress }: { book: Book, readingProgress: ReadingProgress }) {
@@ -25,6 +36,72 @@ export default function ReadArea({ book, readingProgress }: { book: Book, readin
     return readingProgress.sentenceChapters[readingProgress.currentLocation.chapterIndex] ?? []
   }, [readingProgress.sentenceChapters, readingProgress.currentLocation.chapterIndex])
 
+  const sentenceIds = useMemo(() => {
+    return readingProgress.sentenceIds?.[readingProgress.currentLocation.chapterIndex] ?? []
+  }, [readingProgress.sentenceIds, readingProgress.currentLocation.chapterIndex])
+
+  // 图片段落在分句结果中只占一个段落分隔(空行), 按空行数与段落对应找出图片所在的行
+  const lineImages = useMemo(() => {
+    const images = new Map<number, ImageBlock>()
+    const paragraphs = book.chapterList[readingProgress.currentLocation.chapterIndex]?.paragraphs ?? []
+    let paragraphIndex = 0
+    lines.forEach((line, index) => {
+      if (line) return
+      const paragraph = paragraphs[paragraphIndex++]
+      if (paragraph && isImageBlock(paragraph)) images.set(index, paragraph)
+    })
+    return images
+  }, [book, readingProgress.currentLocation.chapterIndex, lines])
+
+  // 带格式段落按句截取格式, 分句本身仍基于纯文本
+  const lineRuns = useMemo(() => {
+    return mapRunsToLines(book.chapterList[readingProgress.currentLocation.chapterIndex], lines)
+  }, [book, readingProgress.currentLocation.chapterIndex, lines])
+
+  // 脚注/尾注按引用位置挂在对应的句子上
+  const lineNotes = useMemo(() => {
+    return mapNotesToLines(book.chapterList[readingProgress.currentLocation.chapterIndex], lines)
+  }, [book, readingProgress.currentLocation.chapterIndex, lines])
+
+  // 注音只为当前章节计算, 已有 <ruby> 注音的 run 保持不变; 章节切换后旧的注音不再使用
+  const { t } = useTranslation()
+  const rubyEnabled = useRubyStore(state => !!state.rubyByBook[book.id])
+  const toggleRuby = useRubyStore(state => state.toggleRuby)
+  const language = getBookSegmentLanguage(book)
+  const [rubyChapter, setRubyChapter] = useState<{ lines: string[], runs: Map<number, TextRun[]> } | null>(null)
+  const lineRubyRuns = rubyEnabled && rubyChapter?.lines === lines ? rubyChapter.runs : null
+  useEffect(() => {
+    if (!rubyEnabled) return
+    let cancelled = false
+    Promise.all(lines.map((line, index) => line ? annotateRuns(lineRuns.get(index) ?? [{ text: line }], language) : null)).then(annotated => {
+      if (cancelled) return
+      const runs = new Map<number, TextRun[]>()
+      annotated.forEach((annotatedRuns, index) => annotatedRuns && runs.set(index, annotatedRuns))
+      setRubyChapter({ lines, runs })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [rubyEnabled, lines, lineRuns, language])
+
+  // 生词高亮: 当前章节逐句分词, 词状态变化时只重新着色
+  const highlightWords = useWordStatusStore(state => state.highlightWords)
+  const toggleHighlightWords = useWordStatusStore(state => state.toggleHighlightWords)
+  const wordsByLanguage = useWordStatusStore(state => state.wordsByLanguage)
+  const [chapterWords, setChapterWords] = useState<{ lines: string[], words: Map<number, WordSpan[]> } | null>(null)
+  const lineWords = highlightWords && chapterWords?.lines === lines ? chapterWords.words : null
+  useEffect(() => {
+    if (!highlightWords) return
+    let cancelled = false
+    Promise.all(lines.map(line => line ? extractWords(line, language) : [])).then(words => {
+      if (cancelled) return
+      setChapterWords({ lines, words: new Map(words.map((lineWords, index) => [index, lineWords])) })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [highlightWords, lines, language])
+
   const containerRef = useRef<HTMLDivElement>(null)
   const [selectedLine, setSelectedLine] = useState<number>(Infinity)
   const [visibleTranslations, setVisibleTranslations] = useState<Set<number>>(new Set())
@@ -144,7 +221,7 @@ export default function ReadArea({ book, readingProgress }: { book: Book, readin
 
     try {
       // 先尝试从数据库获取缓存的翻译
-      const cachedTranslation = await getTranslationFromDB(book.id, sentence);
+      const cachedTranslation = await getTranslationFromDB(book.id, sentence, sentenceIds[index]);
       if (cachedTranslation) {
         console.log('Translation loaded from DB cache:', sentence.substring(0, 30) + '...');
         setTranslations(prev => new Map(prev).set(index, cachedTranslation.translatedText));
@@ -167,14 +244,14 @@ export default function ReadArea({ book, readingProgress }: { book: Book, readin
       ];
 
       // 获取翻译
-      const translation = await client.completions(messages, '');
+      const translation = await client.completions(messages, '', undefined, { feature: 'translation', bookId: book.id });
 
       // 保存翻译结果到内存
       setTranslations(prev => new Map(prev).set(index, translation));
       
       // 保存到数据库
       if (translation && translation !== sentence) {
-        await saveTranslationToDB(book.id, sentence, translation);
+        await saveTranslationToDB(book.id, sentence, translation, undefined, undefined, sentenceIds[index]);
         console.log('Translation saved to DB:', sentence.substring(0, 30) + '...');
       }
     } catch (error) {
@@ -187,7 +264,7 @@ export default function ReadArea({ book, readingProgress }: { book: Book, readin
         return newSet;
       });
     }
-  }, [book.id]);
+  }, [book.id, sentenceIds]);
 
   // 处理行点击（优化批量翻译）
   const handleLineClick = useCallback((index: number) => {
@@ -310,8 +387,28 @@ export default function ReadArea({ book, readingProgress }: { book: Book, readin
       ref={containerRef}
       className='w-full h-full overflow-auto p-2'
     >
-      <div className="text-2xl font-bold mb-4 ml-8">{title}</div>
-      <div className="text-lg">
+      <div className="flex items-center justify-between gap-2 mb-4 ml-8">
+        <div className="text-2xl font-bold">{title}</div>
+        <div className="flex items-center">
+          <Tooltip title={t(highlightWords ? 'sider.hideWordHighlight' : 'sider.highlightWords')}>
+            <Button
+              type="text"
+              icon={<HighlightOutlined />}
+              className={highlightWords ? '!text-[var(--ant-color-primary)]' : ''}
+              onClick={toggleHighlightWords}
+            />
+          </Tooltip>
+          <Tooltip title={t(rubyEnabled ? 'sider.hideRuby' : 'sider.showRuby')}>
+            <Button
+              type="text"
+              icon={<FontSizeOutlined />}
+              className={rubyEnabled ? '!text-[var(--ant-color-primary)]' : ''}
+              onClick={() => toggleRuby(book.id)}
+            />
+          </Tooltip>
+        </div>
+      </div>
+      <div className={`text-lg ${lineRubyRuns ? 'leading-loose' : ''}`}>
         {lines.length > 0 && lines.map((sentence, index) => (
           <Line
             sentence={sentence}
@@ -323,6 +420,12 @@ export default function ReadArea({ book, readingProgress }: { book: Book, readin
             translation={translations.get(index)}
             isLoadingTranslation={loadingTranslations.has(index)}
             isTranslationVisible={visibleTranslations.has(index)}
+            runs={lineRubyRuns?.get(index) ?? lineRuns.get(index)}
+            notes={lineNotes.get(index)}
+            words={lineWords?.get(index)}
+            wordsByLanguage={lineWords ? wordsByLanguage : undefined}
+            image={lineImages.get(index)}
+            resource={book.resources?.[lineImages.get(index)?.src ?? '']}
           />
         ))}
       </div>
@@ -331,7 +434,7 @@ export default function ReadArea({ book, readingProgress }: { book: Book, readin
 }
 
 // 单行组件，使用memo优化性能
-const Line = React.memo(({ sentence, index, isSelected, handleLineClick, setLineRef, translation, isLoadingTranslation, isTranslationVisible }: {
+const Line = React.memo(({ sentence, index, isSelected, handleLineClick, setLineRef, translation, isLoadingTranslation, isTranslationVisible, runs, notes, words, wordsByLanguage, image, resource }: {
   sentence: string,
   index: number,
   isSelected: boolean,
@@ -339,7 +442,13 @@ const Line = React.memo(({ sentence, index, isSelected, handleLineClick, setLine
   setLineRef: (element: HTMLDivElement | null, index: number) => void,
   translation?: string,
   isLoadingTranslation?: boolean,
-  isTranslationVisible?: boolean
+  isTranslationVisible?: boolean,
+  runs?: TextRun[],
+  notes?: ChapterNote[],
+  words?: WordSpan[],
+  wordsByLanguage?: Record<string, Record<string, WordStatus>>,
+  image?: ImageBlock,
+  resource?: Resource
 }) => {
   // 获取翻译卡片样式配置
   const cardStyle = useTranslationStore(state => state.cardStyle);
@@ -364,6 +473,23 @@ const Line = React.memo(({ sentence, index, isSelected, handleLineClick, setLine
   }, []);
   
   if (!sentence) {
+    // 图片段落不参与选句与翻译, 只做展示
+    if (image && resource) {
+      return (
+        <div className="my-4 ml-8" ref={(el) => setLineRef(el, index)}>
+          <figure className="flex flex-col items-center">
+            <img
+              src={`data:${resource.mediaType};base64,${resource.data}`}
+              alt={image.alt ?? image.caption ?? ''}
+              className="max-w-full max-h-[80vh] object-contain"
+            />
+            {image.caption && (
+              <figcaption className="mt-2 text-sm text-gray-500">{image.caption}</figcaption>
+            )}
+          </figure>
+        </div>
+      )
+    }
     return <div className="h-4" />
   }
   
@@ -415,7 +541,20 @@ const Line = React.memo(({ sentence, index, isSelected, handleLineClick, setLine
           />
         </div>
         <div className={`mx-1`} />
-        <div className="flex-1">{sentence}</div>
+        <div className="flex-1">
+          {runs || words?.length
+            ? <RichText runs={runs ?? [{ text: sentence }]} words={words} wordsByLanguage={wordsByLanguage} />
+            : sentence}
+          {notes?.map((note, i) => (
+            <Popover
+              key={i}
+              trigger="click"
+              content={<div className="max-w-[400px] text-sm whitespace-pre-wrap">{note.content}</div>}
+            >
+              <sup className="ml-0.5 cursor-pointer text-[var(--ant-color-primary)]">[{note.label || i + 1}]</sup>
+            </Popover>
+          ))}
+        </div>
       </div>
       
       {/* 翻译内容显示区域 */}
@@ -446,3 +585,28 @@ const Line = React.memo(({ sentence, index, isSelected, handleLineClick, setLine
   )
 })
 Line.displayName = 'Line'
+
+// 按 run 渲染行内格式, 有分词结果时按词状态高亮
+const RichText = ({ runs, words, wordsByLanguage }: {
+  runs: TextRun[],
+  words?: WordSpan[],
+  wordsByLanguage?: Record<string, Record<string, WordStatus>>
+}) => {
+  const pieces = words?.length
+    ? splitRunsByWords(runs, words, word => wordsByLanguage?.[word.language]?.[word.lemma] ?? 'new')
+    : runs.map(run => ({ run, status: undefined }))
+  return <>
+    {pieces.map(({ run, status }, i) => {
+      let node: React.ReactNode = run.ruby
+        ? <ruby>{run.text}<rp>(</rp><rt>{run.ruby}</rt><rp>)</rp></ruby>
+        : run.text
+      if (run.marks?.includes('code')) node = <code className="px-1 rounded bg-[var(--ant-color-fill-tertiary)] text-[0.9em]">{node}</code>
+      if (run.marks?.includes('strong')) node = <strong>{node}</strong>
+      if (run.marks?.includes('em')) node = <em>{node}</em>
+      if (run.href) node = <a href={run.href} target="_blank" rel="noopener noreferrer">{node}</a>
+      const highlight = status && WORD_STATUS_HIGHLIGHT_COLORS[status]
+      if (highlight) node = <span className="rounded-sm" style={{ backgroundColor: highlight }}>{node}</span>
+      return <React.Fragment key={i}>{node}</React.Fragment>
+    })}
+  </>
+}
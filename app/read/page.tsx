@@ -51,8 +51,12 @@ export default function ReadPage() {
     setTimeout(async () => {
       setIsChapterLoading(true)
       const start = Date.now()
-      await db.updateCurrentLocation(readingId, { chapterIndex: index, lineIndex })
-      await updateReadingProgress(readingId)
+      try {
+        await db.updateCurrentLocation(readingId, { chapterIndex: index, lineIndex })
+        await updateReadingProgress(readingId)
+      } catch (error) {
+        console.error('切换章节失败:', error)
+      }
       const elapsed = Date.now() - start
       if (elapsed < 200) {
         await new Promise(resolve => setTimeout(resolve, 200 - elapsed))
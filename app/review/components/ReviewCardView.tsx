@@ -0,0 +1,96 @@
+import { Button, Tag } from 'antd'
+import { ReadOutlined } from '@ant-design/icons'
+import MarkdownViewer from '@/app/components/common/MarkdownViewer'
+import { ReviewCard, ReviewGrade } from '@/types/review'
+import { REVIEW_GRADES, SM2_CONFIG } from '@/constants/review'
+import { scheduleReview } from '@/utils/srs'
+import { createCloze } from '@/services/Review'
+import { useTranslation } from '@/i18n/useTranslation'
+
+interface ReviewCardViewProps {
+  card: ReviewCard
+  showAnswer: boolean
+  onShowAnswer: () => void
+  onGrade: (grade: ReviewGrade) => void
+  onOpen: (card: ReviewCard) => void
+}
+
+// 原句中高亮复习的单词
+const HighlightedSentence = ({ sentence, word }: { sentence: string, word?: string }) => {
+  const index = word ? sentence.indexOf(word) : -1
+  if (!word || index === -1) return <>{sentence}</>
+  return <>
+    {sentence.slice(0, index)}
+    <mark className="px-0.5 rounded bg-[var(--ant-color-warning-bg)] text-inherit">{word}</mark>
+    {sentence.slice(index + word.length)}
+  </>
+}
+
+export default function ReviewCardView({ card, showAnswer, onShowAnswer, onGrade, onOpen }: ReviewCardViewProps) {
+  const { t } = useTranslation()
+
+  // 评分按钮上显示按该评分复习后的间隔
+  const formatInterval = (grade: ReviewGrade) => {
+    const { interval } = scheduleReview(card, grade)
+    return interval === 0
+      ? t('review.minutes', { count: SM2_CONFIG.RELEARN_MINUTES.toString() })
+      : t('review.days', { count: interval.toString() })
+  }
+
+  const front = card.type === 'word'
+    ? (
+      <div className="text-center">
+        <div className="text-3xl font-bold">{card.word}</div>
+        {card.lemma && card.lemma !== card.word?.toLowerCase() && (
+          <div className="mt-1 text-[var(--ant-color-text-tertiary)]">{card.lemma}</div>
+        )}
+      </div>
+    )
+    : <div className="text-xl leading-relaxed">
+      {card.type === 'cloze' ? createCloze(card.sentence, card.word ?? '') : card.sentence}
+    </div>
+
+  const back = card.type === 'translation'
+    ? <div className="text-lg leading-relaxed">{card.translation}</div>
+    : (
+      <div className="flex flex-col gap-3">
+        <div className="text-lg leading-relaxed"><HighlightedSentence sentence={card.sentence} word={card.word} /></div>
+        {card.explanation && <MarkdownViewer content={card.explanation} minHeight={120} />}
+      </div>
+    )
+
+  return (
+    <div className="flex flex-col gap-4 p-6 rounded-lg border border-[var(--ant-color-border)] bg-[var(--ant-color-bg-container)]">
+      <div className="flex items-center justify-between">
+        <Tag>{t(`review.cardTypes.${card.type}`)}</Tag>
+        <Button
+          type="text"
+          size="small"
+          icon={<ReadOutlined />}
+          disabled={card.chapterIndex === undefined}
+          onClick={() => onOpen(card)}
+        >
+          {card.bookTitle}
+        </Button>
+      </div>
+      <div className="min-h-[120px] flex items-center justify-center">{front}</div>
+      {showAnswer ? (
+        <>
+          <div className="border-t border-[var(--ant-color-border)] pt-4">{back}</div>
+          <div className="flex justify-center gap-2">
+            {REVIEW_GRADES.map(grade => (
+              <Button key={grade} danger={grade === 'again'} type={grade === 'good' ? 'primary' : 'default'} onClick={() => onGrade(grade)}>
+                <span>{t(`review.grades.${grade}`)}</span>
+                <span className="text-xs opacity-70">{formatInterval(grade)}</span>
+              </Button>
+            ))}
+          </div>
+        </>
+      ) : (
+        <div className="flex justify-center">
+          <Button type="primary" onClick={onShowAnswer}>{t('review.showAnswer')}</Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+import { Col, Row, Statistic, Tooltip } from 'antd'
+import { ReviewStats } from '@/types/review'
+import { useTranslation } from '@/i18n/useTranslation'
+
+export default function ReviewStatsPanel({ stats }: { stats: ReviewStats }) {
+  const { t } = useTranslation()
+  const maxCount = Math.max(...stats.history.map(day => day.count), 1)
+
+  return (
+    <div className="flex flex-col gap-4">
+      <Row gutter={[16, 16]}>
+        <Col span={8}><Statistic title={t('review.stats.due')} value={stats.due} /></Col>
+        <Col span={8}><Statistic title={t('review.stats.newCards')} value={stats.newCards} /></Col>
+        <Col span={8}><Statistic title={t('review.stats.reviewedToday')} value={stats.reviewedToday} /></Col>
+        <Col span={8}><Statistic title={t('review.stats.total')} value={stats.total} /></Col>
+        <Col span={8}><Statistic title={t('review.stats.mature')} value={stats.mature} /></Col>
+        <Col span={8}>
+          <Statistic
+            title={t('review.stats.retention')}
+            value={stats.retention === null ? '-' : (stats.retention * 100).toFixed(1)}
+            suffix={stats.retention === null ? undefined : '%'}
+          />
+        </Col>
+      </Row>
+      <div>
+        <div className="mb-2 text-sm text-[var(--ant-color-text-secondary)]">{t('review.stats.history')}</div>
+        <div className="flex items-end gap-1 h-[80px]">
+          {stats.history.map(day => (
+            <Tooltip key={day.date} title={`${day.date}: ${day.count}`}>
+              <div
+                className="flex-1 rounded-t bg-[var(--ant-color-primary)] min-h-[2px]"
+                style={{ height: `${(day.count / maxCount) * 100}%` }}
+              />
+            </Tooltip>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
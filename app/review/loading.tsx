@@ -0,0 +1,8 @@
+"use client"
+export const runtime = "edge";
+
+import PageLoading from '@/app/components/PageLoading';
+
+export default function Loading() {
+  return <PageLoading />;
+} 
\ No newline at end of file
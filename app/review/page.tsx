@@ -0,0 +1,123 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Checkbox, Empty, InputNumber, Spin, message } from 'antd'
+import { ReviewCard, ReviewGrade, ReviewStats } from '@/types/review'
+import { REVIEW_CARD_TYPES } from '@/constants/review'
+import { getReviewQueue, getReviewStats, reviewCard, syncReviewCards } from '@/services/Review'
+import { useReviewStore } from '@/store/useReviewStore'
+import { useBookmarkStore } from '@/store/useBookmarkStore'
+import { useOpenInReader } from '@/hooks/useOpenInReader'
+import { useTranslation } from '@/i18n/useTranslation'
+import ReviewCardView from './components/ReviewCardView'
+import ReviewStatsPanel from './components/ReviewStatsPanel'
+
+export default function ReviewPage() {
+  const { t } = useTranslation()
+  const openInReader = useOpenInReader()
+  const { newCardsPerDay, cardTypes, setNewCardsPerDay, setCardTypes } = useReviewStore()
+  const [queue, setQueue] = useState<ReviewCard[] | null>(null)
+  const [stats, setStats] = useState<ReviewStats | null>(null)
+  const [showAnswer, setShowAnswer] = useState(false)
+
+  // 按生词本与书签同步卡片后生成今日队列
+  const loadQueue = useCallback(async () => {
+    await syncReviewCards(useBookmarkStore.getState().getAllBookmarks())
+    const [cards, reviewStats] = await Promise.all([getReviewQueue(cardTypes, newCardsPerDay), getReviewStats()])
+    setQueue(cards)
+    setStats(reviewStats)
+    setShowAnswer(false)
+  }, [cardTypes, newCardsPerDay])
+
+  useEffect(() => {
+    loadQueue().catch(error => {
+      console.error('加载复习队列失败:', error)
+      setQueue([])
+    })
+  }, [loadQueue])
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!queue?.length) return
+    try {
+      const updated = await reviewCard(queue[0], grade)
+      // 忘记的卡片放到本轮队尾再复习一次
+      setQueue(prev => prev && (grade === 'again' ? [...prev.slice(1), updated] : prev.slice(1)))
+      setShowAnswer(false)
+      setStats(await getReviewStats())
+    } catch (error) {
+      console.error('保存复习记录失败:', error)
+    }
+  }
+
+  const handleOpen = async (card: ReviewCard) => {
+    if (card.chapterIndex === undefined) return
+    try {
+      const opened = await openInReader(card.bookId, {
+        chapterIndex: card.chapterIndex,
+        lineIndex: card.lineIndex ?? 0,
+        sentenceId: card.sentenceId,
+        anchor: card.anchor
+      })
+      if (!opened) message.warning(t('review.bookNotFound'))
+    } catch (error) {
+      console.error('跳转原文失败:', error)
+    }
+  }
+
+  const current = queue?.[0]
+
+  return (
+    <div className="w-full h-full p-4 overflow-auto">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div className="text-2xl font-bold">{t('review.title')}</div>
+        <div className="flex flex-wrap items-center gap-4">
+          <Checkbox.Group
+            options={REVIEW_CARD_TYPES.map(type => ({ value: type, label: t(`review.cardTypes.${type}`) }))}
+            value={cardTypes}
+            onChange={setCardTypes}
+          />
+          <div className="flex items-center gap-2">
+            <span>{t('review.newCardsPerDay')}</span>
+            <InputNumber
+              min={0}
+              max={999}
+              value={newCardsPerDay}
+              onChange={value => value !== null && setNewCardsPerDay(value)}
+              className="w-[80px]"
+            />
+          </div>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-6">
+        <div className="flex-1 min-w-[320px] max-w-[720px]">
+          {!queue ? (
+            <div className="flex justify-center py-16"><Spin /></div>
+          ) : current ? (
+            <>
+              <div className="mb-2 text-sm text-[var(--ant-color-text-secondary)]">
+                {t('review.remaining', { count: queue.length.toString() })}
+              </div>
+              <ReviewCardView
+                card={current}
+                showAnswer={showAnswer}
+                onShowAnswer={() => setShowAnswer(true)}
+                onGrade={handleGrade}
+                onOpen={handleOpen}
+              />
+            </>
+          ) : (
+            <Empty
+              className="py-16"
+              description={stats?.total ? t('review.finished') : t('review.noCards')}
+            />
+          )}
+        </div>
+        {stats && (
+          <div className="w-[360px]">
+            <ReviewStatsPanel stats={stats} />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
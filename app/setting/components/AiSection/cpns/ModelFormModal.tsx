@@ -1,6 +1,7 @@
 import { useEffect } from 'react';
-import { Form, Input, Modal, Slider } from 'antd';
-import { Model } from '@/types/llm';
+import { Form, Input, InputNumber, Modal, Slider } from 'antd';
+import { Model, ProviderKind } from '@/types/llm';
+import { ANTHROPIC_CONFIG } from '@/constants/llm';
 import { useTranslation } from '@/i18n/useTranslation';
 
 interface ModelFormModalProps {
@@ -9,6 +10,7 @@ interface ModelFormModalProps {
   onSubmit: (model: Model) => void;
   initialValues?: Model;
   providerId: string
+  providerKind?: ProviderKind
 }
 
 const ModelFormModal = ({
@@ -16,7 +18,8 @@ const ModelFormModal = ({
   onCancel,
   onSubmit,
   initialValues,
-  providerId
+  providerId,
+  providerKind
 }: ModelFormModalProps) => {
   const { t } = useTranslation()
   const [form] = Form.useForm();
@@ -36,7 +39,8 @@ const ModelFormModal = ({
         name: values.name || values.id,
         providerId: providerId,
         temperature: values.temperature || 0.5,
-        topP: values.topP || 1
+        topP: values.topP || 1,
+        thinkingBudget: values.thinkingBudget || undefined
       };
       onSubmit(modelData);
       form.resetFields();
@@ -73,6 +77,11 @@ const ModelFormModal = ({
         <Form.Item name="topP" label={t('settings.topP')} tooltip={t('settings.topPTooltip')}>
           <Slider min={0} max={1} step={0.1} />
         </Form.Item>
+        {(providerKind === 'anthropic' || providerKind === 'gemini') && (
+          <Form.Item name="thinkingBudget" label={t('settings.thinkingBudget')} tooltip={t('settings.thinkingBudgetTooltip')}>
+            <InputNumber min={providerKind === 'anthropic' ? ANTHROPIC_CONFIG.MIN_THINKING_BUDGET : 1} step={1024} className="w-full" placeholder={t('settings.thinkingBudgetPlaceholder')} />
+          </Form.Item>
+        )}
       </Form>
     </Modal>
   );
@@ -1,6 +1,7 @@
-import { Form, Input, Button, Typography, Space, Popconfirm, FormInstance } from 'antd';
-import { PlusOutlined, DeleteOutlined } from '@ant-design/icons';
+import { Form, Input, Button, Typography, Space, Popconfirm, FormInstance, Select, InputNumber } from 'antd';
+import { PlusOutlined, DeleteOutlined, SyncOutlined } from '@ant-design/icons';
 import { Provider, Model } from '@/types/llm';
+import { LOCAL_PROVIDER_CONFIG, PROVIDER_KINDS } from '@/constants/llm';
 import ModelCard from './ModelCard';
 import { useTranslation } from '@/i18n/useTranslation';
 interface ProviderFormProps {
@@ -11,6 +12,7 @@ interface ProviderFormProps {
   onEditModel: (model: Model) => void;
   onDeleteModel: (modelId: string) => void;
   onDeleteProvider: () => void;
+  onSyncModels: () => void;
 }
 
 const ProviderForm = ({
@@ -20,9 +22,11 @@ const ProviderForm = ({
   onAddModel,
   onEditModel,
   onDeleteModel,
-  onDeleteProvider
+  onDeleteProvider,
+  onSyncModels
 }: ProviderFormProps) => {
   const { t } = useTranslation()
+  const isLocal = provider.kind === 'local'
   return (
     <>
       <div className="flex justify-between items-center mb-4">
@@ -49,20 +53,35 @@ const ProviderForm = ({
           <Input placeholder={t('settings.providerName')} />
         </Form.Item>
 
+        <Form.Item name="kind" label={t('settings.providerKind')} tooltip={t('settings.providerKindTooltip')}>
+          <Select options={PROVIDER_KINDS.map(kind => ({ value: kind, label: t(`settings.providerKinds.${kind}`) }))} />
+        </Form.Item>
+
         <Form.Item name="baseUrl" label={t('settings.baseURL')} tooltip={t('settings.baseURLTooltip')} rules={[{ required: true }]}>
           <Input placeholder={t('settings.baseURL')} />
         </Form.Item>
 
-        <Form.Item name="apiKey" label={t('settings.apiKey')} rules={[{ required: true }]}>
-          <Input.Password placeholder={t('settings.apiKey')} />
+        <Form.Item name="apiKey" label={t('settings.apiKey')} rules={[{ required: !isLocal }]}>
+          <Input.Password placeholder={isLocal ? t('settings.apiKeyOptional') : t('settings.apiKey')} />
         </Form.Item>
 
+        {isLocal && (
+          <Form.Item name="timeout" label={t('settings.timeout')} tooltip={t('settings.timeoutTooltip')}>
+            <InputNumber min={1} className="w-full" placeholder={String(LOCAL_PROVIDER_CONFIG.DEFAULT_TIMEOUT)} addonAfter={t('settings.seconds')} />
+          </Form.Item>
+        )}
+
         <div className="mb-4">
           <div className="flex justify-between items-center mb-2">
             <Typography.Title level={5}>{t('settings.model')}</Typography.Title>
-            <Button type="primary" icon={<PlusOutlined />} onClick={onAddModel}>
-              {t('settings.addModel')}
-            </Button>
+            <Space>
+              <Button icon={<SyncOutlined />} onClick={onSyncModels} disabled={!provider.baseUrl}>
+                {t('settings.syncModels')}
+              </Button>
+              <Button type="primary" icon={<PlusOutlined />} onClick={onAddModel}>
+                {t('settings.addModel')}
+              </Button>
+            </Space>
           </div>
 
           <Space direction="vertical" style={{ width: '100%' }}>
@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Alert, Button, Checkbox, Empty, Input, Modal, Spin, Tag, Typography } from 'antd';
+import { Model, Provider } from '@/types/llm';
+import { createModel, diffProviderModels, fetchProviderModels } from '@/services/llm/models';
+import { useTranslation } from '@/i18n/useTranslation';
+
+interface SyncModelsModalProps {
+  visible: boolean;
+  provider: Provider;
+  onCancel: () => void;
+  onSubmit: (models: Model[]) => void;
+}
+
+// 获取服务商的模型列表, 与已有模型对比后选择导入新模型或移除已下线的模型
+const SyncModelsModal = ({
+  visible,
+  provider,
+  onCancel,
+  onSubmit
+}: SyncModelsModalProps) => {
+  const { t } = useTranslation()
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [diff, setDiff] = useState<{ added: string[], removed: Model[] } | null>(null);
+  const [selectedAdded, setSelectedAdded] = useState<string[]>([]);
+  const [selectedRemoved, setSelectedRemoved] = useState<string[]>([]);
+  const [keyword, setKeyword] = useState('');
+
+  const loadModels = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    setDiff(null);
+    try {
+      const modelIds = await fetchProviderModels(provider);
+      const result = diffProviderModels(provider, modelIds);
+      setDiff(result);
+      // 已下线的模型可能是手动添加的, 默认不移除
+      setSelectedAdded(result.added);
+      setSelectedRemoved([]);
+    } catch (error) {
+      console.error('获取模型列表失败:', error);
+      setError(String(error));
+    } finally {
+      setLoading(false);
+    }
+  }, [provider]);
+
+  // 只在打开时获取, 打开期间服务商的模型列表变化不重新请求
+  useEffect(() => {
+    if (!visible) return;
+    setKeyword('');
+    loadModels();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible]);
+
+  const filteredAdded = useMemo(() => {
+    const search = keyword.trim().toLowerCase();
+    return diff ? diff.added.filter(id => id.toLowerCase().includes(search)) : [];
+  }, [diff, keyword]);
+
+  const handleSelectAll = (checked: boolean) => {
+    setSelectedAdded(prev => checked
+      ? [...new Set([...prev, ...filteredAdded])]
+      : prev.filter(id => !filteredAdded.includes(id)));
+  };
+
+  const handleSubmit = () => {
+    const models = [
+      ...provider.models.filter(model => !selectedRemoved.includes(model.id)),
+      ...selectedAdded
+        .filter(id => !provider.models.some(model => model.id === id))
+        .map(id => createModel(provider, id))
+    ];
+    onSubmit(models);
+  };
+
+  const hasChanges = !!diff && (diff.added.length > 0 || diff.removed.length > 0);
+  const allFilteredSelected = filteredAdded.length > 0 && filteredAdded.every(id => selectedAdded.includes(id));
+
+  return (
+    <Modal
+      title={t('settings.syncModelsTitle', { name: provider.name })}
+      open={visible}
+      onCancel={onCancel}
+      onOk={handleSubmit}
+      okText={t('settings.syncModelsApply')}
+      cancelText={t('common.cancel')}
+      okButtonProps={{ disabled: selectedAdded.length === 0 && selectedRemoved.length === 0 }}
+    >
+      {loading ? (
+        <div className="flex justify-center py-8"><Spin /></div>
+      ) : error ? (
+        <Alert
+          type="error"
+          showIcon
+          message={t('settings.syncModelsFailed')}
+          description={error}
+          action={<Button size="small" onClick={loadModels}>{t('settings.syncModelsRetry')}</Button>}
+        />
+      ) : diff && !hasChanges ? (
+        <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description={t('settings.syncModelsUpToDate')} />
+      ) : diff && (
+        <div className="flex flex-col gap-4">
+          {diff.added.length > 0 && (
+            <div>
+              <div className="flex justify-between items-center mb-2">
+                <Typography.Text strong>{t('settings.syncModelsAdded', { count: diff.added.length.toString() })}</Typography.Text>
+                <Checkbox
+                  checked={allFilteredSelected}
+                  indeterminate={!allFilteredSelected && filteredAdded.some(id => selectedAdded.includes(id))}
+                  onChange={e => handleSelectAll(e.target.checked)}
+                >
+                  {t('settings.syncModelsSelectAll')}
+                </Checkbox>
+              </div>
+              <Input.Search
+                allowClear
+                placeholder={t('settings.syncModelsSearch')}
+                value={keyword}
+                onChange={e => setKeyword(e.target.value)}
+                className="mb-2"
+              />
+              <div className="max-h-[240px] overflow-y-auto">
+                {filteredAdded.map(id => (
+                  <div key={id} className="py-1">
+                    <Checkbox
+                      checked={selectedAdded.includes(id)}
+                      onChange={e => setSelectedAdded(prev => e.target.checked ? [...prev, id] : prev.filter(item => item !== id))}
+                    >
+                      <Tag color="success">+</Tag>{id}
+                    </Checkbox>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          {diff.removed.length > 0 && (
+            <div>
+              <Typography.Text strong>{t('settings.syncModelsRemoved', { count: diff.removed.length.toString() })}</Typography.Text>
+              <Typography.Paragraph type="secondary" className="!mb-2 text-sm">{t('settings.syncModelsRemovedTip')}</Typography.Paragraph>
+              <div className="max-h-[160px] overflow-y-auto">
+                {diff.removed.map(model => (
+                  <div key={model.id} className="py-1">
+                    <Checkbox
+                      checked={selectedRemoved.includes(model.id)}
+                      onChange={e => setSelectedRemoved(prev => e.target.checked ? [...prev, model.id] : prev.filter(item => item !== model.id))}
+                    >
+                      <Tag color="error">-</Tag>{model.name === model.id ? model.id : `${model.name} (${model.id})`}
+                    </Checkbox>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default SyncModelsModal;
@@ -1,3 +1,4 @@
 export { default as ModelFormModal } from './ModelFormModal';
 export { default as ModelCard } from './ModelCard';
-export { default as ProviderForm } from './ProviderForm'; 
\ No newline at end of file
+export { default as ProviderForm } from './ProviderForm';
+export { default as SyncModelsModal } from './SyncModelsModal'; 
\ No newline at end of file
@@ -1,10 +1,12 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { Menu, Button, Form } from 'antd';
 import { Provider, Model } from '@/types/llm';
 import { useLLMStore } from '@/store/useLLMStore';
-import { ModelFormModal, ProviderForm } from './cpns';
+import { ModelFormModal, ProviderForm, SyncModelsModal } from './cpns';
 import Card from '../Card';
 import { useTranslation } from '@/i18n/useTranslation';
+import { fetchLocalModels, mergeProviderModels } from '@/services/llm/models';
+import { LOCAL_PROVIDER_CONFIG } from '@/constants/llm';
 
 export default function AiSection() {
   const { t } = useTranslation()
@@ -15,6 +17,7 @@ export default function AiSection() {
   const [form] = Form.useForm();
   const [modelModalVisible, setModelModalVisible] = useState(false);
   const [currentModel, setCurrentModel] = useState<Model | undefined>(undefined);
+  const [syncModalVisible, setSyncModalVisible] = useState(false);
 
   useEffect(() => {
     setProviders([...defaultProviders])
@@ -29,12 +32,39 @@ export default function AiSection() {
     if (selectedProvider) {
       form.setFieldsValue({
         name: selectedProvider.name,
+        kind: selectedProvider.kind ?? 'openai',
         baseUrl: selectedProvider.baseUrl,
         apiKey: selectedProvider.apiKey,
+        timeout: selectedProvider.timeout,
       });
     }
   }, [selectedProvider, form]);
 
+  // 获取本地服务商已安装的模型并更新模型列表, 失败时保留原有模型
+  const discoverModels = useCallback(async (providerId: string) => {
+    const provider = useLLMStore.getState().providers.find(p => p.id === providerId)
+    if (!provider?.baseUrl) return
+    try {
+      const modelIds = await fetchLocalModels(provider)
+      const latest = useLLMStore.getState().providers.find(p => p.id === providerId)
+      if (!latest) return
+      const updatedProvider = { ...latest, models: mergeProviderModels(latest, modelIds) }
+      editProvider(updatedProvider)
+      setSelectedProvider(prev => prev?.id === providerId ? updatedProvider : prev)
+    } catch (error) {
+      console.error('获取本地模型失败:', error)
+    }
+  }, [editProvider])
+
+  // 选中本地服务商或修改其地址时自动获取模型
+  const selectedKind = selectedProvider?.kind
+  const selectedBaseUrl = selectedProvider?.baseUrl
+  useEffect(() => {
+    if (selectedKind !== 'local' || !selectedBaseUrl) return
+    const timer = setTimeout(() => discoverModels(selectedProviderId), LOCAL_PROVIDER_CONFIG.DISCOVER_DELAY)
+    return () => clearTimeout(timer)
+  }, [selectedProviderId, selectedKind, selectedBaseUrl, discoverModels])
+
   const menuItems = useMemo(() => providers.map((provider: Provider) => ({
     key: provider.id,
     label: (
@@ -107,6 +137,19 @@ export default function AiSection() {
     setSelectedProvider(updatedProvider);
   };
 
+  const handleSyncModels = (models: Model[]) => {
+    if (!selectedProvider) return;
+
+    const updatedProvider = {
+      ...selectedProvider,
+      models
+    };
+
+    editProvider(updatedProvider);
+    setSelectedProvider(updatedProvider);
+    setSyncModalVisible(false);
+  };
+
   const handleDeleteProvider = () => {
     if (selectedProvider && !selectedProvider.isDefault) {
       deleteProvider(selectedProvider.id);
@@ -144,6 +187,7 @@ export default function AiSection() {
             onEditModel={handleEditModel}
             onDeleteModel={handleDeleteModel}
             onDeleteProvider={handleDeleteProvider}
+            onSyncModels={() => setSyncModalVisible(true)}
           />
         )}
       </div>
@@ -154,7 +198,17 @@ export default function AiSection() {
         onSubmit={handleModelSubmit}
         initialValues={currentModel}
         providerId={selectedProviderId}
+        providerKind={selectedProvider?.kind}
       />
+
+      {selectedProvider && (
+        <SyncModelsModal
+          visible={syncModalVisible}
+          provider={selectedProvider}
+          onCancel={() => setSyncModalVisible(false)}
+          onSubmit={handleSyncModels}
+        />
+      )}
     </Card>
   );
 }
@@ -1,11 +1,14 @@
 'use client'
 import { useState, useEffect } from 'react'
-import { Card, Button, Select, Space, message, Progress, Tag } from 'antd'
+import { Card, Button, Select, Space, message, Progress, Tag, Modal } from 'antd'
 import { DownloadOutlined, CloudDownloadOutlined, BookOutlined, PauseOutlined, PlayCircleOutlined, StopOutlined } from '@ant-design/icons'
 import db from '@/services/DB'
 import { Book } from '@/types/book'
 import { getBatchTranslations } from '@/utils/db'
 import translationTaskService, { TranslationTask } from '@/services/TranslationTaskService'
+import { BudgetCheck } from '@/types/usage'
+import { formatCost } from '@/services/Usage'
+import { useUsageStore } from '@/store/useUsageStore'
 
 export default function BookTranslationManager() {
   const [books, setBooks] = useState<Book[]>([])
@@ -13,6 +16,7 @@ export default function BookTranslationManager() {
   const [exporting, setExporting] = useState(false)
   const [batchSize, setBatchSize] = useState(5) // 批量翻译的句子数
   const [currentTask, setCurrentTask] = useState<TranslationTask | null>(null)
+  const currency = useUsageStore(state => state.currency)
 
   // 加载书籍列表和订阅任务状态
   useEffect(() => {
@@ -42,52 +46,34 @@ export default function BookTranslationManager() {
   }
 
   // 计算书籍的所有句子
-  const getAllSentences = async (bookId: string): Promise<{ text: string; chapterIndex: number; sentenceIndex: number }[]> => {
-    const book = await db.getBook(bookId)
-    if (!book) throw new Error('Book not found')
-
-    const allSentences: { text: string; chapterIndex: number; sentenceIndex: number }[] = []
-    
-    // 获取阅读进度以获取处理过的句子
-    const readingProgress = await db.getCurrentLocation(bookId)
-    
-    // 遍历所有章节
-    for (let chapterIndex = 0; chapterIndex < book.chapterList.length; chapterIndex++) {
-      const sentences = readingProgress.sentenceChapters[chapterIndex]
-      if (sentences) {
-        // 使用已处理的句子
-        sentences.forEach((sentence, sentenceIndex) => {
-          if (sentence && sentence.trim()) {
-            allSentences.push({
-              text: sentence,
-              chapterIndex,
-              sentenceIndex
-            })
-          }
-        })
-      } else {
-        // 如果章节还未处理，处理段落
-        const chapter = book.chapterList[chapterIndex]
-        let sentenceIndex = 0
-        chapter.paragraphs.forEach(paragraph => {
-          // 简单的句子分割
-          const sentences = paragraph.match(/[^。！？.!?]+[。！？.!?]/g) || [paragraph]
-          sentences.forEach(sentence => {
-            if (sentence && sentence.trim()) {
-              allSentences.push({
-                text: sentence.trim(),
-                chapterIndex,
-                sentenceIndex: sentenceIndex++
-              })
-            }
-          })
-        })
-      }
+  // 整书句子来自导入时建立的句子索引, 与阅读区的分句结果一致
+  const getAllSentences = async (bookId: string): Promise<{ text: string; chapterIndex: number; sentenceIndex: number; id: string }[]> => {
+    let sentences = await db.getSentences(bookId)
+    // 旧书没有句子索引时先建立
+    if (sentences.length === 0) {
+      await db.indexSentences(bookId)
+      sentences = await db.getSentences(bookId)
     }
-    
-    return allSentences
+    return sentences.map(({ text, chapterIndex, lineIndex, id }) => ({
+      text,
+      chapterIndex,
+      sentenceIndex: lineIndex,
+      id
+    }))
   }
 
+  // 预计超出月度预算时确认是否继续翻译
+  const confirmBudget = (budget: BudgetCheck) => new Promise<boolean>(resolve => {
+    Modal.confirm({
+      title: '预计超出本月预算',
+      content: `本月已用 ${formatCost(budget.spent, currency)}，本次翻译预计花费 ${formatCost(budget.estimated, currency)}，月度预算为 ${formatCost(budget.budget, currency)}。是否继续翻译？`,
+      okText: '继续翻译',
+      cancelText: '取消',
+      onOk: () => resolve(true),
+      onCancel: () => resolve(false)
+    })
+  })
+
   // 一键缓存整书翻译（使用后台任务服务）
   const translateWholeBook = async () => {
     if (!selectedBookId) {
@@ -109,7 +95,8 @@ export default function BookTranslationManager() {
         selectedBookId,
         book.title,
         allSentences,
-        batchSize
+        batchSize,
+        confirmBudget
       )
     } catch (error) {
       console.error('Failed to start translation:', error)
@@ -211,13 +198,13 @@ export default function BookTranslationManager() {
         if (sentence.chapterIndex !== currentChapter) {
           // 保存上一章节（如果有）
           if (currentChapter !== -1 && chapterContent) {
-            const chapterTitle = book.toc[currentChapter]?.title || `第 ${currentChapter + 1} 章`
+            const chapterTitle = book.chapterList[currentChapter]?.title || `第 ${currentChapter + 1} 章`
             epub.add(chapterTitle, chapterContent)
           }
           
           // 开始新章节
           currentChapter = sentence.chapterIndex
-          const newChapterTitle = book.toc[currentChapter]?.title || `第 ${currentChapter + 1} 章`
+          const newChapterTitle = book.chapterList[currentChapter]?.title || `第 ${currentChapter + 1} 章`
           chapterContent = `<h1>${newChapterTitle}</h1>`
         }
 
@@ -233,7 +220,7 @@ export default function BookTranslationManager() {
       
       // 保存最后一章
       if (currentChapter !== -1 && chapterContent) {
-        const chapterTitle = book.toc[currentChapter]?.title || `第 ${currentChapter + 1} 章`
+        const chapterTitle = book.chapterList[currentChapter]?.title || `第 ${currentChapter + 1} 章`
         epub.add(chapterTitle, chapterContent)
       }
 
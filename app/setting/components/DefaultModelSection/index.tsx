@@ -2,6 +2,7 @@ import { useLLMStore } from "@/store/useLLMStore";
 import { Form, Select, Empty } from "antd";
 import { useEffect, useMemo, useCallback } from "react";
 import Card from "../Card";
+import { isProviderConfigured } from "@/utils/provider";
 import { useTranslation } from "@/i18n/useTranslation";
 
 export default function DefaultModelSection() {
@@ -10,7 +11,7 @@ export default function DefaultModelSection() {
   const [form] = Form.useForm();
 
   const configuredProviders = useMemo(() => {
-    return providers.filter(provider => provider.baseUrl && provider.apiKey && provider.models.length > 0);
+    return providers.filter(isProviderConfigured);
   }, [providers]);
 
   const hasModels = configuredProviders.length > 0;
@@ -0,0 +1,93 @@
+import { useState } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { Button, Popconfirm, Progress, Switch, Table, Upload, message } from 'antd'
+import type { ColumnsType } from 'antd/es/table'
+import { DeleteOutlined, ImportOutlined } from '@ant-design/icons'
+import { Card } from '../index'
+import { useTranslation } from '@/i18n/useTranslation'
+import { DictionaryImportProgress, DictionaryInfo } from '@/types/dictionary'
+import { DICTIONARY_CONFIG } from '@/constants/dictionary'
+import { importDictionary } from '@/services/dictionary'
+import { deleteDictionary, getDictionaries, setDictionaryEnabled } from '@/utils/db'
+
+export default function DictionarySection() {
+  const { t } = useTranslation()
+  const dictionaries = useLiveQuery(() => getDictionaries(), [])
+  const [progress, setProgress] = useState<DictionaryImportProgress | null>(null)
+
+  // 一次选择的多个文件(如 StarDict 的 .ifo/.idx/.dict)作为同一部词典导入
+  const handleImport = async (files: File[]) => {
+    setProgress({ stage: 'parse' })
+    try {
+      const dictionary = await importDictionary(files, setProgress)
+      message.success(t('dictionary.importSuccess', { name: dictionary.name, count: dictionary.entryCount.toString() }))
+    } catch (error) {
+      console.error('导入词典失败:', error)
+      message.error(t('dictionary.importFailed', { error: error instanceof Error ? error.message : String(error) }))
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const columns: ColumnsType<DictionaryInfo> = [
+    { title: t('dictionary.name'), dataIndex: 'name', ellipsis: true },
+    { title: t('dictionary.format'), dataIndex: 'format', width: 100, render: (format: DictionaryInfo['format']) => t(`dictionary.formats.${format}`) },
+    { title: t('dictionary.language'), dataIndex: 'language', width: 80, render: (language?: string) => language || '-' },
+    { title: t('dictionary.entryCount'), dataIndex: 'entryCount', width: 100 },
+    {
+      title: t('dictionary.enabled'),
+      dataIndex: 'enabled',
+      width: 80,
+      render: (enabled: boolean, record) => <Switch size="small" checked={enabled} onChange={checked => setDictionaryEnabled(record.id!, checked)} />
+    },
+    {
+      key: 'actions',
+      width: 60,
+      render: (_, record) => (
+        <Popconfirm
+          title={t('common.delete')}
+          description={t('common.templates.confirmDelete', { entity: t('common.entities.dictionaryAsObject') })}
+          onConfirm={() => deleteDictionary(record.id!)}
+          okText={t('common.ok')}
+          cancelText={t('common.cancel')}
+        >
+          <Button type="text" size="small" danger icon={<DeleteOutlined />} />
+        </Popconfirm>
+      )
+    }
+  ]
+
+  return <Card>
+    <div className="flex items-center justify-between gap-4 mb-4">
+      <div className="text-sm text-[var(--ant-color-text-secondary)]">{t('dictionary.description')}</div>
+      <Upload
+        multiple
+        accept={DICTIONARY_CONFIG.ACCEPT}
+        showUploadList={false}
+        disabled={!!progress}
+        beforeUpload={(file, fileList) => {
+          if (file === fileList[0]) handleImport(fileList)
+          return false
+        }}
+      >
+        <Button icon={<ImportOutlined />} loading={!!progress}>{t('dictionary.import')}</Button>
+      </Upload>
+    </div>
+    {progress && (
+      <Progress
+        className="mb-4"
+        percent={progress.total ? Math.round((progress.current ?? 0) / progress.total * 100) : 0}
+        status="active"
+        format={() => t(`dictionary.stages.${progress.stage}`)}
+      />
+    )}
+    <Table
+      rowKey="id"
+      size="small"
+      pagination={false}
+      loading={!dictionaries}
+      columns={columns}
+      dataSource={dictionaries}
+    />
+  </Card>
+}
@@ -1,5 +1,6 @@
 export { default as AiSection } from "./AiSection";
 export { default as DefaultModelSection } from "./DefaultModelSection";
+export { default as DictionarySection } from "./DictionarySection";
 export { default as PromptSection } from "./PromptSection";
 export { default as Card } from "./Card";
 export { default as SentenceProcessingSection } from "./SentenceProcessingSection";
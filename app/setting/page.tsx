@@ -4,11 +4,11 @@ import { useRef } from "react";
 import { Layout, Menu, theme } from "antd";
 import type { MenuProps } from "antd";
 import { StarIcon } from "@/assets/icon";
-import { AppstoreFilled, AlignLeftOutlined, OrderedListOutlined, SoundOutlined, FileWordOutlined, TranslationOutlined, DatabaseOutlined } from "@ant-design/icons";
+import { AppstoreFilled, AlignLeftOutlined, OrderedListOutlined, SoundOutlined, FileWordOutlined, TranslationOutlined, DatabaseOutlined, ReadOutlined } from "@ant-design/icons";
 import React from "react";
 import { useTranslation } from "@/i18n/useTranslation";
 
-import { AiSection, DefaultModelSection, PromptSection, SentenceProcessingSection, TTSSection, WordProcessingSection } from "./components";
+import { AiSection, DefaultModelSection, DictionarySection, PromptSection, SentenceProcessingSection, TTSSection, WordProcessingSection } from "./components";
 import TranslationSection from "./components/TranslationSection";
 import TranslationCache from "./components/TranslationCache";
 import BookTranslationManager from "./components/BookTranslationManager";
@@ -50,6 +50,12 @@ export default function Setting() {
       label: t("settings.wordConfig"),
       content: <WordProcessingSection />
     },
+    {
+      key: 'dictionary',
+      icon: <ReadOutlined style={{ fontSize: 24 }} />,
+      label: t("settings.dictionaryConfig"),
+      content: <DictionarySection />
+    },
     {
       key: 'translation',
       icon: <TranslationOutlined style={{ fontSize: 24 }} />,
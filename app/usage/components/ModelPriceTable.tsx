@@ -0,0 +1,124 @@
+import { useMemo } from 'react'
+import { InputNumber, Table, Tag } from 'antd'
+import type { ColumnsType } from 'antd/es/table'
+import { UsageSummary, UsageTotals } from '@/types/usage'
+import { formatCost } from '@/services/Usage'
+import { useLLMStore } from '@/store/useLLMStore'
+import { getModelPriceKey, useUsageStore } from '@/store/useUsageStore'
+import { useTranslation } from '@/i18n/useTranslation'
+
+type ModelRow = {
+  key: string
+  providerName: string
+  modelName: string
+  deleted: boolean
+} & UsageTotals
+
+const EMPTY_TOTALS: UsageTotals = { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 }
+
+// 已配置的模型与统计范围内有用量的模型, 价格按每 1M token 填写
+export default function ModelPriceTable({ summary }: { summary: UsageSummary }) {
+  const { t } = useTranslation()
+  const { providers } = useLLMStore()
+  const { prices, currency, setPrice } = useUsageStore()
+
+  const rows = useMemo(() => {
+    const usage = new Map(summary.byModel.map(item => [getModelPriceKey(item.providerId, item.modelId), item]))
+    const rows: ModelRow[] = providers.flatMap(provider => provider.models.map(model => {
+      const key = getModelPriceKey(provider.id, model.id)
+      return { key, providerName: provider.name, modelName: model.name, deleted: false, ...(usage.get(key) ?? EMPTY_TOTALS) }
+    }))
+    // 服务商或模型已删除但仍有用量记录的按 id 显示
+    summary.byModel.forEach(item => {
+      const key = getModelPriceKey(item.providerId, item.modelId)
+      if (rows.some(row => row.key === key)) return
+      const provider = providers.find(provider => provider.id === item.providerId)
+      rows.push({ key, providerName: provider?.name ?? item.providerId, modelName: item.modelId, deleted: true, ...item })
+    })
+    return rows.sort((a, b) => b.requests - a.requests)
+  }, [providers, summary])
+
+  const handlePriceChange = (key: string, field: 'input' | 'output', value: number | null) => {
+    const price = { ...(prices[key] ?? { input: 0, output: 0 }), [field]: value ?? 0 }
+    setPrice(key, price.input || price.output ? price : null)
+  }
+
+  const columns: ColumnsType<ModelRow> = [
+    {
+      title: t('usage.provider'),
+      dataIndex: 'providerName',
+      width: 140,
+      ellipsis: true
+    },
+    {
+      title: t('usage.model'),
+      dataIndex: 'modelName',
+      ellipsis: true,
+      render: (modelName: string, row) => (
+        <span>{modelName}{row.deleted && <Tag className="ml-2">{t('usage.deletedModel')}</Tag>}</span>
+      )
+    },
+    {
+      title: `${t('usage.inputPrice')} (${currency}/1M)`,
+      key: 'inputPrice',
+      width: 150,
+      render: (_, row) => (
+        <InputNumber
+          size="small"
+          min={0}
+          step={0.1}
+          value={prices[row.key]?.input}
+          onChange={value => handlePriceChange(row.key, 'input', value)}
+          className="w-[100px]"
+        />
+      )
+    },
+    {
+      title: `${t('usage.outputPrice')} (${currency}/1M)`,
+      key: 'outputPrice',
+      width: 150,
+      render: (_, row) => (
+        <InputNumber
+          size="small"
+          min={0}
+          step={0.1}
+          value={prices[row.key]?.output}
+          onChange={value => handlePriceChange(row.key, 'output', value)}
+          className="w-[100px]"
+        />
+      )
+    },
+    {
+      title: t('usage.stats.requests'),
+      dataIndex: 'requests',
+      width: 90
+    },
+    {
+      title: t('usage.stats.inputTokens'),
+      dataIndex: 'inputTokens',
+      width: 120
+    },
+    {
+      title: t('usage.stats.outputTokens'),
+      dataIndex: 'outputTokens',
+      width: 120
+    },
+    {
+      title: t('usage.stats.cost'),
+      dataIndex: 'cost',
+      width: 110,
+      render: (cost: number) => formatCost(cost, currency)
+    }
+  ]
+
+  return (
+    <Table
+      rowKey="key"
+      size="small"
+      columns={columns}
+      dataSource={rows}
+      pagination={{ pageSize: 10, hideOnSinglePage: true }}
+      scroll={{ x: 'max-content' }}
+    />
+  )
+}
@@ -0,0 +1,51 @@
+import { Table } from 'antd'
+import type { ColumnsType } from 'antd/es/table'
+import { UsageTotals } from '@/types/usage'
+import { formatCost } from '@/services/Usage'
+import { useTranslation } from '@/i18n/useTranslation'
+
+type BreakdownRow = { key: string, label: string } & UsageTotals
+
+// 按功能或书籍汇总的用量
+export default function UsageBreakdownTable({ title, rows, currency }: { title: string, rows: BreakdownRow[], currency: string }) {
+  const { t } = useTranslation()
+
+  const columns: ColumnsType<BreakdownRow> = [
+    {
+      title,
+      dataIndex: 'label',
+      ellipsis: true
+    },
+    {
+      title: t('usage.stats.requests'),
+      dataIndex: 'requests',
+      width: 80
+    },
+    {
+      title: t('usage.stats.inputTokens'),
+      dataIndex: 'inputTokens',
+      width: 110
+    },
+    {
+      title: t('usage.stats.outputTokens'),
+      dataIndex: 'outputTokens',
+      width: 110
+    },
+    {
+      title: t('usage.stats.cost'),
+      dataIndex: 'cost',
+      width: 100,
+      render: (cost: number) => formatCost(cost, currency)
+    }
+  ]
+
+  return (
+    <Table
+      rowKey="key"
+      size="small"
+      columns={columns}
+      dataSource={rows}
+      pagination={{ pageSize: 10, hideOnSinglePage: true }}
+    />
+  )
+}
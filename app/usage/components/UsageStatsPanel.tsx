@@ -0,0 +1,56 @@
+import { Col, Row, Statistic, Tooltip } from 'antd'
+import { UsageSummary } from '@/types/usage'
+import { formatCost } from '@/services/Usage'
+import { useTranslation } from '@/i18n/useTranslation'
+
+export default function UsageStatsPanel({ summary, currency }: { summary: UsageSummary, currency: string }) {
+  const { t } = useTranslation()
+  const { totals, daily } = summary
+  const maxCost = Math.max(...daily.map(day => day.cost), 0)
+  const maxTokens = Math.max(...daily.map(day => day.inputTokens + day.outputTokens), 1)
+
+  return (
+    <div className="flex flex-col gap-4">
+      <Row gutter={[16, 16]}>
+        <Col span={6}><Statistic title={t('usage.stats.requests')} value={totals.requests} /></Col>
+        <Col span={6}><Statistic title={t('usage.stats.inputTokens')} value={totals.inputTokens} /></Col>
+        <Col span={6}><Statistic title={t('usage.stats.outputTokens')} value={totals.outputTokens} /></Col>
+        <Col span={6}><Statistic title={t('usage.stats.cost')} value={formatCost(totals.cost, currency)} /></Col>
+      </Row>
+      <Row gutter={[16, 16]}>
+        {/* 没有设置价格时按 token 数展示每日用量 */}
+        {maxCost > 0 && (
+          <Col xs={24} md={12}>
+            <div className="mb-2 text-sm text-[var(--ant-color-text-secondary)]">{t('usage.stats.dailyCost')}</div>
+            <div className="flex items-end gap-1 h-[80px]">
+              {daily.map(day => (
+                <Tooltip key={day.date} title={`${day.date}: ${formatCost(day.cost, currency)}`}>
+                  <div
+                    className="flex-1 rounded-t bg-[var(--ant-color-primary)] min-h-[2px]"
+                    style={{ height: `${(day.cost / maxCost) * 100}%` }}
+                  />
+                </Tooltip>
+              ))}
+            </div>
+          </Col>
+        )}
+        <Col xs={24} md={maxCost > 0 ? 12 : 24}>
+          <div className="mb-2 text-sm text-[var(--ant-color-text-secondary)]">{t('usage.stats.dailyTokens')}</div>
+          <div className="flex items-end gap-1 h-[80px]">
+            {daily.map(day => (
+              <Tooltip
+                key={day.date}
+                title={`${day.date}: ${t('usage.stats.inputTokens')} ${day.inputTokens}, ${t('usage.stats.outputTokens')} ${day.outputTokens}`}
+              >
+                <div
+                  className="flex-1 rounded-t bg-[var(--ant-color-primary)] min-h-[2px]"
+                  style={{ height: `${((day.inputTokens + day.outputTokens) / maxTokens) * 100}%` }}
+                />
+              </Tooltip>
+            ))}
+          </div>
+        </Col>
+      </Row>
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { Alert, Button, Input, InputNumber, Popconfirm, Progress, Segmented, Select, Spin } from 'antd'
+import { DeleteOutlined } from '@ant-design/icons'
+import { BUDGET_ACTIONS, USAGE_CONFIG } from '@/constants/usage'
+import { formatCost, getMonthlyCost, getUsageSummary } from '@/services/Usage'
+import db from '@/services/DB'
+import { clearUsageRecords } from '@/utils/db'
+import { useUsageStore } from '@/store/useUsageStore'
+import { useTranslation } from '@/i18n/useTranslation'
+import UsageStatsPanel from './components/UsageStatsPanel'
+import ModelPriceTable from './components/ModelPriceTable'
+import UsageBreakdownTable from './components/UsageBreakdownTable'
+
+export default function UsagePage() {
+  const { t } = useTranslation()
+  const { prices, currency, monthlyBudget, budgetAction, setCurrency, setMonthlyBudget, setBudgetAction } = useUsageStore()
+  const [days, setDays] = useState<number>(USAGE_CONFIG.DEFAULT_RANGE_DAYS)
+  const summary = useLiveQuery(() => getUsageSummary(days, prices), [days, prices])
+  const monthlyCost = useLiveQuery(() => getMonthlyCost(prices), [prices])
+  const books = useLiveQuery(() => db.getAllBooksPreview(), [])
+
+  const featureRows = useMemo(() => (summary?.byFeature ?? []).map(item => ({
+    key: item.feature,
+    label: t(`usage.features.${item.feature}`),
+    ...item
+  })), [summary, t])
+
+  const bookRows = useMemo(() => (summary?.byBook ?? []).map(item => ({
+    key: item.bookId,
+    label: books?.find(book => book.id === item.bookId)?.title ?? t('usage.deletedBook'),
+    ...item
+  })).sort((a, b) => b.requests - a.requests), [summary, books, t])
+
+  const budgetPercent = monthlyBudget && monthlyCost !== undefined ? (monthlyCost / monthlyBudget) * 100 : 0
+
+  return (
+    <div className="w-full h-full p-4 overflow-auto">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div className="text-2xl font-bold">{t('usage.title')}</div>
+        <div className="flex flex-wrap items-center gap-4">
+          <Segmented
+            options={USAGE_CONFIG.RANGE_DAYS.map(value => ({ value, label: t('usage.days', { count: value.toString() }) }))}
+            value={days}
+            onChange={value => setDays(value as number)}
+          />
+          <Popconfirm
+            title={t('usage.clear')}
+            description={t('usage.clearConfirm')}
+            onConfirm={clearUsageRecords}
+            okText={t('common.ok')}
+            cancelText={t('common.cancel')}
+          >
+            <Button icon={<DeleteOutlined />}>{t('usage.clear')}</Button>
+          </Popconfirm>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <span>{t('usage.currency')}</span>
+          <Input
+            value={currency}
+            onChange={e => setCurrency(e.target.value)}
+            maxLength={4}
+            className="w-[64px]"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <span>{t('usage.monthlyBudget')}</span>
+          <InputNumber
+            min={0}
+            step={1}
+            prefix={currency}
+            placeholder={t('usage.monthlyBudgetPlaceholder')}
+            value={monthlyBudget}
+            onChange={value => setMonthlyBudget(value)}
+            className="w-[140px]"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <span>{t('usage.budgetAction')}</span>
+          <Select
+            options={BUDGET_ACTIONS.map(action => ({ value: action, label: t(`usage.budgetActions.${action}`) }))}
+            value={budgetAction}
+            onChange={setBudgetAction}
+            className="w-[100px]"
+          />
+        </div>
+      </div>
+      {monthlyBudget !== null && monthlyCost !== undefined && (
+        <div className="mb-4 max-w-[720px]">
+          <div className="text-sm text-[var(--ant-color-text-secondary)]">
+            {t('usage.budgetSpent', { spent: formatCost(monthlyCost, currency), budget: formatCost(monthlyBudget, currency) })}
+          </div>
+          <Progress
+            percent={Math.min(budgetPercent, 100)}
+            status={budgetPercent >= 100 ? 'exception' : 'normal'}
+            showInfo={false}
+          />
+          {budgetPercent >= 100 && <Alert type="error" showIcon message={t('usage.budgetExceeded')} />}
+        </div>
+      )}
+      {!summary ? (
+        <div className="flex justify-center py-16"><Spin /></div>
+      ) : (
+        <div className="flex flex-col gap-6">
+          <div>
+            <UsageStatsPanel summary={summary} currency={currency} />
+            <div className="mt-2 text-sm text-[var(--ant-color-text-secondary)]">{t('usage.abortedTip')}</div>
+          </div>
+          <div>
+            <div className="mb-2 text-lg font-bold">{t('usage.models')}</div>
+            <div className="mb-2 text-sm text-[var(--ant-color-text-secondary)]">{t('usage.noPriceTip')}</div>
+            <ModelPriceTable summary={summary} />
+          </div>
+          <div className="flex flex-wrap gap-6">
+            <div className="flex-1 min-w-[320px]">
+              <div className="mb-2 text-lg font-bold">{t('usage.byFeature')}</div>
+              <UsageBreakdownTable title={t('usage.feature')} rows={featureRows} currency={currency} />
+            </div>
+            <div className="flex-1 min-w-[320px]">
+              <div className="mb-2 text-lg font-bold">{t('usage.byBook')}</div>
+              <UsageBreakdownTable title={t('usage.book')} rows={bookRows} currency={currency} />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,88 @@
+import { useState } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { Checkbox, Form, Input, Modal, Select, Switch, message } from 'antd'
+import { AnkiExportOptions } from '@/types/anki'
+import { ANKI_CONFIG, ANKI_EXPORT_SOURCES } from '@/constants/anki'
+import { exportAnkiPackage } from '@/services/Anki'
+import db from '@/services/DB'
+import { useBookmarkStore } from '@/store/useBookmarkStore'
+import { useTranslation } from '@/i18n/useTranslation'
+
+interface AnkiExportModalProps {
+  open: boolean
+  onClose: () => void
+}
+
+export default function AnkiExportModal({ open, onClose }: AnkiExportModalProps) {
+  const { t } = useTranslation()
+  const [form] = Form.useForm<AnkiExportOptions>()
+  const [exporting, setExporting] = useState(false)
+  // 书签与翻译不一定来自生词本中的书, 筛选项使用书架上的全部书籍
+  const books = useLiveQuery(() => db.getAllBooksPreview(), [])
+
+  const handleExport = async () => {
+    const options = await form.validateFields()
+    setExporting(true)
+    try {
+      const { blob, noteCount } = await exportAnkiPackage(useBookmarkStore.getState().getAllBookmarks(), options)
+      if (noteCount === 0) {
+        message.warning(t('anki.noNotes'))
+        return
+      }
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `${options.deckName}${ANKI_CONFIG.FILE_EXTENSION}`
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      URL.revokeObjectURL(url)
+      message.success(t('anki.exportSuccess', { count: noteCount.toString() }))
+      onClose()
+    } catch (error) {
+      console.error('导出 Anki 牌组失败:', error)
+      message.error(t('anki.exportFailed'))
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <Modal
+      title={t('anki.export')}
+      open={open}
+      onCancel={onClose}
+      onOk={handleExport}
+      confirmLoading={exporting}
+      okText={t('anki.exportButton')}
+      cancelText={t('common.cancel')}
+    >
+      <Form
+        form={form}
+        layout="vertical"
+        initialValues={{ sources: ANKI_EXPORT_SOURCES, deckName: ANKI_CONFIG.DEFAULT_DECK_NAME, tts: false }}
+      >
+        <Form.Item
+          name="sources"
+          label={t('anki.sources')}
+          rules={[{ required: true, message: t('anki.sourcesRequired') }]}
+        >
+          <Checkbox.Group options={ANKI_EXPORT_SOURCES.map(source => ({ value: source, label: t(`anki.sourceOptions.${source}`) }))} />
+        </Form.Item>
+        <Form.Item name="bookId" label={t('anki.book')}>
+          <Select allowClear placeholder={t('vocabulary.allBooks')} options={books?.map(book => ({ value: book.id, label: book.title }))} />
+        </Form.Item>
+        <Form.Item
+          name="deckName"
+          label={t('anki.deckName')}
+          rules={[{ required: true, whitespace: true, message: t('common.templates.pleaseEnter', { field: t('anki.deckName') }) }]}
+        >
+          <Input />
+        </Form.Item>
+        <Form.Item name="tts" label={t('anki.tts')} tooltip={t('anki.ttsTooltip')} valuePropName="checked">
+          <Switch />
+        </Form.Item>
+      </Form>
+    </Modal>
+  )
+}
@@ -0,0 +1,179 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import { Button, DatePicker, Input, Popconfirm, Select, Table, Tooltip, message } from 'antd'
+import type { ColumnsType } from 'antd/es/table'
+import { DeleteOutlined, ExportOutlined, ReadOutlined } from '@ant-design/icons'
+import dayjs, { Dayjs } from 'dayjs'
+import { deleteVocabulary, getAllVocabulary, VocabularyRecord } from '@/utils/db'
+import { useOpenInReader } from '@/hooks/useOpenInReader'
+import { useTranslation } from '@/i18n/useTranslation'
+import MarkdownViewer from '@/app/components/common/MarkdownViewer'
+import AnkiExportModal from './components/AnkiExportModal'
+
+const { RangePicker } = DatePicker
+
+export default function VocabularyPage() {
+  const { t } = useTranslation()
+  const openInReader = useOpenInReader()
+  const records = useLiveQuery(() => getAllVocabulary(), [])
+  const [bookId, setBookId] = useState<string>()
+  const [language, setLanguage] = useState<string>()
+  const [dateRange, setDateRange] = useState<[Dayjs | null, Dayjs | null] | null>(null)
+  const [keyword, setKeyword] = useState('')
+  const [exportOpen, setExportOpen] = useState(false)
+
+  // 筛选项来自已有记录, 已删除的书籍按保存的书名显示
+  const bookOptions = useMemo(() => {
+    const books = new Map<string, string>()
+    records?.forEach(record => books.set(record.bookId, record.bookTitle))
+    return [...books].map(([value, label]) => ({ value, label }))
+  }, [records])
+  const languageOptions = useMemo(() => {
+    const languages = new Set(records?.map(record => record.language).filter(Boolean) as string[])
+    return [...languages].map(value => ({ value, label: value }))
+  }, [records])
+
+  const filteredRecords = useMemo(() => {
+    const [start, end] = dateRange ?? [null, null]
+    const search = keyword.trim().toLowerCase()
+    return (records ?? []).filter(record => {
+      if (bookId && record.bookId !== bookId) return false
+      if (language && record.language !== language) return false
+      if (start && dayjs(record.updatedAt).isBefore(start.startOf('day'))) return false
+      if (end && dayjs(record.updatedAt).isAfter(end.endOf('day'))) return false
+      if (search && ![record.word, record.lemma, record.sentence].some(text => text?.toLowerCase().includes(search))) return false
+      return true
+    })
+  }, [records, bookId, language, dateRange, keyword])
+
+  const handleOpen = async (record: VocabularyRecord) => {
+    if (record.chapterIndex === undefined) return
+    try {
+      const opened = await openInReader(record.bookId, {
+        chapterIndex: record.chapterIndex,
+        lineIndex: record.lineIndex ?? 0,
+        sentenceId: record.sentenceId,
+        anchor: record.anchor
+      })
+      if (!opened) message.warning(t('vocabulary.bookNotFound'))
+    } catch (error) {
+      console.error('跳转原文失败:', error)
+      message.error(t('vocabulary.openFailed'))
+    }
+  }
+
+  const columns: ColumnsType<VocabularyRecord> = [
+    {
+      title: t('vocabulary.word'),
+      dataIndex: 'word',
+      width: 160,
+      render: (word: string, record) => (
+        <div>
+          <div className="font-medium">{word}</div>
+          {record.lemma && record.lemma !== word.toLowerCase() && (
+            <div className="text-xs text-[var(--ant-color-text-tertiary)]">{record.lemma}</div>
+          )}
+        </div>
+      )
+    },
+    {
+      title: t('vocabulary.sentence'),
+      dataIndex: 'sentence',
+      ellipsis: { showTitle: false },
+      render: (sentence: string) => <Tooltip title={sentence} placement="topLeft">{sentence}</Tooltip>
+    },
+    {
+      title: t('vocabulary.book'),
+      dataIndex: 'bookTitle',
+      width: 180,
+      ellipsis: true
+    },
+    {
+      title: t('vocabulary.language'),
+      dataIndex: 'language',
+      width: 80
+    },
+    {
+      title: t('vocabulary.time'),
+      dataIndex: 'updatedAt',
+      width: 160,
+      render: (updatedAt: Date) => dayjs(updatedAt).format('YYYY-MM-DD HH:mm')
+    },
+    {
+      title: t('vocabulary.actions'),
+      key: 'actions',
+      width: 100,
+      render: (_, record) => (
+        <div className="flex items-center gap-1">
+          <Tooltip title={record.chapterIndex === undefined ? t('vocabulary.noLocation') : t('vocabulary.openInReader')}>
+            <Button
+              type="text"
+              size="small"
+              icon={<ReadOutlined />}
+              disabled={record.chapterIndex === undefined}
+              onClick={() => handleOpen(record)}
+            />
+          </Tooltip>
+          <Popconfirm
+            title={t('common.delete')}
+            description={t('common.templates.confirmDelete', { entity: t('common.entities.vocabularyAsObject') })}
+            onConfirm={() => deleteVocabulary(record.id!)}
+            okText={t('common.ok')}
+            cancelText={t('common.cancel')}
+          >
+            <Button type="text" size="small" danger icon={<DeleteOutlined />} />
+          </Popconfirm>
+        </div>
+      )
+    }
+  ]
+
+  return (
+    <div className="w-full h-full p-4 overflow-auto">
+      <div className="flex items-center justify-between mb-4">
+        <div className="text-2xl font-bold">{t('vocabulary.title')}</div>
+        <Button icon={<ExportOutlined />} onClick={() => setExportOpen(true)}>{t('anki.export')}</Button>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <Input.Search
+          allowClear
+          placeholder={t('vocabulary.searchPlaceholder')}
+          onSearch={setKeyword}
+          onChange={(e) => !e.target.value && setKeyword('')}
+          className="!w-[240px]"
+        />
+        <Select
+          allowClear
+          placeholder={t('vocabulary.allBooks')}
+          options={bookOptions}
+          value={bookId}
+          onChange={setBookId}
+          className="w-[200px]"
+        />
+        <Select
+          allowClear
+          placeholder={t('vocabulary.allLanguages')}
+          options={languageOptions}
+          value={language}
+          onChange={setLanguage}
+          className="w-[140px]"
+        />
+        <RangePicker value={dateRange} onChange={setDateRange} />
+      </div>
+      <Table
+        rowKey="id"
+        size="small"
+        loading={!records}
+        columns={columns}
+        dataSource={filteredRecords}
+        expandable={{
+          rowExpandable: record => !!record.explanation,
+          expandedRowRender: record => <MarkdownViewer content={record.explanation} minHeight={120} />
+        }}
+      />
+      <AnkiExportModal open={exportOpen} onClose={() => setExportOpen(false)} />
+    </div>
+  )
+}
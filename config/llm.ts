@@ -4,6 +4,7 @@ export const defaultProviders = (): Provider[] => {
   return [
     {
       id: 'openai',
+      kind: 'openai',
       name: 'OpenAI',
       baseUrl: 'https://api.openai.com/v1',
       apiKey: '',
@@ -39,8 +40,57 @@ export const defaultProviders = (): Provider[] => {
         }
       ],
     },
+    {
+      id: 'anthropic',
+      kind: 'anthropic',
+      name: 'Anthropic',
+      baseUrl: 'https://api.anthropic.com/v1',
+      apiKey: '',
+      isDefault: true,
+      models: [
+        {
+          id: 'claude-sonnet-4-5',
+          name: 'Claude Sonnet 4.5',
+          providerId: 'anthropic',
+          temperature: 0.5,
+          topP: 1,
+        },
+        {
+          id: 'claude-haiku-4-5',
+          name: 'Claude Haiku 4.5',
+          providerId: 'anthropic',
+          temperature: 0.5,
+          topP: 1,
+        }
+      ]
+    },
+    {
+      id: 'gemini',
+      kind: 'gemini',
+      name: 'Gemini',
+      baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+      apiKey: '',
+      isDefault: true,
+      models: [
+        {
+          id: 'gemini-2.5-flash',
+          name: 'Gemini 2.5 Flash',
+          providerId: 'gemini',
+          temperature: 0.5,
+          topP: 1,
+        },
+        {
+          id: 'gemini-2.5-pro',
+          name: 'Gemini 2.5 Pro',
+          providerId: 'gemini',
+          temperature: 0.5,
+          topP: 1,
+        }
+      ]
+    },
     {
       id: 'deepseek',
+      kind: 'openai',
       name: 'DeepSeek',
       baseUrl: 'https://api.deepseek.com',
       apiKey: '',
@@ -64,6 +114,7 @@ export const defaultProviders = (): Provider[] => {
     },
     {
       id: 'volcengine',
+      kind: 'openai',
       name: '火山引擎',
       baseUrl: 'https://ark.cn-beijing.volces.com/api/v3',
       apiKey: '',
@@ -77,6 +128,15 @@ export const defaultProviders = (): Provider[] => {
           topP: 1,
         },
       ],
+    },
+    {
+      id: 'ollama',
+      kind: 'local',
+      name: 'Ollama',
+      baseUrl: 'http://localhost:11434/v1',
+      apiKey: '',
+      isDefault: true,
+      models: [],
     }
   ]
 }
@@ -0,0 +1,90 @@
+import type { AnkiExportSource, AnkiModel } from '@/types/anki';
+
+export const ANKI_EXPORT_SOURCES: AnkiExportSource[] = ['vocabulary', 'bookmarks', 'translations'];
+
+export const ANKI_CONFIG = {
+  DEFAULT_DECK_NAME: 'ReadBridge',
+  // 导出笔记统一添加的标签, 书名作为其子标签
+  TAG: 'ReadBridge',
+  // 牌组 id 由牌组名生成, 在此基础上偏移
+  DECK_ID_BASE: 1718000000000,
+  FILE_EXTENSION: '.apkg',
+} as const;
+
+// 导出的笔记类型共用的卡片样式
+export const ANKI_MODEL_CSS = `.card {
+  font-family: arial;
+  font-size: 20px;
+  text-align: center;
+  color: black;
+  background-color: white;
+}
+.cloze {
+  font-weight: bold;
+  color: blue;
+}
+.nightMode .cloze {
+  color: lightblue;
+}
+.translation {
+  margin-top: 12px;
+  color: #666;
+}
+.explanation {
+  margin-top: 12px;
+  font-size: 16px;
+  text-align: left;
+}
+.book {
+  margin-top: 12px;
+  font-size: 12px;
+  color: #999;
+}`;
+
+// 笔记类型 id 固定, 重复导入时使用 Anki 中已有的笔记类型
+export const ANKI_CLOZE_MODEL: AnkiModel = {
+  id: 1718000000001,
+  name: 'ReadBridge Cloze',
+  type: 'cloze',
+  fields: ['Sentence', 'Word', 'Explanation', 'Translation', 'Book', 'Audio'],
+  sortField: 1,
+  questionFormat: '{{cloze:Sentence}}',
+  answerFormat: [
+    '{{cloze:Sentence}}',
+    '<hr id=answer>',
+    '{{#Translation}}<div class="translation">{{Translation}}</div>{{/Translation}}',
+    '{{#Explanation}}<div class="explanation">{{Explanation}}</div>{{/Explanation}}',
+    '<div class="book">{{Book}}</div>',
+    '{{Audio}}'
+  ].join('\n')
+};
+
+export const ANKI_SENTENCE_MODEL: AnkiModel = {
+  id: 1718000000002,
+  name: 'ReadBridge Sentence',
+  type: 'standard',
+  fields: ['Sentence', 'Translation', 'Book', 'Audio'],
+  sortField: 0,
+  questionFormat: '{{Sentence}}',
+  answerFormat: [
+    '{{FrontSide}}',
+    '<hr id=answer>',
+    '{{#Translation}}<div class="translation">{{Translation}}</div>{{/Translation}}',
+    '<div class="book">{{Book}}</div>',
+    '{{Audio}}'
+  ].join('\n')
+};
+
+// Anki 朗读标签的语言代码需要带地区, 只有主语言子标签时按常用地区补全
+export const ANKI_TTS_LANGUAGES: Record<string, string> = {
+  en: 'en_US',
+  zh: 'zh_CN',
+  ja: 'ja_JP',
+  ko: 'ko_KR',
+  fr: 'fr_FR',
+  de: 'de_DE',
+  es: 'es_ES',
+  it: 'it_IT',
+  pt: 'pt_BR',
+  ru: 'ru_RU',
+};
@@ -3,12 +3,14 @@ export const BOOK_MIME_TYPE = {
   EPUB_ZIP: 'application/epub+zip',
   TXT: 'text/plain',
   MD: 'text/markdown',
+  PDF: 'application/pdf',
 } as const;
 
 export const BOOK_FORMAT = {
   EPUB: 'epub',
   TXT: 'txt',
   MD: 'md',
+  PDF: 'pdf',
 } as const;
 
 export const COMMON_LANGUAGES = [
@@ -25,4 +27,16 @@ export const COMMON_LANGUAGES = [
   { code: 'es', name: 'Español' },
   { code: 'it', name: 'Italiano' },
   { code: 'ru', name: 'Русский' },
-];
\ No newline at end of file
+];
+// 书架封面缩略图, 按 3:4 卡片的两倍尺寸生成以保证高分屏清晰
+export const THUMBNAIL_OPTIONS = {
+  maxWidth: 360,
+  maxHeight: 480,
+  mediaType: 'image/jpeg',
+  quality: 0.85,
+} as const;
+
+// 阅读位置锚点在句子前后各记录的章节文本长度
+export const CONTENT_ANCHOR_CONFIG = {
+  CONTEXT_LENGTH: 32,
+} as const;
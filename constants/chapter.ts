@@ -0,0 +1,45 @@
+import { ChapterDetectOptions } from "@/types/book";
+
+const CN_NUMBER = '[0-9０-９零〇一二三四五六七八九十百千万两壹贰叁肆伍陆柒捌玖拾佰仟]+'
+const EN_NUMBER = '(?:\\d+|[ivxlcdm]+|(?:twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety)(?:[\\s-](?:one|two|three|four|five|six|seven|eight|nine))?|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|first|second|third|fourth|fifth|sixth|seventh|eighth|ninth|tenth|last)'
+// 标题与副标题之间的分隔符
+const SEPARATOR = '(?:[\\s:：.、·\\-—_]+.*)?'
+
+/**
+ * 内置章节标题规则
+ * 对每一行 trim 后的文本进行匹配
+ */
+const BUILTIN_CHAPTER_RULES: { name: string, pattern: RegExp }[] = [
+  // 第十二章 / 第12回 / 第三卷 / 第一話
+  { name: 'cn-ordinal', pattern: new RegExp(`^第\\s*${CN_NUMBER}\\s*[章回节節卷部篇集話话幕](?:[\\s:：.、·\\-—_]+.*|[^。，！？,!?]{0,30})$`) },
+  // 卷一 / 卷十二 风起
+  { name: 'cn-volume', pattern: new RegExp(`^卷\\s*${CN_NUMBER}${SEPARATOR}$`) },
+  // 序章 / 楔子 / 尾声 / 番外
+  { name: 'cn-special', pattern: new RegExp(`^(?:序章|序言|序幕|序|楔子|引子|引言|前言|尾声|尾聲|后记|後記|终章|終章|番外${CN_NUMBER}?)${SEPARATOR}$`) },
+  // Chapter 12 / CHAPTER XII / Chapter Twelve
+  { name: 'en-chapter', pattern: new RegExp(`^(?:chapter|chap\\.)\\s+${EN_NUMBER}\\b${SEPARATOR}$`, 'i') },
+  // Part One / Book II / Volume 3
+  { name: 'en-part', pattern: new RegExp(`^(?:part|book|volume|vol\\.)\\s+${EN_NUMBER}\\b${SEPARATOR}$`, 'i') },
+  // Prologue / Epilogue
+  { name: 'en-special', pattern: new RegExp(`^(?:prologue|epilogue|preface|foreword|afterword|introduction)${SEPARATOR}$`, 'i') },
+]
+
+/**
+ * 章节识别默认配置
+ */
+const DEFAULT_CHAPTER_DETECT_OPTIONS: ChapterDetectOptions = {
+  useBuiltinRules: true,
+  customRules: [],
+  chunkSize: 10000,
+}
+
+const CHAPTER_DETECT_BOUNDS = {
+  chunkSize: { min: 1000, max: 100000 }, // 分块字数
+  maxTitleLength: 50, // 超过该长度的行不视为标题
+} as const
+
+export {
+  BUILTIN_CHAPTER_RULES,
+  DEFAULT_CHAPTER_DETECT_OPTIONS,
+  CHAPTER_DETECT_BOUNDS
+}
@@ -0,0 +1,14 @@
+export const DICTIONARY_CONFIG = {
+  // 可选择的文件: StarDict 的 .ifo/.idx/.dict(.dz)/.syn, Yomichan 压缩包与 JSON 词典
+  ACCEPT: '.ifo,.idx,.dict,.dz,.syn,.gz,.zip,.json',
+  // 每批写入的词条数
+  BULK_SIZE: 5000,
+  // 每个词最多显示的词条数
+  MAX_RESULTS: 10,
+} as const;
+
+// StarDict 中按纯文本处理的字段类型, 其余小写类型(h/g/x 等)为标记文本, 导入时去除标签
+export const STARDICT_TEXT_TYPES = ['m', 'l', 't', 'y', 'k', 'w', 'r'];
+
+// 结构化释义(Yomichan structured-content)中换行显示的标签
+export const DICTIONARY_BLOCK_TAGS = ['div', 'p', 'li', 'ol', 'ul', 'tr', 'table', 'details', 'summary'];
@@ -0,0 +1,17 @@
+/**
+ * 文本书籍可选的字符编码
+ * value 为 TextDecoder 支持的编码标签, 'auto' 表示自动检测
+ */
+export const TEXT_ENCODINGS = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'gb18030', label: 'GBK / GB18030' },
+  { value: 'big5', label: 'Big5' },
+  { value: 'shift_jis', label: 'Shift-JIS' },
+  { value: 'euc-jp', label: 'EUC-JP' },
+  { value: 'euc-kr', label: 'EUC-KR' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+] as const
+
+export const AUTO_ENCODING = 'auto'
@@ -1,6 +1,44 @@
 export const LLM_PROXY_URL = '/api/llm/proxy';
 export const LLM_PROXY_PATH = '/chat/completions';
 
+export const PROVIDER_KINDS = ['openai', 'anthropic', 'gemini', 'local'] as const;
+
+export const ANTHROPIC_CONFIG = {
+  MESSAGES_PATH: '/messages',
+  API_VERSION: '2023-06-01',
+  // 开启思考时预算的下限
+  MIN_THINKING_BUDGET: 1024,
+};
+
+export const GEMINI_CONFIG = {
+  // 因安全策略等原因被拦截的结束原因
+  BLOCKED_FINISH_REASONS: ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'],
+};
+
+// 新增模型的默认参数
+export const DEFAULT_MODEL_OPTIONS = {
+  temperature: 0.5,
+  topP: 1,
+};
+
+// 本地服务商(Ollama / llama.cpp server), 使用 openai 兼容接口
+export const LOCAL_PROVIDER_CONFIG = {
+  // Ollama 原生的模型列表接口, 相对于服务根地址
+  OLLAMA_TAGS_PATH: '/api/tags',
+  // 本地服务不校验密钥, 但 openai sdk 要求非空
+  PLACEHOLDER_API_KEY: 'local',
+  // 首次请求需要加载模型, 超时时间默认较长
+  DEFAULT_TIMEOUT: 300,
+  DISCOVER_DELAY: 500,
+};
+
+// 获取服务商模型列表
+export const MODEL_LIST_CONFIG = {
+  MODELS_PATH: '/models',
+  PAGE_SIZE: 1000,
+  TIMEOUT: 15000,
+};
+
 export const LLM_CLIENT_OPTIONS = {
   max_tokens: 1000,
 }
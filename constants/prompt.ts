@@ -239,10 +239,11 @@ export function assemblePrompt(rulePrompt: string, outputPrompt: string): string
   return `${rulePrompt}\n\n${outputPrompt}`
 }
 
-export function contextMessages(input: string, before?: string, after?: string,): ChatCompletionMessageParam[] {
+export function contextMessages(input: string, before?: string, after?: string, notes?: string): ChatCompletionMessageParam[] {
   return [
     before ? { role: "user", content: `<<CONTEXT_BEFORE>>\n${before}` } : undefined,
     after ? { role: "user", content: `<<CONTEXT_AFTER>>\n${after}` } : undefined,
+    notes ? { role: "user", content: `<<NOTES>>\n${notes}` } : undefined,
     { role: "user", content: `<<INPUT>>\n${input}` },
   ].filter(Boolean) as ChatCompletionMessageParam[]
 }
\ No newline at end of file
@@ -0,0 +1,26 @@
+import type { ReviewCardType, ReviewGrade } from '@/types/review';
+
+export const REVIEW_CARD_TYPES: ReviewCardType[] = ['word', 'cloze', 'translation'];
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+// SM-2 参数
+export const SM2_CONFIG = {
+  // 各评分对应的 SM-2 回答质量(0-5), 低于 3 视为答错
+  GRADE_QUALITY: { again: 1, hard: 3, good: 4, easy: 5 } as Record<ReviewGrade, number>,
+  INITIAL_EASE: 2.5,
+  MIN_EASE: 1.3,
+  FIRST_INTERVAL: 1,
+  SECOND_INTERVAL: 6,
+  // 答错后在本次复习中再次出现的间隔(分钟)
+  RELEARN_MINUTES: 10,
+} as const;
+
+export const REVIEW_CONFIG = {
+  DEFAULT_NEW_CARDS_PER_DAY: 20,
+  MATURE_INTERVAL: 21,
+  RETENTION_DAYS: 30,
+  HISTORY_DAYS: 14,
+  // 挖空卡片中替代单词的占位符
+  CLOZE_PLACEHOLDER: '[...]',
+} as const;
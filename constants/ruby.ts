@@ -0,0 +1,55 @@
+// 汉字(含「々」「〆」「ヶ」), 日语中需要标注振假名的部分
+export const KANJI_PATTERN = /[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff々〆ヶ]/;
+
+// 韩文音节, 按词(连续的音节)标注罗马字
+export const HANGUL_SYLLABLES_PATTERN = /[\uac00-\ud7a3]+/g;
+
+// 韩文音节的组成: 音节码 = 0xac00 + (初声 * 21 + 中声) * 28 + 终声
+export const HANGUL_SYLLABLE = {
+  BASE: 0xac00,
+  MEDIAL_COUNT: 21,
+  FINAL_COUNT: 28,
+  SILENT_INITIAL: 11, // ㅇ
+  NIEUN_INITIAL: 2, // ㄴ
+  RIEUL_INITIAL: 5, // ㄹ
+  NIEUN_FINAL: 4, // ㄴ
+  RIEUL_FINAL: 8, // ㄹ
+} as const;
+
+// 国语罗马字(Revised Romanization): 初声
+export const HANGUL_INITIALS = ['g', 'kk', 'n', 'd', 'tt', 'r', 'm', 'b', 'pp', 's', 'ss', '', 'j', 'jj', 'ch', 'k', 't', 'p', 'h'];
+
+// 中声
+export const HANGUL_MEDIALS = ['a', 'ae', 'ya', 'yae', 'eo', 'e', 'yeo', 'ye', 'o', 'wa', 'wae', 'oe', 'yo', 'u', 'wo', 'we', 'wi', 'yu', 'eu', 'ui', 'i'];
+
+// 终声, [单独读时, 后接 ㅇ 时留在本音节的部分, 后接 ㅇ 时移到下一音节的部分]
+export const HANGUL_FINALS: [string, string, string][] = [
+  ['', '', ''],
+  ['k', '', 'g'], // ㄱ
+  ['k', '', 'kk'], // ㄲ
+  ['k', 'k', 's'], // ㄳ
+  ['n', '', 'n'], // ㄴ
+  ['n', 'n', 'j'], // ㄵ
+  ['n', '', 'n'], // ㄶ
+  ['t', '', 'd'], // ㄷ
+  ['l', '', 'r'], // ㄹ
+  ['k', 'l', 'g'], // ㄺ
+  ['m', 'l', 'm'], // ㄻ
+  ['l', 'l', 'b'], // ㄼ
+  ['l', 'l', 's'], // ㄽ
+  ['l', 'l', 't'], // ㄾ
+  ['p', 'l', 'p'], // ㄿ
+  ['l', '', 'r'], // ㅀ
+  ['m', '', 'm'], // ㅁ
+  ['p', '', 'b'], // ㅂ
+  ['p', 'p', 's'], // ㅄ
+  ['t', '', 's'], // ㅅ
+  ['t', '', 'ss'], // ㅆ
+  ['ng', 'ng', ''], // ㅇ
+  ['t', '', 'j'], // ㅈ
+  ['t', '', 'ch'], // ㅊ
+  ['k', '', 'k'], // ㅋ
+  ['t', '', 't'], // ㅌ
+  ['p', '', 'p'], // ㅍ
+  ['t', '', ''], // ㅎ
+];
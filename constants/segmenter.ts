@@ -0,0 +1,116 @@
+import type { SegmenterRule, SegmenterScript } from '@/types/segmenter';
+
+const LATIN_QUOTES: [string, string][] = [['"', '"'], ['“', '”'], ['(', ')']];
+const CJK_QUOTES: [string, string][] = [['“', '”'], ['‘', '’'], ['「', '」'], ['『', '』'], ['（', '）'], ['《', '》']];
+
+// 未登记语言使用的规则
+export const DEFAULT_SEGMENTER_RULE: SegmenterRule = {
+  scripts: ['latin'],
+  terminators: '.!?',
+  spaced: true,
+  quotes: LATIN_QUOTES,
+  abbreviations: [],
+  ellipsis: true,
+  initials: true,
+};
+
+// 按主语言子标签登记的分句规则
+export const SEGMENTER_RULES: Record<string, SegmenterRule> = {
+  zh: {
+    scripts: ['han'],
+    terminators: '。！？!?',
+    spaced: false,
+    quotes: CJK_QUOTES,
+    abbreviations: [],
+    ellipsis: false,
+  },
+  ja: {
+    scripts: ['kana', 'han'],
+    terminators: '。！？!?',
+    spaced: false,
+    quotes: CJK_QUOTES,
+    abbreviations: [],
+    ellipsis: false,
+    continuations: ['と', 'って'],
+  },
+  ko: {
+    scripts: ['hangul', 'han'],
+    terminators: '.!?。',
+    spaced: true,
+    quotes: CJK_QUOTES,
+    abbreviations: [],
+    ellipsis: false,
+  },
+  en: {
+    ...DEFAULT_SEGMENTER_RULE,
+    abbreviations: ['mr.', 'mrs.', 'ms.', 'dr.', 'prof.', 'sr.', 'jr.', 'st.', 'mt.', 'vs.', 'etc.', 'e.g.', 'i.e.', 'no.', 'fig.', 'vol.', 'p.', 'pp.', 'ch.', 'inc.', 'ltd.', 'co.', 'u.s.', 'a.m.', 'p.m.'],
+  },
+  de: {
+    ...DEFAULT_SEGMENTER_RULE,
+    quotes: [['„', '“'], ['»', '«'], ['"', '"'], ['(', ')']],
+    abbreviations: ['z.b.', 'd.h.', 'u.a.', 'usw.', 'bzw.', 'ca.', 'vgl.', 'nr.', 'dr.', 'prof.', 'hr.', 'fr.', 'evtl.', 'ggf.', 'inkl.', 's.', 'str.'],
+  },
+  fr: {
+    ...DEFAULT_SEGMENTER_RULE,
+    quotes: [['«', '»'], ['“', '”'], ['"', '"'], ['(', ')']],
+    abbreviations: ['m.', 'mm.', 'mme.', 'mlle.', 'dr.', 'etc.', 'cf.', 'env.', 'p.', 'ex.', 'av.', 'st.', 'ste.'],
+  },
+  es: {
+    ...DEFAULT_SEGMENTER_RULE,
+    quotes: [['«', '»'], ['“', '”'], ['"', '"'], ['(', ')']],
+    abbreviations: ['sr.', 'sra.', 'srta.', 'dr.', 'dra.', 'ud.', 'uds.', 'etc.', 'pág.', 'núm.', 'p.ej.'],
+  },
+  it: {
+    ...DEFAULT_SEGMENTER_RULE,
+    quotes: [['«', '»'], ['“', '”'], ['"', '"'], ['(', ')']],
+    abbreviations: ['sig.', 'sigg.', 'dott.', 'prof.', 'ecc.', 'pag.', 'es.', 'cfr.'],
+  },
+  ru: {
+    ...DEFAULT_SEGMENTER_RULE,
+    scripts: ['cyrillic'],
+    quotes: [['«', '»'], ['„', '“'], ['"', '"'], ['(', ')']],
+    abbreviations: ['т.е.', 'т.д.', 'т.п.', 'т.к.', 'г.', 'гг.', 'см.', 'им.', 'др.', 'пр.', 'ул.', 'стр.', 'руб.', 'тыс.', 'млн.'],
+  },
+  th: {
+    scripts: ['thai'],
+    terminators: '!?',
+    spaced: true,
+    quotes: [['“', '”'], ['"', '"']],
+    abbreviations: [],
+    ellipsis: false,
+    splitOnSpace: true,
+  },
+};
+
+// 按顺序检测段落文字, 假名须在汉字之前检测
+export const SCRIPT_PATTERNS: { script: SegmenterScript; pattern: RegExp }[] = [
+  { script: 'kana', pattern: /[\u3040-\u30ff]/ },
+  { script: 'hangul', pattern: /[\uac00-\ud7af]/ },
+  { script: 'thai', pattern: /[\u0e00-\u0e7f]/ },
+  { script: 'han', pattern: /[\u4e00-\u9fa5]/ },
+  { script: 'cyrillic', pattern: /[\u0400-\u04ff]/ },
+];
+
+// 段落文字与书籍语言不符时使用的语言
+export const SCRIPT_LANGUAGES: Record<SegmenterScript, string> = {
+  latin: 'en',
+  cyrillic: 'ru',
+  han: 'zh',
+  kana: 'ja',
+  hangul: 'ko',
+  thai: 'th',
+};
+
+// 书籍设置中可选的分句语言
+export const SEGMENT_LANGUAGES = [
+  { code: 'zh', name: '中文' },
+  { code: 'ja', name: '日本語' },
+  { code: 'ko', name: '한국어' },
+  { code: 'en', name: 'English' },
+  { code: 'de', name: 'Deutsch' },
+  { code: 'fr', name: 'Français' },
+  { code: 'es', name: 'Español' },
+  { code: 'it', name: 'Italiano' },
+  { code: 'ru', name: 'Русский' },
+  { code: 'th', name: 'ไทย' },
+];
@@ -0,0 +1,24 @@
+import type { WordChunk } from '@/types/tokenizer';
+
+// segmentit 词性(结巴风格标注, 取首字母)到高亮分类, 未列出的按名词处理
+export const CHINESE_POS_CHUNKS: Record<string, WordChunk> = {
+  v: 'Verb',
+  a: 'Adjective',
+  b: 'Adjective',
+  z: 'Adjective',
+  c: 'Pivot',
+  p: 'Pivot',
+  u: 'Pivot',
+};
+
+// kuromoji 品词到高亮分类, 未列出的按名词处理
+export const JAPANESE_POS_CHUNKS: Record<string, WordChunk> = {
+  '動詞': 'Verb',
+  '形容詞': 'Adjective',
+  '連体詞': 'Adjective',
+  '助詞': 'Pivot',
+  '接続詞': 'Pivot',
+};
+
+// 接在动词、形容词之后时并入前一个词的品词, 如「見た」「美しくない」
+export const JAPANESE_INFLECTION_POS = ['助動詞'];
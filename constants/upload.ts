@@ -1,4 +1,14 @@
 export const UPLOAD_CONFIG = {
   MAX_SIZE: 100 * 1024 * 1024, // 100MB
   MAX_BOOK_COUNT: 10, // 最大书籍上传数量
+  MAX_CONCURRENT_IMPORTS: 2, // 同时解析的书籍数量, 每本书占用一个 Worker
 }
+
+// 各导入阶段在总进度中所占的区间(百分比)
+export const IMPORT_STAGE_RANGES = {
+  queued: [0, 0],
+  unzip: [0, 10],
+  parse: [10, 60],
+  segment: [60, 95],
+  save: [95, 100],
+} as const
@@ -0,0 +1,18 @@
+import type { BudgetAction, UsageFeature } from '@/types/usage';
+
+export const USAGE_FEATURES: UsageFeature[] = ['sentence', 'word', 'chat', 'translation', 'bookTranslation', 'other'];
+
+export const BUDGET_ACTIONS: BudgetAction[] = ['warn', 'block'];
+
+export const USAGE_CONFIG = {
+  DEFAULT_CURRENCY: '$',
+  DEFAULT_BUDGET_ACTION: 'warn' as BudgetAction,
+  // 价格按每百万 token 计
+  PRICE_UNIT: 1_000_000,
+  RANGE_DAYS: [7, 30, 90],
+  DEFAULT_RANGE_DAYS: 30,
+  // 估算 token 数: 中日韩字符约 1 个 token, 其他字符约 4 个为 1 个 token
+  CHARS_PER_TOKEN: 4,
+  // 翻译输出的 token 数约为输入原文的倍数
+  TRANSLATION_OUTPUT_RATIO: 1.5,
+} as const;
@@ -0,0 +1,12 @@
+import type { WordStatus } from '@/types/word';
+
+export const WORD_STATUSES: WordStatus[] = ['new', 'learning', 'known', 'ignored'];
+
+// 阅读区中高亮的词状态及背景色, 使用主题变量以适配深色模式
+export const WORD_STATUS_HIGHLIGHT_COLORS: Partial<Record<WordStatus, string>> = {
+  new: 'var(--ant-color-info-bg)',
+  learning: 'var(--ant-color-warning-bg)',
+};
+
+// 不支持 Worker 时在主线程统计生词, 每分词这么多句让出一次主线程
+export const WORD_STATS_YIELD_INTERVAL = 20;
@@ -0,0 +1,29 @@
+'use client'
+
+import { useCallback } from "react";
+import { useRouter } from "next/navigation";
+import db from "@/services/DB";
+import { useSiderStore } from "@/store/useSiderStore";
+import { ContentLocation } from "@/types/book";
+
+/**
+ * 在阅读器中打开书籍的指定句子
+ *
+ * 按句子 id 与内容锚点重新定位, 书籍编辑或更新后仍能回到原句
+ *
+ * @returns 打开函数, 书籍已删除时返回 false
+ */
+export function useOpenInReader() {
+  const router = useRouter()
+  const { setReadingId } = useSiderStore()
+
+  return useCallback(async (bookId: string, location: ContentLocation): Promise<boolean> => {
+    const book = await db.getBook(bookId)
+    if (!book) return false
+    const [relocated] = await db.relocateLocations(bookId, [location])
+    await db.updateCurrentLocation(bookId, relocated)
+    setReadingId(bookId)
+    router.push('/read')
+    return true
+  }, [router, setReadingId])
+}
@@ -19,6 +19,8 @@ const nextConfig = {
   // 配置 assetPrefix，否则服务器无法正确解析您的资产。
   assetPrefix: isProd ? undefined : `http://${internalHost}:3000`,
   webpack: (config) => {
+    // pdfjs-dist 在 Node 环境下会尝试引入 canvas, 浏览器端无需打包
+    config.resolve.alias.canvas = false;
     return config;
   },
 }
@@ -0,0 +1,338 @@
+import MarkdownIt from 'markdown-it';
+import { strToU8, zipSync } from 'fflate';
+import type { Bookmark } from '@/types/book';
+import type { AnkiExportOptions, AnkiModel, AnkiNote } from '@/types/anki';
+import { ANKI_CLOZE_MODEL, ANKI_CONFIG, ANKI_MODEL_CSS, ANKI_SENTENCE_MODEL, ANKI_TTS_LANGUAGES } from '@/constants/anki';
+import db from '@/services/DB';
+import { getBookSegmentLanguage } from '@/services/segmenter';
+import { db as readBridgeDB, getAllVocabulary, getTranslation } from '@/utils/db';
+import { createSQLiteDatabase, SQLiteTable } from '@/utils/sqlite';
+
+const FIELD_SEPARATOR = '\x1f';
+
+interface BookInfo {
+  title: string;
+  language?: string;
+}
+
+/**
+ * 导出 Anki 牌组(.apkg)
+ *
+ * - 生词本记录导出为挖空笔记, 原句中的单词为 {{c1::单词}}, 附带释义、译文与书名
+ * - 书签与已翻译的句子导出为句子笔记, 正面为原句, 背面为译文; 同一本书中相同的句子只导出一次
+ * - 开启朗读时 Audio 字段为 Anki 内置朗读标签, 复习时由 Anki 按语言朗读原句
+ *
+ * 笔记 guid 由来源生成, 再次导出后导入时 Anki 更新已有笔记, 复习进度不受影响
+ *
+ * @param bookmarks 全部书签
+ * @param options 导出选项
+ * @returns 牌组文件与笔记数量, 没有可导出的内容时 noteCount 为 0
+ */
+export async function exportAnkiPackage(
+  bookmarks: Bookmark[],
+  options: AnkiExportOptions
+): Promise<{ blob: Blob, noteCount: number }> {
+  const notes = await collectAnkiNotes(bookmarks, options);
+  const collection = await createAnkiCollection(notes, options.deckName);
+  const archive = zipSync({
+    'collection.anki2': collection,
+    // 不包含媒体文件
+    media: strToU8('{}')
+  });
+  return {
+    blob: new Blob([archive], { type: 'application/octet-stream' }),
+    noteCount: notes.length
+  };
+}
+
+async function collectAnkiNotes(bookmarks: Bookmark[], options: AnkiExportOptions): Promise<AnkiNote[]> {
+  const { sources, bookId, tts } = options;
+  const md = new MarkdownIt();
+  const books = new Map<string, Promise<BookInfo>>();
+  const getBookInfo = (id: string, fallbackTitle = '') => {
+    if (!books.has(id)) {
+      books.set(id, db.getBook(id).then(book => ({
+        title: book?.title ?? fallbackTitle,
+        language: book ? getBookSegmentLanguage(book) : undefined
+      })));
+    }
+    return books.get(id)!;
+  };
+  const createAudio = (sentence: string, language?: string) => {
+    const lang = tts ? toAnkiLanguage(language) : undefined;
+    return lang ? `[anki:tts lang=${lang}]${escapeHtml(sentence)}[/anki:tts]` : '';
+  };
+  const matchesBook = (id: string) => !bookId || id === bookId;
+
+  const notes: AnkiNote[] = [];
+  if (sources.includes('vocabulary')) {
+    const records = (await getAllVocabulary()).filter(record => matchesBook(record.bookId));
+    for (const record of records) {
+      const book = await getBookInfo(record.bookId, record.bookTitle);
+      const translation = await getTranslation(record.bookId, record.sentence, record.sentenceId);
+      notes.push({
+        model: ANKI_CLOZE_MODEL,
+        guid: await createGuid(`vocabulary:${record.bookId}:${record.word}:${record.sentence}`),
+        fields: [
+          createClozeField(record.sentence, record.word, record.lemma),
+          escapeHtml(record.word),
+          record.explanation ? md.render(record.explanation) : '',
+          escapeHtml(translation?.translatedText ?? ''),
+          escapeHtml(book.title),
+          createAudio(record.sentence, record.language || book.language)
+        ],
+        tags: createTags(book.title)
+      });
+    }
+  }
+
+  // 书签与翻译记录中的同一个句子合并为一条笔记
+  const sentences = new Map<string, { bookId: string, sentence: string, translation?: string, language?: string }>();
+  if (sources.includes('bookmarks')) {
+    for (const bookmark of bookmarks.filter(item => matchesBook(item.bookId))) {
+      const translation = await getTranslation(bookmark.bookId, bookmark.sentence, bookmark.sentenceId);
+      sentences.set(`${bookmark.bookId}\n${bookmark.sentence}`, {
+        bookId: bookmark.bookId,
+        sentence: bookmark.sentence,
+        translation: translation?.translatedText,
+        language: translation?.sourceLanguage
+      });
+    }
+  }
+  if (sources.includes('translations')) {
+    const records = bookId
+      ? await readBridgeDB.translations.where('bookId').equals(bookId).toArray()
+      : await readBridgeDB.translations.toArray();
+    records.forEach(record => {
+      const key = `${record.bookId}\n${record.originalText}`;
+      if (sentences.get(key)?.translation) return;
+      sentences.set(key, {
+        bookId: record.bookId,
+        sentence: record.originalText,
+        translation: record.translatedText,
+        language: record.sourceLanguage
+      });
+    });
+  }
+  for (const [key, item] of sentences) {
+    const book = await getBookInfo(item.bookId);
+    notes.push({
+      model: ANKI_SENTENCE_MODEL,
+      guid: await createGuid(`sentence:${key}`),
+      fields: [
+        escapeHtml(item.sentence),
+        escapeHtml(item.translation ?? ''),
+        escapeHtml(book.title),
+        createAudio(item.sentence, book.language || item.language)
+      ],
+      tags: createTags(book.title)
+    });
+  }
+  return notes;
+}
+
+// 按 Anki 2.1 的旧版集合格式(schema 11)生成 collection.anki2, 新版 Anki 导入时自动升级
+async function createAnkiCollection(notes: AnkiNote[], deckName: string): Promise<Uint8Array> {
+  const now = Date.now();
+  const seconds = Math.floor(now / 1000);
+  const deckId = ANKI_CONFIG.DECK_ID_BASE + parseInt((await sha1(deckName)).slice(0, 6), 16);
+  const models = [ANKI_CLOZE_MODEL, ANKI_SENTENCE_MODEL];
+
+  const noteRows = await Promise.all(notes.map(async (note, i) => {
+    const firstField = stripHtml(note.fields[0]);
+    const sortField = stripHtml(note.fields[note.model.sortField]);
+    return [
+      now + i,
+      note.guid,
+      note.model.id,
+      seconds,
+      -1,
+      note.tags.length > 0 ? ` ${note.tags.join(' ')} ` : '',
+      note.fields.join(FIELD_SEPARATOR),
+      // sfld 列为整数亲和性, 纯数字的排序字段按整数保存
+      /^-?\d{1,15}$/.test(sortField) ? Number(sortField) : sortField,
+      parseInt((await sha1(firstField)).slice(0, 8), 16),
+      0,
+      ''
+    ];
+  }));
+  // 挖空笔记只有 c1, 每条笔记生成一张卡片; 新卡片按导出顺序排列
+  const cardRows = notes.map((_, i) => [now + i, now + i, deckId, 0, seconds, -1, 0, 0, i + 1, 0, 0, 0, 0, 0, 0, 0, 0, '']);
+
+  const conf = {
+    activeDecks: [1],
+    curDeck: 1,
+    newSpread: 0,
+    collapseTime: 1200,
+    timeLim: 0,
+    estTimes: true,
+    dueCounts: true,
+    curModel: null,
+    nextPos: notes.length + 1,
+    sortType: 'noteFld',
+    sortBackwards: false,
+    addToCur: true
+  };
+  const modelsJson = Object.fromEntries(models.map(model => [String(model.id), toModelJson(model, deckId, seconds)]));
+  const decksJson = {
+    '1': toDeckJson(1, 'Default', seconds),
+    [deckId]: toDeckJson(deckId, deckName, seconds)
+  };
+  const dconf = {
+    '1': {
+      id: 1,
+      name: 'Default',
+      mod: 0,
+      usn: 0,
+      maxTaken: 60,
+      autoplay: true,
+      timer: 0,
+      replayq: true,
+      dyn: false,
+      new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, separate: true, order: 1, perDay: 20, bury: false },
+      lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+      rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: false }
+    }
+  };
+
+  const tables: SQLiteTable[] = [
+    {
+      name: 'col',
+      sql: 'CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null)',
+      rowidAlias: true,
+      rows: [[1, seconds, now, now, 11, 0, 0, 0, JSON.stringify(conf), JSON.stringify(modelsJson), JSON.stringify(decksJson), JSON.stringify(dconf), '{}']]
+    },
+    {
+      name: 'notes',
+      sql: 'CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null)',
+      rowidAlias: true,
+      rows: noteRows,
+      indexes: [
+        { name: 'ix_notes_usn', sql: 'CREATE INDEX ix_notes_usn on notes (usn)', columns: [4] },
+        { name: 'ix_notes_csum', sql: 'CREATE INDEX ix_notes_csum on notes (csum)', columns: [8] }
+      ]
+    },
+    {
+      name: 'cards',
+      sql: 'CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null)',
+      rowidAlias: true,
+      rows: cardRows,
+      indexes: [
+        { name: 'ix_cards_usn', sql: 'CREATE INDEX ix_cards_usn on cards (usn)', columns: [5] },
+        { name: 'ix_cards_nid', sql: 'CREATE INDEX ix_cards_nid on cards (nid)', columns: [1] },
+        { name: 'ix_cards_sched', sql: 'CREATE INDEX ix_cards_sched on cards (did, queue, due)', columns: [2, 7, 8] }
+      ]
+    },
+    {
+      name: 'revlog',
+      sql: 'CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null)',
+      rowidAlias: true,
+      rows: [],
+      indexes: [
+        { name: 'ix_revlog_usn', sql: 'CREATE INDEX ix_revlog_usn on revlog (usn)', columns: [2] },
+        { name: 'ix_revlog_cid', sql: 'CREATE INDEX ix_revlog_cid on revlog (cid)', columns: [1] }
+      ]
+    },
+    {
+      name: 'graves',
+      sql: 'CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null)',
+      rows: []
+    }
+  ];
+  return createSQLiteDatabase(tables);
+}
+
+function toModelJson(model: AnkiModel, deckId: number, seconds: number) {
+  return {
+    id: model.id,
+    name: model.name,
+    type: model.type === 'cloze' ? 1 : 0,
+    mod: seconds,
+    usn: -1,
+    sortf: model.sortField,
+    did: deckId,
+    tmpls: [{
+      name: model.type === 'cloze' ? 'Cloze' : 'Card 1',
+      ord: 0,
+      qfmt: model.questionFormat,
+      afmt: model.answerFormat,
+      bqfmt: '',
+      bafmt: '',
+      did: null
+    }],
+    flds: model.fields.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+    css: ANKI_MODEL_CSS,
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    latexsvg: false,
+    req: [[0, 'any', [0]]],
+    tags: [],
+    vers: []
+  };
+}
+
+function toDeckJson(id: number, name: string, seconds: number) {
+  return {
+    id,
+    name,
+    desc: '',
+    mod: seconds,
+    usn: -1,
+    conf: 1,
+    dyn: 0,
+    collapsed: false,
+    browserCollapsed: false,
+    extendNew: 10,
+    extendRev: 50,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0]
+  };
+}
+
+// 原句中第一次出现的单词挖空, 原形不同时作为提示; 找不到单词时挖空单词本身附在原句后
+function createClozeField(sentence: string, word: string, lemma?: string): string {
+  const hint = lemma && lemma !== word.toLowerCase() ? `::${escapeHtml(lemma)}` : '';
+  const cloze = `{{c1::${escapeHtml(word)}${hint}}}`;
+  const index = sentence.indexOf(word);
+  if (index === -1) return `${escapeHtml(sentence)}<br>${cloze}`;
+  return escapeHtml(sentence.slice(0, index)) + cloze + escapeHtml(sentence.slice(index + word.length));
+}
+
+// Anki 标签不能包含空格, 书名作为 ReadBridge 的子标签
+function createTags(bookTitle: string): string[] {
+  const title = bookTitle.trim().replace(/\s+/g, '_');
+  return title ? [`${ANKI_CONFIG.TAG}::${title}`] : [ANKI_CONFIG.TAG];
+}
+
+function toAnkiLanguage(language?: string): string | undefined {
+  if (!language) return undefined;
+  const [primary, region] = language.split(/[-_]/);
+  if (region && /^[a-z]{2}$/i.test(region)) return `${primary.toLowerCase()}_${region.toUpperCase()}`;
+  return ANKI_TTS_LANGUAGES[primary.toLowerCase()];
+}
+
+async function createGuid(source: string): Promise<string> {
+  return (await sha1(source)).slice(0, 16);
+}
+
+async function sha1(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .trim();
+}
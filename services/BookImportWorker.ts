@@ -0,0 +1,47 @@
+import type { BookWorkerRequest, BookWorkerResponse, ImportProgress } from '@/types/book';
+import { processBook } from '@/services/BookService';
+import { createSentenceRecords, paragraphsToLines } from '@/utils/sentence';
+import { getBookSegmentLanguage } from '@/services/segmenter';
+import { extractUniqueWords } from '@/services/tokenizer';
+
+/**
+ * 书籍解析 Worker
+ * 解压、解析章节、整书分句与统计生词时的分词都在这里完成, 处理大书时不阻塞阅读区
+ * 由 BookWorkerClient 创建, 不要直接引用
+ */
+const ctx = self as unknown as Worker
+
+function post(response: BookWorkerResponse) {
+  ctx.postMessage(response)
+}
+
+ctx.addEventListener('message', async (event: MessageEvent<BookWorkerRequest>) => {
+  const request = event.data
+  try {
+    switch (request.type) {
+      case 'import': {
+        const { id, buffer, fileType, name, hash, options } = request
+        const onProgress = (progress: ImportProgress) => post({ type: 'progress', id, progress })
+
+        const book = await processBook(Buffer.from(buffer), fileType, name, hash, options, onProgress)
+
+        const language = getBookSegmentLanguage(book)
+        const sentences = book.chapterList.flatMap((chapter, index) => {
+          onProgress({ stage: 'segment', current: index, total: book.chapterList.length })
+          return createSentenceRecords(book.id, index, chapter.paragraphs, paragraphsToLines(chapter.paragraphs, language))
+        })
+
+        post({ type: 'imported', id, result: { book, sentences } })
+        break
+      }
+      case 'segment':
+        post({ type: 'segmented', id: request.id, lines: paragraphsToLines(request.paragraphs, request.language) })
+        break
+      case 'words':
+        post({ type: 'words', id: request.id, words: await extractUniqueWords(request.sentences, request.language) })
+        break
+    }
+  } catch (error) {
+    post({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) })
+  }
+})
@@ -1,37 +1,53 @@
-import { BOOK_MIME_TYPE } from '@/constants/book';
-import type { BOOK_MIME_TYPE_TYPE, FormattedBook } from '@/types/book';
+import { BOOK_FORMAT, BOOK_MIME_TYPE } from '@/constants/book';
+import type { BOOK_FORMAT_TYPE, BOOK_MIME_TYPE_TYPE, FormattedBook, ImportProgressHandler, ProcessBookOptions } from '@/types/book';
 
 import { initEpubBook } from '@/services/Epub';
 import { initTXTBook } from '@/services/TXT';
 
 import type { Book } from '@/types/book';
 import { initMDBook } from './MD';
+import { initPDFBook } from './PDF';
 import { generateUUID } from '@/utils/uuid'
+import { chapterListToToc } from '@/utils/toc'
+import { createThumbnail } from '@/utils/image'
 /**
  * 处理书籍
  * @param buffer 书籍文件
  * @param format 书籍格式
  * @param name 书籍名称
  * @param hash 书籍哈希值
+ * @param options 解析选项(如纯文本的章节识别规则、字符编码)
+ * @param onProgress 解析进度回调
  * @returns 完成处理书籍
  * @throws 
  */
-export async function processBook(buffer: Buffer, type: BOOK_MIME_TYPE_TYPE, name: string, hash: string): Promise<Book> {
+export async function processBook(buffer: Buffer, type: BOOK_MIME_TYPE_TYPE, name: string, hash: string, options: ProcessBookOptions = {}, onProgress?: ImportProgressHandler): Promise<Book> {
   let initFile: FormattedBook | null = null
+  let format: BOOK_FORMAT_TYPE
   console.log(type, 'type')
   try {
     switch (type) {
       case BOOK_MIME_TYPE.EPUB:
-        initFile = initEpubBook(buffer)
+        initFile = initEpubBook(buffer, onProgress)
+        format = BOOK_FORMAT.EPUB
         break
       case BOOK_MIME_TYPE.EPUB_ZIP:
-        initFile = initEpubBook(buffer)
+        initFile = initEpubBook(buffer, onProgress)
+        format = BOOK_FORMAT.EPUB
         break
       case BOOK_MIME_TYPE.TXT:
-        initFile = initTXTBook(buffer, name)
+        onProgress?.({ stage: 'parse' })
+        initFile = initTXTBook(buffer, name, options)
+        format = BOOK_FORMAT.TXT
         break
       case BOOK_MIME_TYPE.MD:
-        initFile = initMDBook(buffer, name)
+        onProgress?.({ stage: 'parse' })
+        initFile = initMDBook(buffer, name, options)
+        format = BOOK_FORMAT.MD
+        break
+      case BOOK_MIME_TYPE.PDF:
+        initFile = await initPDFBook(buffer, name, onProgress)
+        format = BOOK_FORMAT.PDF
         break
       default:
         throw new Error(`Unsupported book format: ${type}`)
@@ -43,22 +59,24 @@ export async function processBook(buffer: Buffer, type: BOOK_MIME_TYPE_TYPE, nam
   if (!initFile) {
     throw new Error('Failed to initialize book')
   }
-  const book = createBookModel(initFile, hash)
+  const book = createBookModel(initFile, hash, format)
+  if (book.metadata.cover) {
+    book.metadata.thumbnail = await createThumbnail(book.metadata.cover)
+  }
   return book
 }
 
-function createBookModel(formattedBook: FormattedBook, hash: string): Book {
+function createBookModel(formattedBook: FormattedBook, hash: string, format: BOOK_FORMAT_TYPE): Book {
   return {
     id: generateUUID(),
     fileHash: hash,
+    format,
     createTime: Date.now(),
     title: formattedBook.metadata.title,
     author: formattedBook.metadata.author,
     chapterList: formattedBook.chapterList,
-    toc: formattedBook.chapterList.map((chapter, index) => ({
-      title: chapter.title,
-      index
-    })),
-    metadata: formattedBook.metadata
+    toc: formattedBook.toc ?? chapterListToToc(formattedBook.chapterList),
+    metadata: formattedBook.metadata,
+    resources: formattedBook.resources
   }
 }
\ No newline at end of file
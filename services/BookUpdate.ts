@@ -0,0 +1,56 @@
+import type { Bookmark, BookUpdateReport, ImportProgressHandler, ProcessBookOptions } from '@/types/book';
+import db from '@/services/DB';
+import { handleFileUpload } from '@/services/ServerUpload';
+import { remapBookTranslations } from '@/utils/db';
+import { createSentenceAnchor } from '@/utils/anchor';
+
+/**
+ * 以新版本文件更新书籍
+ *
+ * 解析新文件后对比新旧章节与句子, 按内容锚点将阅读位置、书签与翻译迁移到对应的新句子;
+ * 翻译只迁移到内容完全相同的句子
+ *
+ * @param bookId 书籍id
+ * @param file 新版本文件
+ * @param bookmarks 该书的书签
+ * @param options 解析选项
+ * @param importOptions 进度回调与取消信号
+ * @returns 更新结果与迁移后的书签, 未能迁移的书签保留原位置
+ * @throws 文件无效、与当前版本相同或已作为其他书籍导入时抛出异常, 取消时抛出 AbortError
+ */
+export async function updateBookFromFile(
+  bookId: string,
+  file: File,
+  bookmarks: Bookmark[],
+  options: ProcessBookOptions = {},
+  importOptions: { onProgress?: ImportProgressHandler, signal?: AbortSignal } = {}
+): Promise<{ report: BookUpdateReport, bookmarks: Bookmark[] }> {
+  const imported = await handleFileUpload(file, options, importOptions);
+  importOptions.onProgress?.({ stage: 'save' });
+  const { diff, progressMapped, relocate } = await db.updateBookContent(bookId, imported);
+
+  const relocatedBookmarks = bookmarks.map(bookmark => {
+    const relocated = relocate(bookmark);
+    return relocated.anchor ? relocated : bookmark;
+  });
+  const unmappedBookmarks = bookmarks.filter((bookmark, index) => relocatedBookmarks[index] === bookmark);
+
+  const translations = await remapBookTranslations(bookId, record => {
+    const anchor = createSentenceAnchor(record.originalText);
+    const located = relocate({ chapterIndex: 0, lineIndex: 0, sentenceId: record.sentenceId, anchor });
+    return located.anchor?.textHash === anchor.textHash ? located.sentenceId : undefined;
+  });
+
+  return {
+    report: {
+      ...diff,
+      progressMapped,
+      bookmarks: {
+        mapped: bookmarks.length - unmappedBookmarks.length,
+        unmapped: unmappedBookmarks
+      },
+      translations
+    },
+    bookmarks: relocatedBookmarks
+  };
+}
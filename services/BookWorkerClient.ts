@@ -0,0 +1,234 @@
+import type {
+  BOOK_MIME_TYPE_TYPE,
+  BookWorkerRequest,
+  BookWorkerResponse,
+  ChapterParagraph,
+  ImportedBook,
+  ImportProgressHandler,
+  ProcessBookOptions
+} from '@/types/book';
+import type { WordSpan } from '@/types/word';
+import { UPLOAD_CONFIG } from '@/constants/upload';
+import { WORD_STATS_YIELD_INTERVAL } from '@/constants/word';
+import { createSentenceRecords, paragraphsToLines } from '@/utils/sentence';
+import { getBookSegmentLanguage } from '@/services/segmenter';
+
+interface ImportBookOptions {
+  onProgress?: ImportProgressHandler;
+  signal?: AbortSignal;
+}
+
+let requestId = 0
+let runningImports = 0
+const importQueue: (() => void)[] = []
+
+/**
+ * 在 Worker 中解析书籍并整书分句
+ *
+ * - 每本书使用独立的 Worker, 取消时直接终止, 不影响其他导入
+ * - 同时解析的书籍数量受 UPLOAD_CONFIG.MAX_CONCURRENT_IMPORTS 限制, 超出的排队等待
+ * - buffer 会被转移到 Worker, 调用后不可再使用
+ *
+ * @param buffer 书籍文件
+ * @param fileType 书籍格式
+ * @param name 书籍名称
+ * @param hash 书籍哈希值
+ * @param options 解析选项
+ * @param importOptions 进度回调与取消信号
+ * @returns 书籍与句子索引
+ * @throws 解析失败时抛出异常, 取消时抛出 name 为 AbortError 的异常
+ */
+export async function importBook(
+  buffer: ArrayBuffer,
+  fileType: BOOK_MIME_TYPE_TYPE,
+  name: string,
+  hash: string,
+  options: ProcessBookOptions = {},
+  { onProgress, signal }: ImportBookOptions = {}
+): Promise<ImportedBook> {
+  onProgress?.({ stage: 'queued' })
+  await acquireImportSlot(signal)
+  try {
+    if (typeof Worker === 'undefined') {
+      return await importBookInline(buffer, fileType, name, hash, options, onProgress)
+    }
+    return await runImportWorker({ type: 'import', id: ++requestId, buffer, fileType, name, hash, options }, onProgress, signal)
+  } finally {
+    releaseImportSlot()
+  }
+}
+
+/**
+ * 在 Worker 中对章节分句
+ * 用于导入时未分句的旧书, 以及编辑章节后重新分句, 共用一个常驻 Worker
+ *
+ * @param paragraphs 章节段落
+ * @param language 书籍的分句语言
+ * @returns 句子行
+ */
+export async function segmentParagraphs(paragraphs: ChapterParagraph[], language?: string): Promise<string[]> {
+  const worker = getSegmentWorker()
+  if (!worker) return paragraphsToLines(paragraphs, language)
+
+  const response = await requestSegmentWorker(worker, { type: 'segment', id: ++requestId, paragraphs, language })
+  if (response.type !== 'segmented') throw new Error('Unexpected book worker response')
+  return response.lines
+}
+
+/**
+ * 在 Worker 中提取句子中出现的词, 用于统计章节生词数
+ * 与分句共用常驻 Worker, 不支持 Worker 时在主线程中分批处理
+ *
+ * @param sentences 句子
+ * @param language 书籍的分句语言
+ * @returns 按语言与原形去重后的词
+ */
+export async function extractSentenceWords(sentences: string[], language?: string): Promise<WordSpan[]> {
+  const worker = getSegmentWorker()
+  if (!worker) {
+    const { extractUniqueWords } = await import('@/services/tokenizer')
+    return extractUniqueWords(sentences, language, WORD_STATS_YIELD_INTERVAL)
+  }
+
+  const response = await requestSegmentWorker(worker, { type: 'words', id: ++requestId, sentences, language })
+  if (response.type !== 'words') throw new Error('Unexpected book worker response')
+  return response.words
+}
+
+function createWorker(): Worker {
+  return new Worker(new URL('./BookImportWorker.ts', import.meta.url))
+}
+
+function createAbortError(): DOMException {
+  return new DOMException('Import cancelled', 'AbortError')
+}
+
+function acquireImportSlot(signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(createAbortError())
+  if (runningImports < UPLOAD_CONFIG.MAX_CONCURRENT_IMPORTS) {
+    runningImports++
+    return Promise.resolve()
+  }
+  return new Promise((resolve, reject) => {
+    const start = () => {
+      signal?.removeEventListener('abort', cancel)
+      runningImports++
+      resolve()
+    }
+    const cancel = () => {
+      const index = importQueue.indexOf(start)
+      if (index !== -1) importQueue.splice(index, 1)
+      reject(createAbortError())
+    }
+    importQueue.push(start)
+    signal?.addEventListener('abort', cancel, { once: true })
+  })
+}
+
+function releaseImportSlot() {
+  runningImports--
+  importQueue.shift()?.()
+}
+
+function runImportWorker(
+  request: Extract<BookWorkerRequest, { type: 'import' }>,
+  onProgress?: ImportProgressHandler,
+  signal?: AbortSignal
+): Promise<ImportedBook> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError())
+      return
+    }
+    const worker = createWorker()
+    const finish = () => {
+      signal?.removeEventListener('abort', cancel)
+      worker.terminate()
+    }
+    const cancel = () => {
+      finish()
+      reject(createAbortError())
+    }
+    signal?.addEventListener('abort', cancel, { once: true })
+
+    worker.onmessage = (event: MessageEvent<BookWorkerResponse>) => {
+      const response = event.data
+      if (response.id !== request.id) return
+      switch (response.type) {
+        case 'progress':
+          onProgress?.(response.progress)
+          break
+        case 'imported':
+          finish()
+          resolve(response.result)
+          break
+        case 'error':
+          finish()
+          reject(new Error(response.message))
+          break
+      }
+    }
+    worker.onerror = (event) => {
+      finish()
+      reject(new Error(event.message || 'Book worker failed'))
+    }
+
+    worker.postMessage(request, [request.buffer])
+  })
+}
+
+// 不支持 Worker 的环境在主线程中解析
+async function importBookInline(
+  buffer: ArrayBuffer,
+  fileType: BOOK_MIME_TYPE_TYPE,
+  name: string,
+  hash: string,
+  options: ProcessBookOptions,
+  onProgress?: ImportProgressHandler
+): Promise<ImportedBook> {
+  const { processBook } = await import('@/services/BookService')
+  const book = await processBook(Buffer.from(buffer), fileType, name, hash, options, onProgress)
+  const language = getBookSegmentLanguage(book)
+  const sentences = book.chapterList.flatMap((chapter, index) => {
+    onProgress?.({ stage: 'segment', current: index, total: book.chapterList.length })
+    return createSentenceRecords(book.id, index, chapter.paragraphs, paragraphsToLines(chapter.paragraphs, language))
+  })
+  return { book, sentences }
+}
+
+let segmentWorker: Worker | null = null
+const pendingSegments = new Map<number, { resolve: (response: BookWorkerResponse) => void, reject: (error: Error) => void }>()
+
+function requestSegmentWorker(worker: Worker, request: Extract<BookWorkerRequest, { type: 'segment' | 'words' }>): Promise<BookWorkerResponse> {
+  return new Promise((resolve, reject) => {
+    pendingSegments.set(request.id, { resolve, reject })
+    worker.postMessage(request)
+  })
+}
+
+function getSegmentWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null
+  if (segmentWorker) return segmentWorker
+
+  segmentWorker = createWorker()
+  segmentWorker.onmessage = (event: MessageEvent<BookWorkerResponse>) => {
+    const response = event.data
+    const pending = pendingSegments.get(response.id)
+    if (!pending) return
+    if (response.type === 'segmented' || response.type === 'words') {
+      pendingSegments.delete(response.id)
+      pending.resolve(response)
+    } else if (response.type === 'error') {
+      pendingSegments.delete(response.id)
+      pending.reject(new Error(response.message))
+    }
+  }
+  segmentWorker.onerror = (event) => {
+    // Worker 崩溃后丢弃, 下次分句时重新创建
+    pendingSegments.forEach(pending => pending.reject(new Error(event.message || 'Book worker failed')))
+    pendingSegments.clear()
+    segmentWorker?.terminate()
+    segmentWorker = null
+  }
+  return segmentWorker
+}
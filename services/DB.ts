@@ -1,14 +1,20 @@
 // web only
 
 import Dexie, { Table } from 'dexie'
-import { Book, BookPreview, ReadingProgress } from '@/types/book'
-import nlp from 'compromise'
+import { Book, BookContentDiff, BookPreview, ContentLocation, ImportedBook, ReadingProgress, SentenceRecord } from '@/types/book'
+import { segmentParagraphs } from '@/services/BookWorkerClient'
+import { getBookSegmentLanguage } from '@/services/segmenter'
+import { createSentenceRecords, sentenceRecordsToLines } from '@/utils/sentence'
+import { createContentAnchor, createContentRelocator, isAnchoredSentence } from '@/utils/anchor'
+import { diffBookContent } from '@/utils/diff'
 
 const DB_SEARCH_KEYS = ['&id', 'title', 'fileHash', 'author', 'createTime', 'lastReadTime', 'metadata.identifier', 'metadata.language']
 const READING_PROGRESS_KEYS = ['&bookId', 'lastReadTime', 'currentLocation']
+const SENTENCE_KEYS = ['[bookId+id]', 'bookId', '[bookId+chapterIndex]']
 class BookDB extends Dexie {
   books!: Table<Book>
   readingProgress!: Table<ReadingProgress>
+  sentences!: Table<SentenceRecord>
 
   constructor() {
     super('book-reader')
@@ -16,13 +22,21 @@ class BookDB extends Dexie {
       books: DB_SEARCH_KEYS.join(','),
       readingProgress: READING_PROGRESS_KEYS.join(',')
     })
+    // 句子索引单独成表, 旧版按章缓存在阅读信息中的分句结果作废, 打开书籍时整书重新建立索引
+    this.version(2).stores({
+      sentences: SENTENCE_KEYS.join(',')
+    }).upgrade(tx => tx.table('readingProgress').toCollection().modify((readingProgress: ReadingProgress) => {
+      readingProgress.sentenceChapters = {}
+    }))
   }
   /**
    * 添加新书
+   * @param book 书籍
+   * @param sentences 导入时建立的句子索引
    * @throws {Error} 当书已存在时抛出异常
    * @returns 返回新增书籍的id 
    */
-  async addBook(book: Book): Promise<string> {
+  async addBook(book: Book, sentences: SentenceRecord[] = []): Promise<string> {
     const exists = await this.books
       .where('fileHash')
       .equals(book.fileHash)
@@ -32,6 +46,7 @@ class BookDB extends Dexie {
       throw new Error('Book already exists')
     }
     const id = await this.books.add(book)
+    if (sentences.length > 0) await this.sentences.bulkAdd(sentences)
     await this.addReadingProgress(id)
     return id
   }
@@ -190,11 +205,12 @@ class BookDB extends Dexie {
 
     await this.books.delete(id)
     await this.readingProgress.delete(id)
+    await this.sentences.where('bookId').equals(id).delete()
   }
 
   /**
    * 添加书籍阅读信息
-   * @param readingProgress 书籍阅读信息
+   * @param bookId 书籍id
    * @returns {Promise<void>}
    */
   async addReadingProgress(bookId: string): Promise<ReadingProgress> {
@@ -230,6 +246,132 @@ class BookDB extends Dexie {
       await this.addReadingProgress(bookId)
     }
   }
+  /**
+   * 获取书籍的全部句子
+   * @param bookId 书籍id
+   * @returns 按章节、行排列的句子
+   */
+  async getSentences(bookId: string): Promise<SentenceRecord[]> {
+    const sentences = await this.sentences.where('bookId').equals(bookId).toArray()
+    return sentences.sort((a, b) => a.chapterIndex - b.chapterIndex || a.lineIndex - b.lineIndex)
+  }
+
+  /**
+   * 获取句子
+   * @param bookId 书籍id
+   * @param id 句子id
+   * @returns 句子 || null, 重新分句或修改章节后旧 id 可能失效
+   */
+  async getSentence(bookId: string, id: string): Promise<SentenceRecord | null> {
+    return (await this.sentences.get([bookId, id])) ?? null
+  }
+
+  /**
+   * 按书籍当前的章节与分句语言重新建立句子索引
+   * 修改章节或分句语言后调用, 阅读位置按内容锚点迁移到新的句子
+   * @param bookId 书籍id
+   * @returns 按内容迁移位置的函数, 用于迁移书签
+   * @throws {Error} 当书籍不存在时抛出异常
+   */
+  async indexSentences(bookId: string): Promise<<T extends ContentLocation>(location: T) => T> {
+    const book = await this.getBook(bookId)
+    if (!book) throw new Error('Book not found')
+    return this.replaceContentSentences(bookId, await this.getSentences(bookId), await segmentBook(book))
+  }
+
+  /**
+   * 以新版本文件的内容更新书籍
+   * 保留书籍id、添加时间以及书名、作者、分句语言等可编辑的信息, 阅读位置按内容锚点迁移到新的句子
+   * @param bookId 书籍id
+   * @param imported 新版本文件解析后的书籍及句子索引
+   * @returns 新旧内容的差异、阅读位置是否迁移成功, 以及迁移书签与翻译所用的函数
+   * @throws {Error} 当书籍不存在、文件与当前版本相同或已作为其他书籍导入时抛出异常
+   */
+  async updateBookContent(bookId: string, imported: ImportedBook): Promise<{
+    diff: BookContentDiff,
+    progressMapped: boolean,
+    relocate: <T extends ContentLocation>(location: T) => T
+  }> {
+    const current = await this.getBook(bookId)
+    if (!current) throw new Error('Book not found')
+    if (imported.book.fileHash === current.fileHash) throw new Error('Book file unchanged')
+    const exists = await this.books.where('fileHash').equals(imported.book.fileHash).first()
+    if (exists) throw new Error('Book already exists')
+
+    const book: Book = {
+      ...imported.book,
+      id: bookId,
+      createTime: current.createTime,
+      title: current.title,
+      author: current.author,
+      segmentLanguage: current.segmentLanguage
+    }
+    // 导入时按新文件的语言分句, 书籍指定了其他分句语言时重新分句
+    const sentences = getBookSegmentLanguage(book) === getBookSegmentLanguage(imported.book)
+      ? imported.sentences.map(sentence => ({ ...sentence, bookId }))
+      : await segmentBook(book)
+    const oldSentences = await this.getSentences(bookId)
+    const diff = diffBookContent(current, oldSentences, book, sentences)
+
+    // 书籍内容、句子索引与阅读位置一起写入, 避免新内容与旧索引并存
+    return this.transaction('rw', this.books, this.sentences, this.readingProgress, async () => {
+      await this.books.put(book)
+      const relocate = await this.replaceContentSentences(bookId, oldSentences, sentences)
+      const readingProgress = await this.readingProgress.get(bookId)
+      return {
+        diff,
+        progressMapped: !!readingProgress?.currentLocation.anchor,
+        relocate
+      }
+    })
+  }
+
+  // 替换句子索引, 阅读位置按内容锚点迁移, 章节行缓存随之作废; 句子与阅读位置在同一事务中写入
+  private async replaceContentSentences(bookId: string, oldSentences: SentenceRecord[], sentences: SentenceRecord[]): Promise<<T extends ContentLocation>(location: T) => T> {
+    return this.transaction('rw', this.sentences, this.readingProgress, async () => {
+      await this.replaceSentences(bookId, sentences)
+      // 旧的位置只记录了行下标时, 先按编辑前的句子补全锚点
+      const relocate = createContentRelocator(sentences, oldSentences)
+      const readingProgress = await this.readingProgress.get(bookId)
+      if (readingProgress) {
+        await this.readingProgress.update(bookId, {
+          sentenceChapters: {},
+          sentenceIds: {},
+          currentLocation: relocate(readingProgress.currentLocation)
+        })
+      }
+      return relocate
+    })
+  }
+
+  /**
+   * 按内容重新定位阅读位置或书签
+   * 句子 id 仍指向锚定的内容时不读取整书句子
+   * @param bookId 书籍id
+   * @param locations 阅读位置或书签
+   * @returns 重新定位后的位置
+   */
+  async relocateLocations<T extends ContentLocation>(bookId: string, locations: T[]): Promise<T[]> {
+    let relocate: ReturnType<typeof createContentRelocator> | null = null
+    const result: T[] = []
+    for (const location of locations) {
+      const sentence = location.sentenceId ? await this.getSentence(bookId, location.sentenceId) : null
+      if (sentence && isAnchoredSentence(sentence, location.anchor)) {
+        result.push({ ...location, chapterIndex: sentence.chapterIndex, lineIndex: sentence.lineIndex })
+        continue
+      }
+      if (!relocate) relocate = createContentRelocator(await this.getSentences(bookId))
+      result.push(relocate(location))
+    }
+    return result
+  }
+
+  private async replaceSentences(bookId: string, sentences: SentenceRecord[]): Promise<void> {
+    await this.transaction('rw', this.sentences, async () => {
+      await this.sentences.where('bookId').equals(bookId).delete()
+      await this.sentences.bulkAdd(sentences)
+    })
+  }
   /**
    * 删除书籍阅读信息
    * @param bookId 书籍id
@@ -252,8 +394,13 @@ class BookDB extends Dexie {
     if (!exists) {
       throw new Error('Reading progress not found')
     }
+    const { chapterIndex, lineIndex } = currentLocation
+    const sentenceId = exists.sentenceIds?.[chapterIndex]?.[lineIndex] || undefined
+    // 章节行尚未生成时没有锚点, 读取阅读位置时补上
+    const lines = exists.sentenceChapters[chapterIndex]
+    const anchor = lines ? createContentAnchor(lines, lineIndex) : undefined
     await this.readingProgress.update(bookId, {
-      currentLocation,
+      currentLocation: { chapterIndex, lineIndex, sentenceId, anchor },
       lastReadTime: Date.now()
     })
     await this.updateSentenceChapters(bookId, exists)
@@ -278,72 +425,83 @@ class BookDB extends Dexie {
     const readingProgress = await this.readingProgress.get(bookId)
     if (!readingProgress) throw new Error('Reading progress not found')
     try {
+      // 句子 id 失效(书籍编辑、章节重排、重新分句)时按内容锚点重新定位
+      const [location] = await this.relocateLocations(bookId, [readingProgress.currentLocation])
+      if (!isSameLocation(location, readingProgress.currentLocation)) {
+        await this.readingProgress.update(bookId, { currentLocation: location })
+        readingProgress.currentLocation = location
+      }
       await this.updateSentenceChapters(bookId, readingProgress)
       const updatedProgress = await this.readingProgress.get(bookId)
-      if (updatedProgress) return updatedProgress
-      else throw new Error('Reading progress not found')
+      if (!updatedProgress) throw new Error('Reading progress not found')
+
+      // 没有句子 id 或锚点的旧阅读位置按当前行补上
+      const { chapterIndex, lineIndex, sentenceId, anchor } = updatedProgress.currentLocation
+      if (sentenceId && anchor) return updatedProgress
+      const lines = updatedProgress.sentenceChapters[chapterIndex] ?? []
+      const currentLocation = {
+        chapterIndex,
+        lineIndex,
+        sentenceId: sentenceId || updatedProgress.sentenceIds?.[chapterIndex]?.[lineIndex] || undefined,
+        anchor: anchor ?? createContentAnchor(lines, lineIndex)
+      }
+      if (currentLocation.sentenceId === sentenceId && currentLocation.anchor === anchor) return updatedProgress
+      await this.readingProgress.update(bookId, { currentLocation })
+      return { ...updatedProgress, currentLocation }
     } catch (error) {
       throw new Error("Error in getCurrentLocation:" + error)
     }
   }
   /**
    * 更新sentenceChapters
-   * 
+   * 由句子索引还原当前章节的行, 没有索引的旧书先整书建立索引
    */
   async updateSentenceChapters(bookId: string, readingProgress: ReadingProgress): Promise<void> {
-    return new Promise(async (resolve) => {
-      const { chapterIndex } = readingProgress.currentLocation
-      const sentenceChapters = readingProgress.sentenceChapters
-
-      const isLines = sentenceChapters[chapterIndex]
-      if (!isLines) {
-        const book = await this.getBook(bookId)
-        if (!book) throw new Error('Book not found')
-        const lines = paragraphs2Lines(book, chapterIndex)
-        await this.readingProgress.update(bookId, { sentenceChapters: { ...sentenceChapters, [chapterIndex]: lines } })
-      }
-      resolve()
+    const { chapterIndex } = readingProgress.currentLocation
+    const { sentenceChapters, sentenceIds = {} } = readingProgress
+
+    const isLines = sentenceChapters[chapterIndex] && sentenceIds[chapterIndex]
+    if (isLines) return
+
+    const book = await this.getBook(bookId)
+    if (!book) throw new Error('Book not found')
+    let sentences = await this.sentences.where('[bookId+chapterIndex]').equals([bookId, chapterIndex]).toArray()
+    if (sentences.length === 0 && (await this.sentences.where('bookId').equals(bookId).count()) === 0) {
+      await this.replaceSentences(bookId, await segmentBook(book))
+      sentences = await this.sentences.where('[bookId+chapterIndex]').equals([bookId, chapterIndex]).toArray()
+    }
+    const { lines, ids } = sentenceRecordsToLines(sentences, book.chapterList[chapterIndex]?.paragraphs.length ?? 0)
+    await this.readingProgress.update(bookId, {
+      sentenceChapters: { ...sentenceChapters, [chapterIndex]: lines },
+      sentenceIds: { ...sentenceIds, [chapterIndex]: ids }
     })
   }
 }
 
+// 整书分句, 每章交给 Worker 处理
+async function segmentBook(book: Book): Promise<SentenceRecord[]> {
+  const language = getBookSegmentLanguage(book)
+  const sentences: SentenceRecord[] = []
+  for (const [chapterIndex, chapter] of book.chapterList.entries()) {
+    const lines = await segmentParagraphs(chapter.paragraphs, language)
+    sentences.push(...createSentenceRecords(book.id, chapterIndex, chapter.paragraphs, lines))
+  }
+  return sentences
+}
+
+function isSameLocation(a: ContentLocation, b: ContentLocation): boolean {
+  return a.chapterIndex === b.chapterIndex && a.lineIndex === b.lineIndex && a.sentenceId === b.sentenceId
+}
+
 function getBookPreview(books: Book[]): BookPreview[] {
   return books.map(book => ({
     id: book.id,
     title: book.title,
     author: book.author,
-    cover: book.metadata.cover
+    cover: book.metadata.thumbnail ?? book.metadata.cover
   }))
 }
 
-function paragraphs2Lines(book: Book, chapterIndex: number): string[] {
-  const { paragraphs } = book.chapterList[chapterIndex]
-
-  const allSentences: string[] = []
-  paragraphs.forEach(paragraph => {
-    // 判断是否主要为中文文本
-    const isChinese = /[\u4e00-\u9fa5]/.test(paragraph)
-    let sentences: string[] = []
-    if (isChinese) sentences = paragraph.match(/[^。！？]+[。！？]/g) || []
-    else {
-      // 处理英文句子
-      const doc = nlp(paragraph)
-      sentences = doc.sentences().out('array')
-    }
-    allSentences.push(...sentences, 'EOB')
-  })
-
-  return allSentences.reduce((acc, sentence) => {
-    if (sentence === 'EOB') {
-      acc.push('')
-      return acc
-    }
-    acc.push(sentence)
-    return acc
-  }, [] as string[])
-}
-
-
 const db = new BookDB()
 
 export default db
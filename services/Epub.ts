@@ -1,35 +1,97 @@
 import * as cheerio from 'cheerio';
 
-import type { AnyNode } from 'domhandler';
+import type { AnyNode, Element } from 'domhandler';
 import { unzipSync, strFromU8, Unzipped } from 'fflate';
 
-import type { FormattedBook, PlainTextChapter, Metadata, Resource } from '@/types/book';
+import type { ChapterNote, ChapterParagraph, FormattedBook, ImageBlock, ImportProgressHandler, PlainTextChapter, Metadata, Resource, RichParagraph, TocItem } from '@/types/book';
+import { getParagraphText, htmlToParagraph } from '@/utils/paragraph';
 
 
 interface EpubManifestItem {
   id: string;
   href: string;
   mediaType: string;
+  properties?: string;
 }
 
 type EpubSpineList = string[];
 
 type EpubManifestList = EpubManifestItem[];
 
+interface EpubContentFile {
+  path: string; // 在 zip 中的完整路径
+  xml: string;
+}
+
+// 目录(nav.xhtml / toc.ncx)中的一项
+interface EpubNavPoint {
+  title: string;
+  path: string; // 指向文件在 zip 中的完整路径, 无链接时为空
+  fragment: string; // 锚点 id, 指向文件开头时为空
+  children: EpubNavPoint[];
+}
+
+// 内容文件按目录锚点切分后的片段
+interface EpubSegment {
+  path: string;
+  fragment: string;
+  heading: string; // 片段内第一个 h1/h2
+  docTitle: string; // 文件的 <title>, 只记录在文件的第一个片段上
+  paragraphs: ChapterParagraph[];
+  notes: ChapterNote[];
+}
+
+// 全书的脚注/尾注
+interface EpubNotes {
+  contents: Map<string, string>; // 注释 key(文件路径#id) -> 注释正文
+  bodies: Set<Element>; // 注释正文元素, 不作为正文段落
+  documents: Map<string, cheerio.CheerioAPI>; // 收集注释时已解析的内容文件, 切分时复用
+}
+
+// 读取图片资源, 返回其在 Book.resources 中的键, 资源不存在时返回 null
+type EpubImageLoader = (path: string) => string | null
+
+const NCX_MEDIA_TYPE = 'application/x-dtbncx+xml'
+
+// 注释正文与注释区块的 epub:type 及 DPUB-ARIA role
+const NOTE_TYPES = ['footnote', 'endnote', 'rearnote', 'note']
+const NOTE_ROLES = ['doc-footnote', 'doc-endnote']
+const NOTE_CONTAINER_TYPES = ['footnotes', 'endnotes', 'rearnotes']
+const NOTE_CONTAINER_ROLES = ['doc-endnotes']
+// 不含这些标记的内容文件没有注释, 无需额外解析
+const NOTE_MARKER = /noteref|footnote|endnote|rearnote|epub:type="note"/
+
+const IMAGE_MEDIA_TYPES: Record<string, string> = {
+  'jpeg': 'image/jpeg',
+  'jpg': 'image/jpeg',
+  'png': 'image/png',
+  'gif': 'image/gif',
+  'webp': 'image/webp',
+  'svg': 'image/svg+xml',
+  'bmp': 'image/bmp'
+}
+
 
 /**
  * 初始化 Epub 书籍
+ * 优先使用 EPUB3 的 nav.xhtml 或 EPUB2 的 toc.ncx 作为目录, 并按目录中的锚点切分内容文件;
+ * 没有目录时退回按 spine 文件划分章节
+ * 正文中的图片保留为图片段落, 图片数据按 manifest href 去重后存入 resources
  * @param buffer - Epub 文件的 Buffer 对象
+ * @param onProgress - 进度回调, 报告解压与逐个内容文件的解析进度
  * @returns 格式化后的书籍对象 {
  *  metadata: Metadata,
- *  chapterList: PlainTextChapter[]
+ *  chapterList: PlainTextChapter[],
+ *  toc?: TocItem[],
+ *  resources?: Record<string, Resource>
  * }
  */
-export function initEpubBook(buffer: Buffer): FormattedBook {
+export function initEpubBook(buffer: Buffer, onProgress?: ImportProgressHandler): FormattedBook {
   if (!isValidEpub(buffer)) {
     throw new Error('Invalid EPUB format');
   }
 
+  onProgress?.({ stage: 'unzip' })
   const unzipped: Unzipped = unzipSync(new Uint8Array(buffer));
   const commonPrefix = getPrefixes(unzipped)
   const containerXML = strFromU8(unzipped['META-INF/container.xml'])
@@ -40,10 +102,11 @@ export function initEpubBook(buffer: Buffer): FormattedBook {
     throw new Error('Full path not found')
   }
 
+  const opfDir = getDirname(fullPath)
   const $content = cheerio.load(strFromU8(unzipped[fullPath]), { xml: true })
 
   const $metadata = $content('metadata:first')
-  const metadata = initMetadata($metadata, unzipped)
+  const metadata = initMetadata($metadata)
 
   const $manifest = $content('manifest')
   const manifest = initManifest($manifest)
@@ -58,87 +121,623 @@ export function initEpubBook(buffer: Buffer): FormattedBook {
       throw new Error(`Manifest item not found: ${id}`)
     }
     return item
+  }).filter(isHTMLItem)
+
+  const contentFiles: EpubContentFile[] = sortChapters.map((item) => {
+    const file = readContentFile(unzipped, opfDir, item.href, commonPrefix)
+    if (!file) {
+      console.error(`Content file not found: ${item.href}`)
+      return { path: resolvePath(opfDir, item.href), xml: '' }
+    }
+    return file
   })
 
-  const chapterXMLs = sortChapters.map((item) => {
-    const possiblePrefixesList = [commonPrefix, 'OEBPS/', 'EPUB/', 'OPS/', '']
-    let contentXML = ''
+  metadata.cover = initCover($content, manifest, unzipped, opfDir, commonPrefix, contentFiles)
+
+  const navPoints = initNavPoints($content, manifest, unzipped, opfDir, commonPrefix)
+  const resources: Record<string, Resource> = {}
+  const loadImage = createImageLoader(unzipped, manifest, opfDir, resources)
+  const { chapterList, toc } = buildChapters(contentFiles, navPoints, loadImage, onProgress)
 
-    const hrefs: string[] = []
-    try {
-      hrefs.push(decodeURIComponent(item.href))
-    } catch (e) {
-      console.warn(`Decode href failed: ${item.href}`)
+  // 空章节
+  if (chapterList.length === 0) {
+    return {
+      metadata: metadata as FormattedBook['metadata'],
+      chapterList: [{
+        title: '书籍获取章节失败',
+        paragraphs: [Object.keys(unzipped).join('\n')]
+      }]
     }
-    hrefs.push(item.href)
-
-    for (const prefix of possiblePrefixesList) {
-      for (const href of hrefs) {
-        const fullPath = prefix + href
-        if (fullPath in unzipped) {
-          contentXML = strFromU8(unzipped[fullPath])
-          break
-        }
-      }
-      if (contentXML !== '') break
+  }
+
+  return {
+    metadata: metadata as FormattedBook['metadata'],
+    chapterList,
+    toc,
+    resources: Object.keys(resources).length > 0 ? resources : undefined
+  }
+}
+
+/**
+ * 将内容文件按目录切分、合并为章节, 并生成层级目录
+ * - 目录指向的片段各自成章, 章节标题取最后一个(最深的)指向它的目录项
+ * - 目录未指向的片段: 有 h1/h2 标题时单独成章并补入一级目录, 否则并入上一章(如被拆分成多个文件的长章节)
+ * - 没有正文的片段(如只有标题的"部"扉页)不单独成章, 其目录项指向下一个章节
+ * - 脚注/尾注不作为正文, 挂在引用它的段落上
+ */
+function buildChapters(
+  files: EpubContentFile[],
+  navPoints: EpubNavPoint[],
+  loadImage: EpubImageLoader,
+  onProgress?: ImportProgressHandler
+): { chapterList: PlainTextChapter[], toc?: TocItem[] } {
+  const flatPoints = flattenNavPoints(navPoints)
+  const hasNav = flatPoints.some(point => point.path !== '')
+
+  const anchorsByPath = new Map<string, Set<string>>()
+  flatPoints.forEach(point => {
+    if (!point.path || !point.fragment) return
+    if (!anchorsByPath.has(point.path)) anchorsByPath.set(point.path, new Set())
+    anchorsByPath.get(point.path)!.add(point.fragment)
+  })
+
+  const notes = collectNotes(files)
+  const segments = files.flatMap((file, index) => {
+    onProgress?.({ stage: 'parse', current: index, total: files.length })
+    return splitContentFile(file, loadImage, notes, anchorsByPath.get(file.path))
+  })
+
+  // 目录项 -> 片段下标
+  const pointSegment = new Map<EpubNavPoint, number>()
+  const segmentTitles = new Map<number, string>()
+  flatPoints.forEach(point => {
+    const segmentIndex = findSegmentIndex(segments, point)
+    if (segmentIndex === -1) return
+    pointSegment.set(point, segmentIndex)
+    if (point.title) segmentTitles.set(segmentIndex, point.title)
+  })
+
+  const chapterList: PlainTextChapter[] = []
+  const segmentChapter: number[] = []
+  // 不在目录中但单独成章的章节, 需要补入目录
+  const standaloneChapters: number[] = []
+  let pendingSegments: number[] = []
+  let pendingTitle = ''
+
+  segments.forEach((segment, i) => {
+    const navTitle = segmentTitles.get(i)
+
+    if (segment.paragraphs.length === 0) {
+      if (navTitle) pendingTitle = navTitle
+      pendingSegments.push(i)
+      return
     }
 
-    if (contentXML === '') {
-      console.error(`Content file not found: ${item.href}`)
+    const fallbackTitle = hasNav
+      ? segment.heading
+      : segment.heading || segment.docTitle
+    let title = navTitle || pendingTitle
+
+    if (!title && chapterList.length > 0 && !fallbackTitle) {
+      // 并入上一章
+      appendSegment(chapterList[chapterList.length - 1], segment)
+      segmentChapter[i] = chapterList.length - 1
+      pendingSegments.forEach(index => segmentChapter[index] = chapterList.length - 1)
+      pendingSegments = []
+      return
     }
 
-    return contentXML
+    if (!title) {
+      title = !fallbackTitle || fallbackTitle.toLowerCase() === 'unknown'
+        ? String(chapterList.length + 1)
+        : fallbackTitle
+      standaloneChapters.push(chapterList.length)
+    }
+
+    const chapter: PlainTextChapter = { title, paragraphs: [] }
+    appendSegment(chapter, segment)
+    chapterList.push(chapter)
+    segmentChapter[i] = chapterList.length - 1
+    pendingSegments.forEach(index => segmentChapter[index] = chapterList.length - 1)
+    pendingSegments = []
+    pendingTitle = ''
   })
+  // 末尾没有正文的片段指向最后一章
+  pendingSegments.forEach(index => segmentChapter[index] = Math.max(chapterList.length - 1, 0))
 
-  const chapterList: PlainTextChapter[] = []
-  let chapterCounter = 1
-  for (const item of chapterXMLs) {
-    const $ = cheerio.load(item, { xml: true })
-    const originalTitle = $('h1').first().text() ||
-      $('title').first().text() ||
-      $('h2').first().text() ||
-      '';
-    if (!originalTitle || originalTitle === '') continue
-    const paragraphs: string[] = []
-    $('p').each((_, p) => {
-      const text = $(p).text()
-      if (text.trim() !== '') {
-        paragraphs.push(text)
-      }
-    })
+  if (!hasNav || chapterList.length === 0) {
+    return { chapterList }
+  }
+
+  const buildToc = (points: EpubNavPoint[]): TocItem[] => points.flatMap(point => {
+    const children = buildToc(point.children)
+    const segmentIndex = pointSegment.get(point)
+    const index = segmentIndex !== undefined ? segmentChapter[segmentIndex] : children[0]?.index
+    // 指向 spine 之外且没有子项的目录项无法定位, 丢弃
+    if (index === undefined) return []
+    const title = point.title || chapterList[index].title
+    return [children.length > 0 ? { title, index, children } : { title, index }]
+  })
+
+  const toc = buildToc(navPoints)
+  if (toc.length === 0) {
+    return { chapterList }
+  }
+
+  standaloneChapters.forEach(index => {
+    const position = toc.findIndex(item => item.index > index)
+    const item = { title: chapterList[index].title, index }
+    if (position === -1) toc.push(item)
+    else toc.splice(position, 0, item)
+  })
+
+  return { chapterList, toc }
+}
 
-    if (paragraphs.length === 0) continue
+function appendSegment(chapter: PlainTextChapter, segment: EpubSegment) {
+  const base = chapter.paragraphs.length
+  chapter.paragraphs.push(...segment.paragraphs)
+  if (segment.notes.length > 0) {
+    chapter.notes = [
+      ...(chapter.notes ?? []),
+      ...segment.notes.map(note => ({ ...note, paragraph: note.paragraph + base }))
+    ]
+  }
+}
 
-    let finalTitle: string;
-    if (originalTitle.toLowerCase() === 'unknown') {
-      finalTitle = String(chapterCounter);
-    } else {
-      finalTitle = originalTitle;
+/**
+ * 收集全部内容文件中的脚注/尾注
+ * 注释正文为带 footnote/endnote 等 epub:type(或 DPUB-ARIA role)的元素, 以及 noteref 链接指向的元素
+ */
+function collectNotes(files: EpubContentFile[]): EpubNotes {
+  const notes: EpubNotes = { contents: new Map(), bodies: new Set(), documents: new Map() }
+  const loadDocument = (path: string) => {
+    if (!notes.documents.has(path)) {
+      const file = files.find(file => file.path === path)
+      if (!file) return null
+      notes.documents.set(path, cheerio.load(file.xml, { xml: true }))
     }
+    return notes.documents.get(path)!
+  }
+  const addNote = ($: cheerio.CheerioAPI, path: string, element: Element) => {
+    const key = `${path}#${element.attribs.id}`
+    if (notes.contents.has(key)) return
+    // EPUB2 常见写法 <p><a id="n1" href="#r1">1</a> 注释</p>, 锚点所在段落才是注释正文
+    const body = ['a', 'span', 'sup'].includes(element.name)
+      ? $(element).parents('p, li, aside, div').toArray()[0] ?? element
+      : element
+    notes.contents.set(key, getNoteText($, body))
+    notes.bodies.add(body)
+  }
 
-    chapterList.push({
-      title: finalTitle,
-      paragraphs
+  const refTargets = new Set<string>()
+  files.forEach(file => {
+    if (!NOTE_MARKER.test(file.xml)) return
+    const $ = loadDocument(file.path)!
+    const baseDir = getDirname(file.path)
+    $('[id]').each((_, element) => {
+      if (isNoteBody(element)) addNote($, file.path, element)
+    })
+    $('a[href]').each((_, element) => {
+      if (!hasToken(element.attribs['epub:type'], ['noteref']) && !hasToken(element.attribs.role, ['doc-noteref'])) return
+      const { path, fragment } = resolveHref(baseDir, element.attribs.href)
+      if (fragment) refTargets.add(`${path || file.path}#${fragment}`)
     })
+  })
 
-    chapterCounter++;
+  // noteref 指向的元素没有标注类型时, 同样视为注释正文
+  refTargets.forEach(key => {
+    if (notes.contents.has(key)) return
+    const hashIndex = key.indexOf('#')
+    const path = key.slice(0, hashIndex)
+    const id = key.slice(hashIndex + 1)
+    const $ = loadDocument(path)
+    const target = $?.('[id]').toArray().find(element => element.attribs.id === id)
+    if ($ && target) addNote($, path, target)
+  })
+
+  return notes
+}
+
+function getNoteText($: cheerio.CheerioAPI, body: Element): string {
+  const $body = $(body).clone()
+  // 去掉注释中返回正文的链接
+  $body.find('a').filter((_, element) =>
+    hasToken(element.attribs['epub:type'], ['backlink']) || hasToken(element.attribs.role, ['doc-backlink'])
+  ).remove()
+  return normalizeTitle($body.text())
+}
+
+function isNoteBody(element: Element): boolean {
+  return hasToken(element.attribs['epub:type'], NOTE_TYPES) || hasToken(element.attribs.role, NOTE_ROLES)
+}
+
+function isNoteContainer(element: Element): boolean {
+  return hasToken(element.attribs['epub:type'], NOTE_CONTAINER_TYPES) || hasToken(element.attribs.role, NOTE_CONTAINER_ROLES)
+}
+
+function hasToken(value: string | undefined, tokens: string[]): boolean {
+  return (value || '').split(/\s+/).some(token => tokens.includes(token))
+}
+
+/**
+ * 读取段落(保留行内格式), 同时移除指向注释的引用标记并记录其位置
+ */
+function extractParagraph(
+  $: cheerio.CheerioAPI,
+  element: Element,
+  path: string,
+  notes: EpubNotes
+): { paragraph: string | RichParagraph, refs: Omit<ChapterNote, 'paragraph'>[] } {
+  const baseDir = getDirname(path)
+  const refs: Omit<ChapterNote, 'paragraph'>[] = []
+
+  const paragraph = htmlToParagraph(element, (node, offset) => {
+    if (node.name !== 'a' || !node.attribs.href) return false
+    const { path: target, fragment } = resolveHref(baseDir, node.attribs.href)
+    const content = fragment ? notes.contents.get(`${target || path}#${fragment}`) : undefined
+    if (content === undefined) return false
+    // 标记两侧的括号由阅读区统一添加
+    const label = normalizeTitle($(node).text()).replace(/^[[(（【]|[\])）】]$/g, '')
+    refs.push({ offset, label, content })
+    return true
+  })
+
+  return { paragraph, refs }
+}
+
+/**
+ * 按目录锚点切分内容文件
+ * 按文档顺序遍历 body, 遇到被目录引用的 id 时开始新的片段
+ * 图片(<img>、SVG 中的 <image>)作为独立段落, 段落内的图片排在段落文字之后
+ */
+function splitContentFile(file: EpubContentFile, loadImage: EpubImageLoader, notes: EpubNotes, anchors?: Set<string>): EpubSegment[] {
+  const $ = notes.documents.get(file.path) ?? cheerio.load(file.xml, { xml: true })
+  const baseDir = getDirname(file.path)
+  const $body: cheerio.Cheerio<AnyNode> = $('body').length > 0 ? $('body').first() : $.root()
+  const segments: EpubSegment[] = []
+  const consumed = new Set<string>()
+  let current = createSegment(file.path, '')
+  current.docTitle = $('title').first().text().trim()
+
+  const getAnchorIds = (element: Element) => {
+    const ids = [element.attribs.id]
+    if (element.name === 'a') ids.push(element.attribs.name)
+    return ids.filter((id): id is string => !!id && !!anchors?.has(id) && !consumed.has(id))
   }
 
-  // 空章节
-  if (chapterList.length === 0) {
-    chapterList.push({
-      title: '书籍获取章节失败',
-      paragraphs: [Object.keys(unzipped).join('\n')]
-    })
+  const isInNote = (element: Element) => {
+    for (let node: Element | null = element; node; node = node.parent && 'attribs' in node.parent ? node.parent : null) {
+      if (notes.bodies.has(node) || isNoteContainer(node)) return true
+    }
+    return false
   }
 
+  $body.find('*').each((_, element) => {
+    if (anchors && anchors.size > 0) {
+      // 段落内的锚点(如 <p><a id="x"/>...</p>)需要在取段落文本之前切分
+      const candidates = element.name === 'p'
+        ? [element, ...$(element).find('[id], a[name]').toArray()]
+        : [element]
+      candidates.forEach(candidate => {
+        getAnchorIds(candidate).forEach(id => {
+          consumed.add(id)
+          segments.push(current)
+          current = createSegment(file.path, id)
+        })
+      })
+    }
+
+    if (isInNote(element)) return
+
+    if ((element.name === 'h1' || element.name === 'h2') && !current.heading) {
+      current.heading = $(element).text().trim()
+    }
+
+    if (element.name === 'p') {
+      // 图注随图片一起保存, 不作为正文段落
+      if ($(element).closest('figcaption').length > 0) return
+      const { paragraph, refs } = extractParagraph($, element, file.path, notes)
+      if (getParagraphText(paragraph).trim() !== '') {
+        refs.forEach(ref => current.notes.push({ paragraph: current.paragraphs.length, ...ref }))
+        current.paragraphs.push(paragraph)
+      }
+      $(element).find('img, image').each((_, image) => {
+        const block = toImageBlock($, image, baseDir, loadImage)
+        if (block) current.paragraphs.push(block)
+      })
+    }
+
+    if ((element.name === 'img' || element.name === 'image') && $(element).closest('p').length === 0) {
+      const block = toImageBlock($, element, baseDir, loadImage)
+      if (block) current.paragraphs.push(block)
+    }
+  })
+  segments.push(current)
+
+  return segments
+}
+
+function toImageBlock($: cheerio.CheerioAPI, element: Element, baseDir: string, loadImage: EpubImageLoader): ImageBlock | null {
+  const src = getImageSrc(element)
+  if (!src) return null
+  const key = loadImage(resolvePath(baseDir, src))
+  if (!key) return null
+
+  const alt = (element.attribs.alt || '').trim()
+  const caption = normalizeTitle($(element).closest('figure').find('figcaption').first().text())
   return {
-    metadata: metadata as FormattedBook['metadata'],
-    chapterList
+    type: 'image',
+    src: key,
+    ...(alt ? { alt } : {}),
+    ...(caption ? { caption } : {})
+  }
+}
+
+/**
+ * 创建图片读取函数
+ * 同一图片只读取一次, 资源键优先使用 manifest 中的 href, 不在 manifest 中时使用 zip 内路径
+ */
+function createImageLoader(
+  unzipped: Unzipped,
+  manifest: EpubManifestList,
+  opfDir: string,
+  resources: Record<string, Resource>
+): EpubImageLoader {
+  const manifestByPath = new Map(manifest.map(item => [resolvePath(opfDir, item.href), item]))
+
+  return (path: string) => {
+    if (!(path in unzipped)) return null
+    const item = manifestByPath.get(path)
+    const key = item ? item.href : path
+    if (!resources[key]) {
+      const resource = readImage(unzipped, path, item?.mediaType)
+      if (!resource) return null
+      resources[key] = resource
+    }
+    return key
   }
 }
 
-function initMetadata($metadata: cheerio.Cheerio<AnyNode>, unzipped: Unzipped): Metadata {
+/**
+ * 读取 zip 中的图片, 媒体类型缺省时按扩展名推断
+ */
+function readImage(unzipped: Unzipped, path: string, mediaType?: string): Resource | undefined {
+  if (!(path in unzipped)) return undefined
+  const ext = path.split('.').pop()?.toLowerCase() || ''
+  const type = mediaType || IMAGE_MEDIA_TYPES[ext]
+  if (!type?.startsWith('image/')) return undefined
+  return {
+    data: Buffer.from(unzipped[path]).toString('base64'),
+    mediaType: type
+  }
+}
+
+/**
+ * 按阅读器的通用顺序查找封面
+ * 1. EPUB2 <meta name="cover" content="manifest id">
+ * 2. EPUB3 manifest 中 properties="cover-image" 的项
+ * 3. guide 中 type="cover" 的引用(图片, 或封面页中的第一张图片)
+ * 4. 文件名含 cover 的图片, 最后取第一个内容文件中的第一张图片
+ */
+function initCover(
+  $content: cheerio.CheerioAPI,
+  manifest: EpubManifestList,
+  unzipped: Unzipped,
+  opfDir: string,
+  commonPrefix: string,
+  contentFiles: EpubContentFile[]
+): Resource | undefined {
+  const readManifestImage = (item?: EpubManifestItem) => item
+    ? readImage(unzipped, resolvePath(opfDir, item.href), item.mediaType)
+    : undefined
+
+  // 部分书籍的 content 写的是 href 而不是 id
+  const coverId = $content('metadata meta[name="cover"]').attr('content')
+  const metaCover = coverId
+    ? readManifestImage(manifest.find(item => item.id === coverId) || manifest.find(item => item.href === coverId))
+    : undefined
+  if (metaCover) return metaCover
+
+  const propertyCover = readManifestImage(manifest.find(item => item.properties?.split(/\s+/).includes('cover-image')))
+  if (propertyCover) return propertyCover
+
+  const guideHref = $content('guide reference[type="cover"]').attr('href')
+  if (guideHref) {
+    const { path } = resolveHref(opfDir, guideHref)
+    const guideCover = readImage(unzipped, path) ||
+      findFirstImage(readContentFile(unzipped, opfDir, guideHref.split('#')[0], commonPrefix), unzipped)
+    if (guideCover) return guideCover
+  }
+
+  const namedCover = manifest.find(item => item.mediaType.startsWith('image/') && /cover/i.test(item.href)) ||
+    manifest.find(item => item.mediaType.startsWith('image/') && /cover/i.test(item.id))
+  return readManifestImage(namedCover) || findFirstImage(contentFiles[0], unzipped)
+}
+
+function findFirstImage(file: EpubContentFile | null | undefined, unzipped: Unzipped): Resource | undefined {
+  if (!file || !file.xml) return undefined
+  const $ = cheerio.load(file.xml, { xml: true })
+  const image = $('img, image').toArray()[0]
+  if (!image) return undefined
+  const src = getImageSrc(image)
+  if (!src) return undefined
+  return readImage(unzipped, resolvePath(getDirname(file.path), src))
+}
+
+// <img src> 或 SVG 中的 <image xlink:href>, 内联的 data URI 不处理
+function getImageSrc(element: Element): string {
+  const src = element.name === 'img'
+    ? element.attribs.src
+    : element.attribs['xlink:href'] || element.attribs.href
+  if (!src || src.startsWith('data:')) return ''
+  return src.split('#')[0]
+}
+
+function createSegment(path: string, fragment: string): EpubSegment {
+  return { path, fragment, heading: '', docTitle: '', paragraphs: [], notes: [] }
+}
+
+function findSegmentIndex(segments: EpubSegment[], point: EpubNavPoint): number {
+  if (!point.path) return -1
+  let path = point.path
+  if (!segments.some(segment => segment.path === path)) {
+    // 路径无法精确匹配时, 按文件名匹配唯一的内容文件
+    const fileName = path.split('/').pop()
+    const matched = [...new Set(segments.map(segment => segment.path))]
+      .filter(segmentPath => segmentPath.split('/').pop() === fileName)
+    if (matched.length !== 1) return -1
+    path = matched[0]
+  }
+  const exact = segments.findIndex(segment => segment.path === path && segment.fragment === point.fragment)
+  if (exact !== -1) return exact
+  // 锚点不存在时指向文件开头
+  return segments.findIndex(segment => segment.path === path)
+}
+
+function flattenNavPoints(points: EpubNavPoint[]): EpubNavPoint[] {
+  return points.flatMap(point => [point, ...flattenNavPoints(point.children)])
+}
+
+/**
+ * 读取目录
+ * 优先 EPUB3 的 nav 文档, 其次 EPUB2 的 NCX
+ */
+function initNavPoints(
+  $content: cheerio.CheerioAPI,
+  manifest: EpubManifestList,
+  unzipped: Unzipped,
+  opfDir: string,
+  commonPrefix: string
+): EpubNavPoint[] {
+  const navItem = manifest.find(item => item.properties?.split(/\s+/).includes('nav'))
+  if (navItem) {
+    const file = readContentFile(unzipped, opfDir, navItem.href, commonPrefix)
+    const points = file ? parseNavDocument(file) : []
+    if (points.length > 0) return points
+  }
+
+  const tocId = $content('spine').attr('toc')
+  const ncxItem = manifest.find(item => item.id === tocId) ||
+    manifest.find(item => item.mediaType === NCX_MEDIA_TYPE)
+  if (ncxItem) {
+    const file = readContentFile(unzipped, opfDir, ncxItem.href, commonPrefix)
+    if (file) return parseNCX(file)
+  }
+
+  return []
+}
+
+function parseNavDocument(file: EpubContentFile): EpubNavPoint[] {
+  const $ = cheerio.load(file.xml, { xml: true })
+  const navs = $('nav').toArray()
+  const tocNav = navs.find(nav => (nav.attribs['epub:type'] || '').split(/\s+/).includes('toc')) || navs[0]
+  if (!tocNav) return []
+
+  const baseDir = getDirname(file.path)
+  const walk = ($list: cheerio.Cheerio<Element>): EpubNavPoint[] => $list.children('li').toArray().map(li => {
+    const $li = $(li)
+    const $label = $li.children('a, span').first()
+    return {
+      title: normalizeTitle($label.text()),
+      ...resolveHref(baseDir, $label.attr('href') || ''),
+      children: walk($li.children('ol').first())
+    }
+  })
+
+  return walk($(tocNav).children('ol').first())
+}
+
+function parseNCX(file: EpubContentFile): EpubNavPoint[] {
+  const $ = cheerio.load(file.xml, { xml: true })
+  const baseDir = getDirname(file.path)
+  const walk = ($parent: cheerio.Cheerio<Element>): EpubNavPoint[] => $parent.children('navPoint').toArray().map(navPoint => {
+    const $navPoint = $(navPoint)
+    return {
+      title: normalizeTitle($navPoint.children('navLabel').first().find('text').first().text()),
+      ...resolveHref(baseDir, $navPoint.children('content').attr('src') || ''),
+      children: walk($navPoint)
+    }
+  })
+
+  return walk($('navMap').first())
+}
+
+function normalizeTitle(title: string): string {
+  return title.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * 读取 manifest 中 href 指向的文件
+ * href 相对于 OPF 文件所在目录; 找不到时兼容旧的前缀猜测方式
+ */
+function readContentFile(unzipped: Unzipped, opfDir: string, href: string, commonPrefix: string): EpubContentFile | null {
+  const candidates = [resolvePath(opfDir, href)]
+
+  const possiblePrefixesList = [commonPrefix, 'OEBPS/', 'EPUB/', 'OPS/', '']
+  const hrefs: string[] = []
+  try {
+    hrefs.push(decodeURIComponent(href))
+  } catch (e) {
+    console.warn(`Decode href failed: ${href}`)
+  }
+  hrefs.push(href)
+  for (const prefix of possiblePrefixesList) {
+    for (const item of hrefs) {
+      candidates.push(prefix + item)
+    }
+  }
+
+  const path = candidates.find(candidate => candidate in unzipped)
+  if (!path) return null
+  return { path, xml: strFromU8(unzipped[path]) }
+}
+
+function resolveHref(baseDir: string, href: string): { path: string, fragment: string } {
+  const hashIndex = href.indexOf('#')
+  const pathPart = hashIndex === -1 ? href : href.slice(0, hashIndex)
+  const fragment = hashIndex === -1 ? '' : safeDecode(href.slice(hashIndex + 1))
+  return {
+    path: pathPart ? resolvePath(baseDir, pathPart) : '',
+    fragment
+  }
+}
+
+/**
+ * 将相对路径解析为 zip 中的完整路径
+ * @example resolvePath('OEBPS/Text/', '../Images/a.png') // 'OEBPS/Images/a.png'
+ */
+function resolvePath(baseDir: string, href: string): string {
+  const parts: string[] = []
+  for (const part of (baseDir + safeDecode(href)).split('/')) {
+    if (part === '' || part === '.') continue
+    if (part === '..') parts.pop()
+    else parts.push(part)
+  }
+  return parts.join('/')
+}
+
+function getDirname(path: string): string {
+  const index = path.lastIndexOf('/')
+  return index === -1 ? '' : path.slice(0, index + 1)
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
+
+function isHTMLItem(item: EpubManifestItem): boolean {
+  return (
+    item.mediaType.includes('application/xhtml+xml') ||
+    item.mediaType.includes('text/html')
+  )
+}
+
+function initMetadata($metadata: cheerio.Cheerio<AnyNode>): Metadata {
   const metaTags = {
     title: ['dc\\:title', 'title'],
     author: ['dc\\:creator', 'creator'],
@@ -157,37 +756,6 @@ function initMetadata($metadata: cheerio.Cheerio<AnyNode>, unzipped: Unzipped):
     }
     return ''
   }
-  function getCover(unzipped: Unzipped): Resource | undefined {
-    const mimeTypes: {
-      [key: string]: string
-    } = {
-      'jpeg': 'image/jpeg',
-      'jpg': 'image/jpeg',
-      'png': 'image/png',
-      'gif': 'image/gif',
-      'webp': 'image/webp'
-    }
-
-    const coverPatterns = [
-      /.*cover.*\.(jpe?g|png|gif|webp)$/i,
-      /\.(jpe?g|png|gif|webp)$/i,
-      /cover/i
-    ]
-
-    for (const pattern of coverPatterns) {
-      const coverUrl = Object.keys(unzipped).find(key => pattern.test(key))
-      if (coverUrl) {
-        const ext = coverUrl.split('.').pop()?.toLowerCase() || 'jpeg'
-        return {
-          data: Buffer.from(unzipped[coverUrl].buffer).toString('base64'),
-          mediaType: mimeTypes[ext] || 'image/jpeg'
-        }
-      }
-    }
-
-    return undefined
-  }
-
   return {
     title: getMetaTag(metaTags.title),
     author: getMetaTag(metaTags.author),
@@ -195,8 +763,7 @@ function initMetadata($metadata: cheerio.Cheerio<AnyNode>, unzipped: Unzipped):
     date: getMetaTag(metaTags.date),
     rights: getMetaTag(metaTags.rights),
     identifier: getMetaTag(metaTags.identifier),
-    language: getMetaTag(metaTags.language),
-    cover: getCover(unzipped)
+    language: getMetaTag(metaTags.language)
   }
 }
 
@@ -207,20 +774,15 @@ function initManifest($manifest: cheerio.Cheerio<AnyNode>): EpubManifestList {
     const id = element.attribs['id'];
     const href = element.attribs['href'];
     const mediaType = element.attribs['media-type'];
+    const properties = element.attribs['properties'];
 
     if (id && href && mediaType) {
-      items.push({ id, href, mediaType });
+      items.push({ id, href, mediaType, properties });
     }
   });
 
-  // 只返回 HTML/XHTML 类型的内容
-  return items.filter(item => {
-    return (
-      item.mediaType.includes('application/xhtml+xml') ||
-      item.mediaType.includes('text/html')
-    )
-  }
-  );
+  // 返回全部资源, 内容文件在读取 spine 时再按 HTML/XHTML 类型过滤
+  return items;
 }
 
 function initSpine($spine: cheerio.Cheerio<AnyNode>): EpubSpineList {
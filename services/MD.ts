@@ -1,11 +1,14 @@
 import MarkdownIt from 'markdown-it'
 import * as cheerio from 'cheerio';
-import { FormattedBook, PlainTextChapter } from "@/types/book";
+import type { Element } from 'domhandler';
+import { ChapterParagraph, FormattedBook, PlainTextChapter, ProcessBookOptions } from "@/types/book";
 import { detectLanguage } from '@/utils/franc';
+import { decodeText } from '@/utils/encoding';
+import { getParagraphText, htmlToParagraph } from '@/utils/paragraph';
 
-export function initMDBook(buffer: Buffer, name: string): FormattedBook {
+export function initMDBook(buffer: Buffer, name: string, options: ProcessBookOptions = {}): FormattedBook {
   const md = new MarkdownIt()
-  const mdString = buffer.toString()
+  const mdString = decodeText(buffer, options.encoding)
   const html = md.render(mdString)
   const $ = cheerio.load(html)
   const title = $('h1').text() || name
@@ -74,26 +77,28 @@ export function initMDBook(buffer: Buffer, name: string): FormattedBook {
 }
 
 /**
- * 从HTML内容中提取段落
+ * 从HTML内容中提取段落(保留强调、加粗、行内代码与链接)
  */
-function extractParagraphs($: cheerio.CheerioAPI, htmlContent: string): string[] {
+function extractParagraphs($: cheerio.CheerioAPI, htmlContent: string): ChapterParagraph[] {
   const $content = cheerio.load(htmlContent)
-  const paragraphs: string[] = []
+  const paragraphs: ChapterParagraph[] = []
+  const pushParagraph = (elem: Element) => {
+    const paragraph = htmlToParagraph(elem)
+    if (typeof paragraph === 'string') {
+      if (paragraph.trim()) paragraphs.push(paragraph.trim())
+    } else if (getParagraphText(paragraph).trim()) {
+      paragraphs.push(paragraph)
+    }
+  }
 
   // 提取所有段落元素
   $content('p').each((_, elem) => {
-    const text = $content(elem).text().trim()
-    if (text) {
-      paragraphs.push(text)
-    }
+    pushParagraph(elem)
   })
 
   // 处理其他可能的内容元素（如列表、引用等）
   $content('li, blockquote').each((_, elem) => {
-    const text = $content(elem).text().trim()
-    if (text) {
-      paragraphs.push(text)
-    }
+    pushParagraph(elem)
   })
 
   return paragraphs
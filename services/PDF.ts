@@ -0,0 +1,313 @@
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+import type { FormattedBook, ImportProgressHandler, PlainTextChapter } from '@/types/book';
+import { detectLanguage } from '@/utils/franc';
+
+interface PDFLine {
+  text: string;
+  x: number;
+  y: number;
+  right: number;
+  height: number;
+  pageIndex: number;
+}
+
+interface PDFOutlineNode {
+  title: string;
+  dest: string | unknown[] | null;
+  items: PDFOutlineNode[];
+}
+
+interface PDFChapterBoundary {
+  title: string;
+  pageIndex: number;
+  lineIndex: number;
+}
+
+// 页眉页脚识别时, 每页只检查最上/最下的行数
+const EDGE_LINE_COUNT = 2;
+// 至少出现在该比例的页面上才视为页眉页脚
+const REPEAT_RATIO = 0.4;
+const PAGE_NUMBER_PATTERN = /^(page\s*)?(\d+|[ivxlc]{1,6})(\s*(\/|of)\s*\d+)?$|^[-–—]\s*\d+\s*[-–—]$|^第\s*\d+\s*页(\s*[/共]\s*\d+\s*页?)?$/i;
+const CJK_PATTERN = /[\u3000-\u303f\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uff00-\uffef]/;
+const SENTENCE_END_PATTERN = /[.!?。！？…"”』」:：)]$/;
+
+/**
+ * 初始化 PDF 书籍
+ * 逐页提取文本层, 去除页眉页脚与页码, 跨行/跨页重建段落, 并按 PDF 目录(outline)划分章节
+ * @param buffer - PDF 文件的 Buffer 对象
+ * @param name - 书籍名称(无 metadata 标题时使用)
+ * @param onProgress - 进度回调, 按页报告解析进度
+ * @returns 格式化后的书籍对象
+ * @throws 当 PDF 无法解析或没有文本层时抛出异常
+ */
+export async function initPDFBook(buffer: Buffer, name: string, onProgress?: ImportProgressHandler): Promise<FormattedBook> {
+  const pdfjs = await import('pdfjs-dist')
+  // 在解析 Worker 中同样需要为 pdf.js 指定其自身的 Worker
+  if (typeof self !== 'undefined' && !pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.js', import.meta.url).toString()
+  }
+
+  const pdf = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    useSystemFonts: true,
+  }).promise
+
+  try {
+    const pages: PDFLine[][] = []
+    for (let i = 0; i < pdf.numPages; i++) {
+      onProgress?.({ stage: 'parse', current: i, total: pdf.numPages })
+      const page = await pdf.getPage(i + 1)
+      pages.push(await getPageLines(page, i))
+      page.cleanup()
+    }
+
+    const lines = removeRunningHeaders(pages).flat()
+    if (lines.length === 0) {
+      throw new Error('PDF has no text layer')
+    }
+
+    const boundaries = await getChapterBoundaries(pdf, lines)
+    const chapterList = splitChapters(lines, boundaries, name)
+
+    const { info } = await pdf.getMetadata().catch(() => ({ info: {} }))
+    const { Title, Author, Subject, Creator, CreationDate } = info as Record<string, string | undefined>
+    const sample = lines.slice(0, 50).map(line => line.text).join(' ')
+
+    return {
+      metadata: {
+        title: Title?.trim() || name,
+        author: Author?.trim() || undefined,
+        publisher: Creator?.trim() || undefined,
+        date: CreationDate ? parsePDFDate(CreationDate) : undefined,
+        description: Subject?.trim() || undefined,
+        language: detectLanguage(sample.slice(0, 500)),
+      },
+      chapterList
+    }
+  } finally {
+    await pdf.destroy()
+  }
+}
+
+/**
+ * 提取单页文本行
+ * pdf.js 的坐标原点在左下角, y 越大越靠上
+ */
+async function getPageLines(page: PDFPageProxy, pageIndex: number): Promise<PDFLine[]> {
+  const content = await page.getTextContent()
+  const lines: PDFLine[] = []
+  let current: PDFLine | null = null
+
+  for (const item of content.items) {
+    if (!('str' in item)) continue
+    const { str, transform, width, hasEOL } = item as TextItem
+    const x = transform[4]
+    const y = transform[5]
+    const height = item.height || Math.abs(transform[3]) || 10
+
+    if (str.trim() !== '') {
+      if (current && Math.abs(current.y - y) <= Math.max(current.height, height) * 0.5) {
+        const gap = x - current.right
+        const needSpace = gap > height * 0.15 &&
+          !current.text.endsWith(' ') &&
+          !(CJK_PATTERN.test(current.text.slice(-1)) && CJK_PATTERN.test(str[0]))
+        current.text += (needSpace ? ' ' : '') + str
+        current.right = Math.max(current.right, x + width)
+        current.height = Math.max(current.height, height)
+      } else {
+        if (current) lines.push(current)
+        current = { text: str, x, y, right: x + width, height, pageIndex }
+      }
+    }
+
+    if (hasEOL && current) {
+      lines.push(current)
+      current = null
+    }
+  }
+  if (current) lines.push(current)
+
+  return lines
+    .map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }))
+    .filter(line => line.text !== '')
+}
+
+/**
+ * 去除页眉页脚与页码
+ * 只检查每页最上和最下的若干行: 纯页码直接去除, 在多页重复出现的文本(数字归一化后)视为页眉页脚
+ */
+function removeRunningHeaders(pages: PDFLine[][]): PDFLine[][] {
+  const normalize = (text: string) => text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, '')
+
+  const edgeLines = (lines: PDFLine[]) => {
+    const sorted = [...lines].sort((a, b) => b.y - a.y)
+    return new Set([...sorted.slice(0, EDGE_LINE_COUNT), ...sorted.slice(-EDGE_LINE_COUNT)])
+  }
+
+  const counter = new Map<string, number>()
+  const pageEdges = pages.map(lines => {
+    const edges = edgeLines(lines)
+    new Set([...edges].map(line => normalize(line.text))).forEach(key => {
+      counter.set(key, (counter.get(key) || 0) + 1)
+    })
+    return edges
+  })
+
+  const minRepeat = Math.max(3, Math.ceil(pages.length * REPEAT_RATIO))
+  return pages.map((lines, i) => lines.filter(line => {
+    if (!pageEdges[i].has(line)) return true
+    if (PAGE_NUMBER_PATTERN.test(line.text)) return false
+    return pages.length < minRepeat || (counter.get(normalize(line.text)) || 0) < minRepeat
+  }))
+}
+
+/**
+ * 根据 PDF 目录获取章节起点
+ * 目录只能定位到页, 再在该页中匹配标题文本以定位到行
+ */
+async function getChapterBoundaries(pdf: PDFDocumentProxy, lines: PDFLine[]): Promise<PDFChapterBoundary[]> {
+  const outline = await pdf.getOutline().catch(() => null) as PDFOutlineNode[] | null
+  if (!outline || outline.length === 0) return []
+
+  const flatOutline: PDFOutlineNode[] = []
+  const walk = (nodes: PDFOutlineNode[]) => nodes.forEach(node => {
+    flatOutline.push(node)
+    if (node.items?.length) walk(node.items)
+  })
+  walk(outline)
+
+  const boundaries: PDFChapterBoundary[] = []
+  for (const node of flatOutline) {
+    const pageIndex = await resolveDestPageIndex(pdf, node.dest)
+    if (pageIndex === null) continue
+
+    const title = node.title.trim()
+    const normalizedTitle = title.replace(/\s+/g, '')
+    const lineIndex = lines.findIndex(line => line.pageIndex === pageIndex &&
+      normalizedTitle !== '' && line.text.replace(/\s+/g, '').startsWith(normalizedTitle))
+    const firstLineOfPage = lines.findIndex(line => line.pageIndex >= pageIndex)
+
+    boundaries.push({
+      title,
+      pageIndex,
+      lineIndex: lineIndex !== -1 ? lineIndex : (firstLineOfPage !== -1 ? firstLineOfPage : lines.length)
+    })
+  }
+
+  return boundaries.sort((a, b) => a.lineIndex - b.lineIndex)
+}
+
+async function resolveDestPageIndex(pdf: PDFDocumentProxy, dest: PDFOutlineNode['dest']): Promise<number | null> {
+  try {
+    const explicitDest = typeof dest === 'string' ? await pdf.getDestination(dest) : dest
+    if (!Array.isArray(explicitDest) || explicitDest.length === 0) return null
+    const [ref] = explicitDest
+    if (typeof ref === 'number') return ref
+    return await pdf.getPageIndex(ref)
+  } catch (error) {
+    console.warn('Resolve PDF outline destination failed:', error)
+    return null
+  }
+}
+
+function splitChapters(lines: PDFLine[], boundaries: PDFChapterBoundary[], name: string): PlainTextChapter[] {
+  const chapterList: PlainTextChapter[] = []
+
+  const pushChapter = (title: string, chapterLines: PDFLine[]) => {
+    const paragraphs = rebuildParagraphs(chapterLines)
+    if (paragraphs.length === 0) return
+    chapterList.push({ title, paragraphs })
+  }
+
+  if (boundaries.length === 0) {
+    pushChapter(name, lines)
+    return chapterList
+  }
+
+  // 目录之前的内容(封面、前言等)
+  pushChapter(name, lines.slice(0, boundaries[0].lineIndex))
+
+  boundaries.forEach((boundary, i) => {
+    const end = i + 1 < boundaries.length ? boundaries[i + 1].lineIndex : lines.length
+    let start = boundary.lineIndex
+    // 标题行已作为章节标题, 不再重复出现在正文中
+    if (lines[start] && lines[start].text.replace(/\s+/g, '') === boundary.title.replace(/\s+/g, '')) {
+      start++
+    }
+    // 同一位置的多个目录项(如部与其第一章)只有最后一个拥有正文
+    if (start >= end && boundary.lineIndex === end) return
+    pushChapter(boundary.title || String(chapterList.length + 1), lines.slice(start, end))
+  })
+
+  return chapterList
+}
+
+/**
+ * 将文本行重建为段落
+ * - 行距明显大于常规行距、首行缩进、上一行以句末标点结束且未排满时, 视为新段落
+ * - 行尾连字符且下一行以小写字母开头时, 去掉连字符直接拼接
+ * - 中日韩文字之间拼接不加空格
+ */
+function rebuildParagraphs(lines: PDFLine[]): string[] {
+  if (lines.length === 0) return []
+
+  const gaps: number[] = []
+  for (let i = 1; i < lines.length; i++) {
+    if (lines[i].pageIndex !== lines[i - 1].pageIndex) continue
+    const gap = lines[i - 1].y - lines[i].y
+    if (gap > 0) gaps.push(gap)
+  }
+  const lineGap = median(gaps) || lines[0].height * 1.2
+  const leftX = median(lines.map(line => line.x))
+  const rightX = median(lines.map(line => line.right))
+
+  const paragraphs: string[] = []
+  let current = lines[0].text
+
+  for (let i = 1; i < lines.length; i++) {
+    const prev = lines[i - 1]
+    const line = lines[i]
+    const samePage = prev.pageIndex === line.pageIndex
+
+    const largeGap = samePage && (prev.y - line.y) > lineGap * 1.5
+    const indented = line.x - leftX > line.height * 1.2
+    const prevShort = rightX - prev.right > prev.height * 2
+    const prevEnded = SENTENCE_END_PATTERN.test(prev.text)
+
+    if (largeGap || (indented && prevEnded) || (prevShort && prevEnded)) {
+      paragraphs.push(current)
+      current = line.text
+      continue
+    }
+    current = joinLine(current, line.text)
+  }
+  paragraphs.push(current)
+
+  return paragraphs.filter(paragraph => paragraph.trim() !== '')
+}
+
+function joinLine(prev: string, next: string): string {
+  if (/[A-Za-zÀ-ɏ]-$/.test(prev) && /^[a-zß-ÿ]/.test(next)) {
+    return prev.slice(0, -1) + next
+  }
+  if (CJK_PATTERN.test(prev.slice(-1)) || CJK_PATTERN.test(next[0])) {
+    return prev + next
+  }
+  return `${prev} ${next}`
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+// PDF 日期格式: D:YYYYMMDDHHmmSS
+function parsePDFDate(date: string): string {
+  const match = date.match(/^D:(\d{4})(\d{2})?(\d{2})?/)
+  if (!match) return date
+  return [match[1], match[2], match[3]].filter(Boolean).join('-')
+}
@@ -0,0 +1,174 @@
+import dayjs from 'dayjs';
+import type { Bookmark } from '@/types/book';
+import type { ReviewCard, ReviewCardType, ReviewGrade, ReviewLog, ReviewSchedule, ReviewStats } from '@/types/review';
+import { REVIEW_CONFIG } from '@/constants/review';
+import db from '@/services/DB';
+import { db as readBridgeDB, getAllVocabulary, getTranslation } from '@/utils/db';
+import { createSchedule, scheduleReview } from '@/utils/srs';
+
+type CardSource = Omit<ReviewCard, keyof ReviewSchedule | 'id' | 'createdAt'>;
+
+/**
+ * 按生词本与书签同步复习卡片
+ *
+ * - 有释义的生词生成单词卡片, 原句中能找到该词时生成挖空卡片
+ * - 已有译文(ReadBridgeDB.translations)的书签生成句子翻译卡片
+ * - 已有卡片保留复习进度, 只更新内容; 来源已删除的卡片一并删除
+ *
+ * @param bookmarks 全部书签
+ */
+export async function syncReviewCards(bookmarks: Bookmark[]): Promise<void> {
+  const now = Date.now();
+  const [vocabulary, cards, books] = await Promise.all([
+    getAllVocabulary(),
+    readBridgeDB.reviewCards.toArray(),
+    db.getAllBooksPreview()
+  ]);
+  const titles = new Map(books.map(book => [book.id, book.title]));
+
+  const sources: CardSource[] = [];
+  vocabulary.forEach(record => {
+    const source = {
+      sourceId: String(record.id),
+      bookId: record.bookId,
+      bookTitle: record.bookTitle,
+      sentence: record.sentence,
+      word: record.word,
+      lemma: record.lemma,
+      explanation: record.explanation,
+      sentenceId: record.sentenceId,
+      anchor: record.anchor,
+      chapterIndex: record.chapterIndex,
+      lineIndex: record.lineIndex
+    };
+    if (record.explanation) sources.push({ ...source, type: 'word' });
+    if (record.sentence.includes(record.word)) sources.push({ ...source, type: 'cloze' });
+  });
+  for (const bookmark of bookmarks) {
+    const translation = await getTranslation(bookmark.bookId, bookmark.sentence, bookmark.sentenceId);
+    if (!translation) continue;
+    sources.push({
+      type: 'translation',
+      sourceId: bookmark.id,
+      bookId: bookmark.bookId,
+      bookTitle: titles.get(bookmark.bookId) ?? '',
+      sentence: bookmark.sentence,
+      translation: translation.translatedText,
+      sentenceId: bookmark.sentenceId,
+      anchor: bookmark.anchor,
+      chapterIndex: bookmark.chapterIndex,
+      lineIndex: bookmark.lineIndex
+    });
+  }
+
+  const getKey = (card: Pick<ReviewCard, 'type' | 'sourceId'>) => `${card.type}:${card.sourceId}`;
+  const existing = new Map(cards.map(card => [getKey(card), card]));
+  const keys = new Set(sources.map(getKey));
+  await readBridgeDB.transaction('rw', readBridgeDB.reviewCards, async () => {
+    await readBridgeDB.reviewCards.bulkPut(sources.map(source => {
+      const card = existing.get(getKey(source));
+      return card ? { ...card, ...source } : { ...source, ...createSchedule(now), createdAt: now };
+    }));
+    await readBridgeDB.reviewCards.bulkDelete(cards.filter(card => !keys.has(getKey(card))).map(card => card.id!));
+  });
+}
+
+/**
+ * 今天的复习队列
+ *
+ * 今天到期的卡片按到期时间排在前面, 之后是新卡片; 新卡片数量不超过每日上限减去今天已学的新卡片
+ *
+ * @param types 复习的卡片类型
+ * @param newCardsPerDay 每日新卡片上限
+ * @param now 当前时间
+ * @returns ReviewCard[]
+ */
+export async function getReviewQueue(types: ReviewCardType[], newCardsPerDay: number, now = Date.now()): Promise<ReviewCard[]> {
+  const endOfToday = dayjs(now).endOf('day').valueOf();
+  const cards = (await readBridgeDB.reviewCards.where('due').belowOrEqual(endOfToday).toArray())
+    .filter(card => types.includes(card.type));
+  const learnedToday = await readBridgeDB.reviewLogs
+    .where('reviewedAt').aboveOrEqual(dayjs(now).startOf('day').valueOf())
+    .filter(log => log.isNew)
+    .count();
+
+  const dueCards = cards.filter(card => card.lastReviewedAt !== undefined).sort((a, b) => a.due - b.due);
+  const newCards = cards
+    .filter(card => card.lastReviewedAt === undefined)
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .slice(0, Math.max(newCardsPerDay - learnedToday, 0));
+  return [...dueCards, ...newCards];
+}
+
+/**
+ * 记录一次复习并更新卡片的调度状态
+ *
+ * @param card 复习的卡片
+ * @param grade 评分
+ * @param now 复习时间
+ * @returns ReviewCard 更新后的卡片
+ */
+export async function reviewCard(card: ReviewCard, grade: ReviewGrade, now = Date.now()): Promise<ReviewCard> {
+  const updated = { ...card, ...scheduleReview(card, grade, now) };
+  const log: ReviewLog = {
+    cardId: card.id!,
+    cardType: card.type,
+    grade,
+    isNew: card.lastReviewedAt === undefined,
+    interval: updated.interval,
+    reviewedAt: now
+  };
+  await readBridgeDB.transaction('rw', readBridgeDB.reviewCards, readBridgeDB.reviewLogs, async () => {
+    await readBridgeDB.reviewCards.put(updated);
+    await readBridgeDB.reviewLogs.add(log);
+  });
+  return updated;
+}
+
+/**
+ * 复习统计
+ *
+ * 保持率为近 RETENTION_DAYS 天内非首次复习中没有答错的比例
+ */
+export async function getReviewStats(now = Date.now()): Promise<ReviewStats> {
+  const { MATURE_INTERVAL, RETENTION_DAYS, HISTORY_DAYS } = REVIEW_CONFIG;
+  const today = dayjs(now).startOf('day');
+  const since = today.subtract(Math.max(RETENTION_DAYS, HISTORY_DAYS) - 1, 'day').valueOf();
+  const [cards, logs] = await Promise.all([
+    readBridgeDB.reviewCards.toArray(),
+    readBridgeDB.reviewLogs.where('reviewedAt').aboveOrEqual(since).toArray()
+  ]);
+
+  const retentionSince = today.subtract(RETENTION_DAYS - 1, 'day').valueOf();
+  const recalled = logs.filter(log => !log.isNew && log.reviewedAt >= retentionSince);
+  const history = Array.from({ length: HISTORY_DAYS }, (_, i) => {
+    const day = today.subtract(HISTORY_DAYS - 1 - i, 'day');
+    const next = day.add(1, 'day').valueOf();
+    return {
+      date: day.format('MM-DD'),
+      count: logs.filter(log => log.reviewedAt >= day.valueOf() && log.reviewedAt < next).length
+    };
+  });
+
+  return {
+    total: cards.length,
+    newCards: cards.filter(card => card.lastReviewedAt === undefined).length,
+    due: cards.filter(card => card.lastReviewedAt !== undefined && card.due <= today.endOf('day').valueOf()).length,
+    mature: cards.filter(card => card.interval >= MATURE_INTERVAL).length,
+    reviewedToday: logs.filter(log => log.reviewedAt >= today.valueOf()).length,
+    retention: recalled.length > 0 ? recalled.filter(log => log.grade !== 'again').length / recalled.length : null,
+    history
+  };
+}
+
+/**
+ * 生成挖空句子, 将句子中第一次出现的单词替换为占位符
+ *
+ * @param sentence 原句
+ * @param word 单词
+ */
+export function createCloze(sentence: string, word: string): string {
+  const index = sentence.indexOf(word);
+  if (index === -1) return sentence;
+  return sentence.slice(0, index) + REVIEW_CONFIG.CLOZE_PLACEHOLDER + sentence.slice(index + word.length);
+}
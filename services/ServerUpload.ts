@@ -1,27 +1,33 @@
 // import crypto from 'crypto';
 
-import { BOOK_MIME_TYPE } from '@/constants/book';
-import type { BOOK_MIME_TYPE_TYPE } from '@/types/book';
-import { UPLOAD_CONFIG } from '@/constants/upload';
+import { BOOK_FORMAT, BOOK_MIME_TYPE } from '@/constants/book';
+import type { BOOK_MIME_TYPE_TYPE, ImportedBook, ImportProgress, ImportProgressHandler, ProcessBookOptions } from '@/types/book';
+import { IMPORT_STAGE_RANGES, UPLOAD_CONFIG } from '@/constants/upload';
 
-import { processBook } from '@/services/BookService';
+import { importBook } from '@/services/BookWorkerClient';
 
 /**
  * 处理上传的书籍文件
  * @param file 文件数据（Buffer）
  * @param fileName 文件名
  * @param fileType 文件类型 (MIME类型，如 'application/epub+zip')
- * @returns 处理后的书籍对象
- * @throws 如果文件格式无效、文件过大或处理过程中出错
+ * @param options 解析选项
+ * @param importOptions 进度回调与取消信号
+ * @returns 处理后的书籍对象及句子索引
+ * @throws 如果文件格式无效、文件过大或处理过程中出错, 取消时抛出 AbortError
  */
 export async function handleFileUpload(
-  file: File
-) {
+  file: File,
+  options: ProcessBookOptions = {},
+  { onProgress, signal }: { onProgress?: ImportProgressHandler, signal?: AbortSignal } = {}
+): Promise<ImportedBook> {
   if (!file) {
     console.error('No file uploaded');
     throw new Error('No file uploaded');
   }
-  const { name, size, type } = file
+  const { name, size } = file
+  // 部分系统不识别 md/pdf 等文件的 MIME 类型, 按扩展名补全
+  const type = file.type || getMimeTypeByExtension(name)
 
   if (!isValidBookFormat(type)) {
     console.error('Invalid file format', type);
@@ -34,7 +40,6 @@ export async function handleFileUpload(
   }
 
   const bytes = await file.arrayBuffer();
-  const buffer = Buffer.from(bytes);
 
   // 替换 Node.js 的 crypto 哈希计算
   // const hash = crypto.createHash('sha256').update(buffer).digest('hex')
@@ -44,17 +49,44 @@ export async function handleFileUpload(
 
   const nameWithoutExt = name.replace(/\.[^/.]+$/, '');
 
-  // 进行书籍初始化
+  // 进行书籍初始化, 哈希须在此之前计算, bytes 会被转移到 Worker
   try {
-    const book = await processBook(buffer, type, nameWithoutExt, hash);
-    return book;
+    return await importBook(bytes, type, nameWithoutExt, hash, options, { onProgress, signal });
   } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') throw error;
     console.error('Error processing book', error);
     if (error instanceof Error) throw error;
     throw new Error(String(error));
   }
 }
 
+/**
+ * 按阶段区间与阶段内进度换算导入的总进度
+ * @param progress 导入进度
+ * @returns 0-100 的百分比
+ */
+export function getImportPercent({ stage, current, total }: ImportProgress): number {
+  const [start, end] = IMPORT_STAGE_RANGES[stage];
+  const ratio = total ? Math.min((current ?? 0) / total, 1) : 0;
+  return Math.round(start + (end - start) * ratio);
+}
+
+function getMimeTypeByExtension(name: string): string {
+  const extension = name.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case BOOK_FORMAT.EPUB:
+      return BOOK_MIME_TYPE.EPUB_ZIP;
+    case BOOK_FORMAT.TXT:
+      return BOOK_MIME_TYPE.TXT;
+    case BOOK_FORMAT.MD:
+      return BOOK_MIME_TYPE.MD;
+    case BOOK_FORMAT.PDF:
+      return BOOK_MIME_TYPE.PDF;
+    default:
+      return '';
+  }
+}
+
 function isValidBookFormat(format: string): format is BOOK_MIME_TYPE_TYPE {
   return Object.values(BOOK_MIME_TYPE).includes(format as BOOK_MIME_TYPE_TYPE);
 } 
\ No newline at end of file
@@ -1,8 +1,12 @@
-import { FormattedBook } from "@/types/book";
+import { FormattedBook, ProcessBookOptions } from "@/types/book";
 import { detectLanguage } from "@/utils/franc";
+import { detectChapters } from "@/utils/chapter";
+import { DEFAULT_CHAPTER_DETECT_OPTIONS } from "@/constants/chapter";
+import { decodeText } from "@/utils/encoding";
 
-export function initTXTBook(buffer: Buffer, name: string): FormattedBook {
-  const textContent = buffer.toString('utf-8');
+export function initTXTBook(buffer: Buffer, name: string, options: ProcessBookOptions = {}): FormattedBook {
+  const { chapterDetect = DEFAULT_CHAPTER_DETECT_OPTIONS, encoding } = options
+  const textContent = decodeText(buffer, encoding);
   const paragraphs = textContent.split(/\r?\n/);
   const language = detectLanguage(textContent.slice(0, 500))
   const book: FormattedBook = {
@@ -10,12 +14,7 @@ export function initTXTBook(buffer: Buffer, name: string): FormattedBook {
       title: name,
       language: language,
     },
-    chapterList: [
-      {
-        title: name,
-        paragraphs: paragraphs,
-      }
-    ]
+    chapterList: detectChapters(paragraphs, name, chapterDetect)
   }
   return book
 }
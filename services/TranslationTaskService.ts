@@ -7,11 +7,22 @@ import {
   getBatchTranslations 
 } from '@/utils/db'
 import { message } from 'antd'
+import type { BudgetCheck } from '@/types/usage'
+import { checkBudget, estimateTranslationUsage, formatCost } from '@/services/Usage'
+import { useUsageStore } from '@/store/useUsageStore'
+
+// 批量翻译的系统提示词
+const BATCH_TRANSLATION_PROMPT = `${INPUT_PROMPT.TRANSLATION_PROMPT}
+请翻译以下多个句子，每个句子独立翻译，用相同的编号标记返回。
+格式要求：
+[1] 翻译的第一句
+[2] 翻译的第二句
+...以此类推`
 
 export interface TranslationTask {
   bookId: string
   bookTitle: string
-  sentences: { text: string; chapterIndex: number; sentenceIndex: number }[]
+  sentences: { text: string; chapterIndex: number; sentenceIndex: number; id?: string }[]
   batchSize: number
   totalSentences: number
   completedSentences: number
@@ -51,8 +62,9 @@ class TranslationTaskService {
 
   // 批量翻译多个句子
   private async translateBatch(
-    sentences: { text: string; chapterIndex: number; sentenceIndex: number }[],
-    client: any
+    sentences: { text: string; chapterIndex: number; sentenceIndex: number; id?: string }[],
+    client: any,
+    bookId: string
   ): Promise<Map<string, string>> {
     const translations = new Map<string, string>()
     
@@ -63,12 +75,7 @@ class TranslationTaskService {
     const messages: ChatCompletionMessageParam[] = [
       {
         role: 'system',
-        content: `${INPUT_PROMPT.TRANSLATION_PROMPT}
-请翻译以下多个句子，每个句子独立翻译，用相同的编号标记返回。
-格式要求：
-[1] 翻译的第一句
-[2] 翻译的第二句
-...以此类推`
+        content: BATCH_TRANSLATION_PROMPT
       },
       {
         role: 'user',
@@ -78,7 +85,7 @@ class TranslationTaskService {
 
     try {
       // 获取批量翻译
-      const response = await client.completions(messages, '')
+      const response = await client.completions(messages, '', undefined, { feature: 'bookTranslation', bookId })
       
       if (response) {
         // 解析返回的翻译结果
@@ -112,12 +119,13 @@ class TranslationTaskService {
     return translations
   }
 
-  // 开始翻译任务
+  // 开始翻译任务, 预计超出月度预算且设置为提醒时由 confirmBudget 确认是否继续
   async startTranslation(
     bookId: string,
     bookTitle: string,
-    allSentences: { text: string; chapterIndex: number; sentenceIndex: number }[],
-    batchSize: number
+    allSentences: { text: string; chapterIndex: number; sentenceIndex: number; id?: string }[],
+    batchSize: number,
+    confirmBudget?: (check: BudgetCheck) => Promise<boolean>
   ): Promise<void> {
     // 如果已有任务在运行，先停止
     if (this.currentTask && this.currentTask.status === 'running') {
@@ -142,6 +150,17 @@ class TranslationTaskService {
       return
     }
 
+    // 按预估用量检查月度预算
+    const budget = await checkBudget(chatModel, estimateTranslationUsage(needTranslation.map(s => s.text), batchSize, BATCH_TRANSLATION_PROMPT))
+    if (budget?.exceeded) {
+      if (budget.action === 'block') {
+        const { currency } = useUsageStore.getState()
+        message.error(`预计超出本月预算（已用 ${formatCost(budget.spent, currency)}，预计本次 ${formatCost(budget.estimated, currency)}，预算 ${formatCost(budget.budget, currency)}），已阻止翻译任务`)
+        return
+      }
+      if (confirmBudget && !(await confirmBudget(budget))) return
+    }
+
     // 计算初始进度
     const alreadyCached = allSentences.length - needTranslation.length
     const initialProgress = Math.min(100, Math.round((alreadyCached / allSentences.length) * 100))
@@ -192,13 +211,13 @@ class TranslationTaskService {
         
         try {
           // 批量翻译
-          const batchTranslations = await this.translateBatch(batch, client)
+          const batchTranslations = await this.translateBatch(batch, client, bookId)
           
           // 逐个保存到数据库
           for (const sentence of batch) {
             const translation = batchTranslations.get(sentence.text)
             if (translation && translation !== sentence.text) {
-              await saveTranslationToDB(bookId, sentence.text, translation)
+              await saveTranslationToDB(bookId, sentence.text, translation, undefined, undefined, sentence.id)
             }
           }
           
@@ -229,10 +248,10 @@ class TranslationTaskService {
                 }
               ]
               
-              const translation = await client.completions(messages, '')
+              const translation = await client.completions(messages, '', undefined, { feature: 'bookTranslation', bookId })
               
               if (translation && translation !== sentence.text) {
-                await saveTranslationToDB(bookId, sentence.text, translation)
+                await saveTranslationToDB(bookId, sentence.text, translation, undefined, undefined, sentence.id)
               }
             } catch (err) {
               console.error('Single translation error:', err)
@@ -0,0 +1,154 @@
+import dayjs from 'dayjs';
+import type { Model } from '@/types/llm';
+import type { BudgetCheck, ModelPrice, TokenUsage, UsageContext, UsageRecord, UsageSummary, UsageTotals } from '@/types/usage';
+import { USAGE_CONFIG, USAGE_FEATURES } from '@/constants/usage';
+import { getModelPriceKey, useUsageStore } from '@/store/useUsageStore';
+import { addUsageRecord, getUsageRecords } from '@/utils/db';
+
+/**
+ * 记录一次模型调用的 token 用量
+ *
+ * 没有归类信息的调用(如检查模型可用性)记为 other; 用量为 0 时不记录。
+ * 在模型调用成功后调用, 保存失败只输出错误, 不抛出异常
+ */
+export async function recordUsage(model: Model, context: UsageContext | undefined, usage: TokenUsage): Promise<void> {
+  if (!usage.inputTokens && !usage.outputTokens) return;
+  try {
+    await addUsageRecord({
+      providerId: model.providerId,
+      modelId: model.id,
+      feature: context?.feature ?? 'other',
+      bookId: context?.bookId,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    console.error('记录用量失败:', error);
+  }
+}
+
+/**
+ * 按模型价格计算花费, 未设置价格时为 0
+ */
+export function getUsageCost(providerId: string, modelId: string, usage: TokenUsage, prices: Record<string, ModelPrice>): number {
+  const price = prices[getModelPriceKey(providerId, modelId)];
+  if (!price) return 0;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / USAGE_CONFIG.PRICE_UNIT;
+}
+
+/**
+ * 统计最近若干天的用量
+ *
+ * @param days 统计天数, 包含今天
+ * @param prices 模型价格
+ * @returns 总计、每日、按模型与按功能的用量
+ */
+export async function getUsageSummary(days: number, prices: Record<string, ModelPrice>, now = Date.now()): Promise<UsageSummary> {
+  const today = dayjs(now).startOf('day');
+  const records = await getUsageRecords(today.subtract(days - 1, 'day').valueOf());
+  const cost = (record: UsageRecord) => getUsageCost(record.providerId, record.modelId, record, prices);
+
+  const daily = Array.from({ length: days }, (_, i) => {
+    const day = today.subtract(days - 1 - i, 'day');
+    const next = day.add(1, 'day').valueOf();
+    return {
+      date: day.format('MM-DD'),
+      ...sumUsage(records.filter(record => record.timestamp >= day.valueOf() && record.timestamp < next), cost)
+    };
+  });
+
+  const byModel = [...groupBy(records, record => getModelPriceKey(record.providerId, record.modelId)).values()].map(group => ({
+    providerId: group[0].providerId,
+    modelId: group[0].modelId,
+    ...sumUsage(group, cost)
+  }));
+
+  const byFeature = USAGE_FEATURES
+    .map(feature => ({ feature, ...sumUsage(records.filter(record => record.feature === feature), cost) }))
+    .filter(item => item.requests > 0);
+
+  const byBook = [...groupBy(records.filter(record => record.bookId), record => record.bookId!)]
+    .map(([bookId, group]) => ({ bookId, ...sumUsage(group, cost) }));
+
+  return { totals: sumUsage(records, cost), daily, byModel, byFeature, byBook };
+}
+
+/**
+ * 估算文本的 token 数: 中日韩字符约 1 个 token, 其他字符约 CHARS_PER_TOKEN 个为 1 个 token
+ */
+export function estimateTokens(text: string): number {
+  const cjk = text.match(/[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/g)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / USAGE_CONFIG.CHARS_PER_TOKEN);
+}
+
+/**
+ * 估算批量翻译的 token 用量
+ *
+ * @param texts 待翻译的句子
+ * @param batchSize 每次请求的句子数
+ * @param systemPrompt 每次请求都会发送的提示词
+ */
+export function estimateTranslationUsage(texts: string[], batchSize: number, systemPrompt: string): TokenUsage {
+  const textTokens = texts.reduce((sum, text) => sum + estimateTokens(text), 0);
+  const requests = Math.ceil(texts.length / batchSize);
+  return {
+    inputTokens: textTokens + requests * estimateTokens(systemPrompt),
+    outputTokens: Math.ceil(textTokens * USAGE_CONFIG.TRANSLATION_OUTPUT_RATIO)
+  };
+}
+
+/**
+ * 本月至今的花费
+ */
+export async function getMonthlyCost(prices: Record<string, ModelPrice>, now = Date.now()): Promise<number> {
+  const records = await getUsageRecords(dayjs(now).startOf('month').valueOf());
+  return records.reduce((sum, record) => sum + getUsageCost(record.providerId, record.modelId, record, prices), 0);
+}
+
+/**
+ * 检查批量任务是否会超出月度预算
+ *
+ * @param model 任务使用的模型
+ * @param estimate 任务的预估用量
+ * @returns 未设置月度预算时返回 null
+ */
+export async function checkBudget(model: Model, estimate: TokenUsage, now = Date.now()): Promise<BudgetCheck | null> {
+  const { prices, monthlyBudget, budgetAction } = useUsageStore.getState();
+  if (monthlyBudget === null) return null;
+
+  const spent = await getMonthlyCost(prices, now);
+  const estimated = getUsageCost(model.providerId, model.id, estimate, prices);
+  return {
+    budget: monthlyBudget,
+    spent,
+    estimated,
+    exceeded: spent + estimated > monthlyBudget,
+    action: budgetAction
+  };
+}
+
+/**
+ * 格式化花费, 金额较小时保留更多小数
+ */
+export function formatCost(cost: number, currency: string): string {
+  return `${currency}${cost.toFixed(cost > 0 && cost < 1 ? 4 : 2)}`;
+}
+
+function groupBy(records: UsageRecord[], getKey: (record: UsageRecord) => string): Map<string, UsageRecord[]> {
+  const groups = new Map<string, UsageRecord[]>();
+  records.forEach(record => {
+    const key = getKey(record);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  });
+  return groups;
+}
+
+function sumUsage(records: UsageRecord[], cost: (record: UsageRecord) => number): UsageTotals {
+  return records.reduce((totals, record) => ({
+    requests: totals.requests + 1,
+    inputTokens: totals.inputTokens + record.inputTokens,
+    outputTokens: totals.outputTokens + record.outputTokens,
+    cost: totals.cost + cost(record)
+  }), { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 });
+}
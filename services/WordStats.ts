@@ -0,0 +1,52 @@
+import type { WordSpan } from '@/types/word';
+import db from '@/services/DB';
+import { extractSentenceWords } from '@/services/BookWorkerClient';
+
+// 最近统计过的书籍的各章节词表, key 由分句语言与章节句子 id 组成, 句子索引变化的章节重新分词
+let cache: { bookId: string, chapters: Map<number, { key: string, words: WordSpan[] }> } | null = null;
+
+/**
+ * 逐章提取整书出现的词, 用于统计各章节的生词数
+ *
+ * 分词在 Worker 中进行, 每章完成后回调一次, 界面可以逐步显示统计结果;
+ * 同一本书的句子索引未变化的章节直接使用上次的结果
+ *
+ * @param bookId 书籍id
+ * @param language 书籍语言
+ * @param onChapter 每章完成后回调, words 为该章去重后的词
+ * @param signal 取消信号, 取消后不再回调
+ *
+ * @example
+ * ```typescript
+ * await collectChapterWords(book.id, 'en', (chapterIndex, words) => {
+ *   console.log(chapterIndex, words.filter(word => getWordStatus(word.language, word.lemma) === 'new').length);
+ * });
+ * ```
+ */
+export async function collectChapterWords(
+  bookId: string,
+  language: string | undefined,
+  onChapter: (chapterIndex: number, words: WordSpan[]) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const chapters = new Map<number, { ids: string[], texts: string[] }>();
+  (await db.getSentences(bookId)).forEach(sentence => {
+    const chapter = chapters.get(sentence.chapterIndex) ?? { ids: [], texts: [] };
+    chapter.ids.push(sentence.id);
+    chapter.texts.push(sentence.text);
+    chapters.set(sentence.chapterIndex, chapter);
+  });
+
+  if (cache?.bookId !== bookId) cache = { bookId, chapters: new Map() };
+  const bookCache = cache.chapters;
+
+  for (const [chapterIndex, { ids, texts }] of chapters) {
+    if (signal?.aborted) return;
+    const key = `${language ?? ''}:${ids.join(',')}`;
+    const cached = bookCache.get(chapterIndex);
+    const words = cached?.key === key ? cached.words : await extractSentenceWords(texts, language);
+    bookCache.set(chapterIndex, { key, words });
+    if (signal?.aborted) return;
+    onChapter(chapterIndex, words);
+  }
+}
@@ -0,0 +1,131 @@
+import { gunzipSync, unzipSync } from 'fflate'
+import type { DictionaryImportProgress, DictionaryInfo, DictionaryLookupResult, ParsedDictionary } from '@/types/dictionary'
+import { DICTIONARY_CONFIG } from '@/constants/dictionary'
+import { addDictionary, findDictionaryEntries, getDictionaries } from '@/utils/db'
+import { parseStarDict } from './stardict'
+import { parseYomichan } from './yomichan'
+import { parseJsonDictionary } from './json'
+
+/**
+ * 导入离线词典
+ *
+ * - StarDict: 同时选择 .ifo、.idx、.dict(.dz) 与可选的 .syn 文件, 或包含这些文件的 zip
+ * - Yomichan/Yomitan: 词典 zip
+ * - JSON: 格式见 parseJsonDictionary
+ *
+ * @param files 选择的文件
+ * @param onProgress 导入进度
+ * @returns 保存后的词典
+ * @throws 文件格式无法识别或没有词条时抛出异常
+ */
+export async function importDictionary(
+  files: File[],
+  onProgress?: (progress: DictionaryImportProgress) => void
+): Promise<DictionaryInfo> {
+  onProgress?.({ stage: 'parse' })
+  const parsed = await parseDictionaryFiles(files)
+  if (parsed.entries.length === 0) throw new Error('No dictionary entries found')
+
+  const total = parsed.entries.length
+  const info: Omit<DictionaryInfo, 'id'> = {
+    name: parsed.name,
+    format: parsed.format,
+    language: parsed.language,
+    entryCount: total,
+    enabled: true,
+    createdAt: new Date()
+  }
+  const entries = parsed.entries.map(entry => ({
+    ...entry,
+    term: normalizeDictionaryTerm(entry.headword),
+    reading: entry.reading ? normalizeDictionaryTerm(entry.reading) : undefined
+  }))
+  onProgress?.({ stage: 'save', current: 0, total })
+  const id = await addDictionary(info, entries, DICTIONARY_CONFIG.BULK_SIZE, current => onProgress?.({ stage: 'save', current, total }))
+  return { ...info, id }
+}
+
+/**
+ * 在已启用的离线词典中查词
+ *
+ * 依次按点击的词与原形查询词头与读音; 词典声明了语言时只用于该语言的词。
+ * 结果按词典导入顺序排列, 同一词典中与点击的词完全相同的词条在前
+ *
+ * @param word 点击的词
+ * @param lemma 原形
+ * @param language 词的语言
+ * @returns 查到的词条, 最多 MAX_RESULTS 条
+ */
+export async function lookupWord(word: string, lemma?: string, language?: string): Promise<DictionaryLookupResult[]> {
+  const dictionaries = (await getDictionaries())
+    .filter(dictionary => dictionary.enabled && (!dictionary.language || !language || isSameLanguage(dictionary.language, language)))
+  if (dictionaries.length === 0) return []
+
+  const terms = [...new Set([word, lemma].filter(Boolean).map(term => normalizeDictionaryTerm(term!)))]
+  const entries = await findDictionaryEntries(terms)
+  const order = new Map(dictionaries.map((dictionary, index) => [dictionary.id!, index]))
+  const exact = normalizeDictionaryTerm(word)
+
+  return entries
+    .filter(entry => order.has(entry.dictionaryId))
+    .sort((a, b) => order.get(a.dictionaryId)! - order.get(b.dictionaryId)!
+      || Number(b.term === exact) - Number(a.term === exact))
+    .slice(0, DICTIONARY_CONFIG.MAX_RESULTS)
+    .map(entry => ({
+      dictionaryId: entry.dictionaryId,
+      dictionaryName: dictionaries[order.get(entry.dictionaryId)!].name,
+      headword: entry.headword,
+      reading: entry.reading,
+      definition: entry.definition
+    }))
+}
+
+/**
+ * 词头的规范形式: 兼容字符统一(如半角假名), 去除首尾空白并转为小写
+ */
+export function normalizeDictionaryTerm(term: string): string {
+  return term.normalize('NFKC').trim().toLowerCase()
+}
+
+/**
+ * 将查词结果整理为 markdown, 没有调用大模型时作为生词本的词语解析保存
+ *
+ * @param results lookupWord 的结果
+ * @returns 每个词条一段: 词头、读音、词典名与释义
+ */
+export function formatDictionaryResults(results: DictionaryLookupResult[]): string {
+  return results.map(result => {
+    const reading = result.reading && result.reading !== result.headword.toLowerCase() ? ` ${result.reading}` : ''
+    const definition = result.definition.split('\n').map(line => line.trim()).filter(Boolean).join('\n\n')
+    return `**${result.headword}**${reading} _(${result.dictionaryName})_\n\n${definition}`
+  }).join('\n\n')
+}
+
+async function parseDictionaryFiles(files: File[]): Promise<ParsedDictionary> {
+  const contents = new Map<string, Uint8Array>()
+  for (const file of files) {
+    const name = file.name.toLowerCase()
+    const bytes = new Uint8Array(await file.arrayBuffer())
+    if (name.endsWith('.zip')) {
+      const unzipped = unzipSync(bytes)
+      if (Object.keys(unzipped).some(entry => entry.split('/').pop() === 'index.json')) return parseYomichan(unzipped)
+      // 打包为 zip 的 StarDict 词典
+      Object.entries(unzipped).forEach(([entry, data]) => addStarDictFile(contents, entry.split('/').pop()!.toLowerCase(), data))
+    } else if (name.endsWith('.json')) {
+      return parseJsonDictionary(JSON.parse(new TextDecoder().decode(bytes)), file.name.replace(/\.json$/i, ''))
+    } else {
+      addStarDictFile(contents, name, bytes)
+    }
+  }
+  return parseStarDict(contents)
+}
+
+// .dict.dz(dictzip) 与 .idx.gz 均为 gzip 格式, 解压后按原文件名保存
+function addStarDictFile(contents: Map<string, Uint8Array>, name: string, data: Uint8Array) {
+  if (name.endsWith('.dz') || name.endsWith('.gz')) contents.set(name.slice(0, -3), gunzipSync(data))
+  else contents.set(name, data)
+}
+
+function isSameLanguage(a: string, b: string): boolean {
+  return a.split(/[-_]/)[0].toLowerCase() === b.split(/[-_]/)[0].toLowerCase()
+}
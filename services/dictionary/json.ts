@@ -0,0 +1,54 @@
+import type { ParsedDictionary, ParsedDictionaryEntry } from '@/types/dictionary'
+
+type JsonEntry = {
+  term?: string
+  word?: string
+  reading?: string
+  definition?: string | string[]
+  definitions?: string | string[]
+}
+
+/**
+ * 解析 JSON 词典, 支持以下三种结构:
+ *
+ * - `{ "name": "词典名", "language": "en", "entries": [{ "term": "run", "reading": "", "definition": "跑" }] }`
+ * - 词条数组 `[{ "term": "run", "definition": ["跑", "运行"] }]`, word 可代替 term, definitions 可代替 definition
+ * - 词头到释义的对象 `{ "run": "跑" }`
+ *
+ * @param data 解析后的 JSON
+ * @param fallbackName 没有 name 时使用的词典名, 一般为文件名
+ * @returns 解析后的词典
+ * @throws 没有有效词条时抛出异常
+ */
+export function parseJsonDictionary(data: unknown, fallbackName: string): ParsedDictionary {
+  const meta = data && typeof data === 'object' && !Array.isArray(data) && Array.isArray((data as { entries?: unknown }).entries)
+    ? data as { name?: string, language?: string, entries: JsonEntry[] }
+    : null
+  let entries: ParsedDictionaryEntry[]
+  if (meta || Array.isArray(data)) {
+    entries = (meta ? meta.entries : data as JsonEntry[]).map(entry => ({
+      headword: String(entry?.term ?? entry?.word ?? '').trim(),
+      reading: entry?.reading || undefined,
+      definition: joinDefinition(entry?.definition ?? entry?.definitions)
+    }))
+  } else if (data && typeof data === 'object') {
+    entries = Object.entries(data as Record<string, string | string[]>)
+      .map(([headword, definition]) => ({ headword: headword.trim(), definition: joinDefinition(definition) }))
+  } else {
+    entries = []
+  }
+
+  entries = entries.filter(entry => entry.headword && entry.definition)
+  if (entries.length === 0) throw new Error('No dictionary entries found')
+  return {
+    name: meta?.name || fallbackName,
+    format: 'json',
+    language: meta?.language || undefined,
+    entries
+  }
+}
+
+function joinDefinition(definition: unknown): string {
+  if (Array.isArray(definition)) return definition.map(item => String(item).trim()).filter(Boolean).join('\n')
+  return typeof definition === 'string' ? definition.trim() : ''
+}
@@ -0,0 +1,105 @@
+import type { ParsedDictionary, ParsedDictionaryEntry } from '@/types/dictionary'
+import { STARDICT_TEXT_TYPES } from '@/constants/dictionary'
+import { htmlToText } from './text'
+
+const decoder = new TextDecoder()
+
+/**
+ * 解析 StarDict 词典
+ *
+ * 需要同名的 .ifo、.idx 与 .dict 文件, .syn 同义词文件可选; 压缩文件(.dz/.gz)须先解压。
+ * 释义中的文本字段按顺序合并, 图片、音频等资源字段忽略
+ *
+ * @param files 文件名(小写, 已去掉 .dz/.gz 后缀) -> 文件内容
+ * @returns 解析后的词典
+ * @throws 缺少 .ifo/.idx/.dict 文件或 .ifo 无效时抛出异常
+ */
+export function parseStarDict(files: Map<string, Uint8Array>): ParsedDictionary {
+  const ifoName = [...files.keys()].find(name => name.endsWith('.ifo'))
+  if (!ifoName) throw new Error('StarDict .ifo file not found')
+  const baseName = ifoName.slice(0, -'.ifo'.length)
+  const idx = files.get(`${baseName}.idx`)
+  const dict = files.get(`${baseName}.dict`)
+  if (!idx || !dict) throw new Error('StarDict .idx or .dict file not found')
+
+  const info = parseIfo(decoder.decode(files.get(ifoName)))
+  if (!info.bookname) throw new Error('Invalid StarDict .ifo file')
+  const offsetSize = info.idxoffsetbits === '64' ? 8 : 4
+  const sequence = info.sametypesequence
+
+  const entries: ParsedDictionaryEntry[] = []
+  const view = new DataView(idx.buffer, idx.byteOffset, idx.byteLength)
+  let position = 0
+  while (position < idx.length) {
+    const end = idx.indexOf(0, position)
+    if (end === -1 || end + 1 + offsetSize + 4 > idx.length) break
+    const headword = decoder.decode(idx.subarray(position, end))
+    position = end + 1
+    const offset = offsetSize === 8 ? Number(view.getBigUint64(position)) : view.getUint32(position)
+    const size = view.getUint32(position + offsetSize)
+    position += offsetSize + 4
+    entries.push({ headword, definition: parseDefinition(dict.subarray(offset, offset + size), sequence) })
+  }
+
+  // 同义词指向 .idx 中的词条序号
+  const syn = files.get(`${baseName}.syn`)
+  if (syn) {
+    const synView = new DataView(syn.buffer, syn.byteOffset, syn.byteLength)
+    let synPosition = 0
+    while (synPosition < syn.length) {
+      const end = syn.indexOf(0, synPosition)
+      if (end === -1 || end + 5 > syn.length) break
+      const headword = decoder.decode(syn.subarray(synPosition, end))
+      const target = entries[synView.getUint32(end + 1)]
+      if (target) entries.push({ headword, definition: target.definition })
+      synPosition = end + 5
+    }
+  }
+
+  return {
+    name: info.bookname,
+    format: 'stardict',
+    language: info.lang || undefined,
+    entries: entries.filter(entry => entry.headword && entry.definition)
+  }
+}
+
+function parseIfo(text: string): Record<string, string> {
+  const info: Record<string, string> = {}
+  text.split(/\r?\n/).forEach(line => {
+    const index = line.indexOf('=')
+    if (index > 0) info[line.slice(0, index).trim()] = line.slice(index + 1).trim()
+  })
+  return info
+}
+
+// 字段类型为小写字母时内容以 \0 结尾, 大写字母时以 4 字节长度开头;
+// 指定 sametypesequence 时省略类型字母, 且最后一个字段没有结尾或长度
+function parseDefinition(data: Uint8Array, sequence?: string): string {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const parts: string[] = []
+  let position = 0
+  const readField = (type: string, isLast: boolean) => {
+    // 资源字段跳过
+    if (type === type.toUpperCase()) {
+      position = isLast || position + 4 > data.length ? data.length : position + 4 + view.getUint32(position)
+      return
+    }
+    let end = isLast ? data.length : data.indexOf(0, position)
+    if (end === -1) end = data.length
+    const text = decoder.decode(data.subarray(position, end))
+    position = end + 1
+    parts.push(STARDICT_TEXT_TYPES.includes(type) ? text.trim() : htmlToText(text))
+  }
+
+  if (sequence) {
+    for (let i = 0; i < sequence.length && position < data.length; i++) readField(sequence[i], i === sequence.length - 1)
+  } else {
+    while (position < data.length) {
+      const type = String.fromCharCode(data[position])
+      position++
+      readField(type, false)
+    }
+  }
+  return parts.filter(Boolean).join('\n')
+}
@@ -0,0 +1,31 @@
+import { DICTIONARY_BLOCK_TAGS } from '@/constants/dictionary'
+
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
+
+/**
+ * 将词典中的 HTML/XDXF 释义转为纯文本
+ *
+ * 换行与块级标签转为换行, 其余标签去除, 不渲染词典中的标记, 避免执行其中的脚本
+ *
+ * @param html 标记文本
+ * @returns 纯文本释义
+ */
+export function htmlToText(html: string): string {
+  const blockTags = DICTIONARY_BLOCK_TAGS.join('|')
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(new RegExp(`</?(${blockTags})(\\s[^>]*)?>`, 'gi'), '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+      if (name[0] === '#') {
+        const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10)
+        // 超出 Unicode 范围的实体原样保留, 代理区码位无法单独表示, 替换为 U+FFFD
+        if (Number.isNaN(code) || code > 0x10FFFF) return entity
+        return code >= 0xD800 && code <= 0xDFFF ? '\uFFFD' : String.fromCodePoint(code)
+      }
+      return HTML_ENTITIES[name.toLowerCase()] ?? entity
+    })
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
@@ -0,0 +1,73 @@
+import { strFromU8, Unzipped } from 'fflate'
+import type { ParsedDictionary, ParsedDictionaryEntry } from '@/types/dictionary'
+import { DICTIONARY_BLOCK_TAGS } from '@/constants/dictionary'
+
+type StructuredContent = string | StructuredContent[] | { tag?: string, content?: StructuredContent }
+
+/**
+ * 解析 Yomichan/Yomitan 词典压缩包
+ *
+ * 读取 index.json 与 term_bank_*.json, 支持第 1 版与第 3 版词条格式;
+ * 同一词头与读音的多条释义合并为一个词条, 结构化释义转为纯文本, 图片与汉字、频率数据忽略
+ *
+ * @param files 解压后的文件
+ * @returns 解析后的词典
+ * @throws 缺少 index.json 或没有词条文件时抛出异常
+ */
+export function parseYomichan(files: Unzipped): ParsedDictionary {
+  const indexName = Object.keys(files).find(name => name.split('/').pop() === 'index.json')
+  if (!indexName) throw new Error('Yomichan index.json not found')
+  const index = JSON.parse(strFromU8(files[indexName]))
+  const version = Number(index.format ?? index.version ?? 3)
+
+  const banks = Object.keys(files)
+    .filter(name => /(^|\/)term_bank_\d+\.json$/.test(name))
+    .sort((a, b) => getBankNumber(a) - getBankNumber(b))
+  if (banks.length === 0) throw new Error('Yomichan term banks not found')
+
+  const entries = new Map<string, ParsedDictionaryEntry>()
+  banks.forEach(name => {
+    const terms: unknown[][] = JSON.parse(strFromU8(files[name]))
+    terms.forEach(term => {
+      const [expression, reading] = term as [string, string]
+      const glossary = version === 1 ? term.slice(5) : term[5] as unknown[]
+      const definition = glossary.map(glossaryToText).filter(Boolean).join('\n')
+      if (!expression || !definition) return
+      const key = `${expression}\n${reading}`
+      const entry = entries.get(key)
+      if (entry) entry.definition += `\n${definition}`
+      else entries.set(key, { headword: expression, reading: reading || undefined, definition })
+    })
+  })
+
+  return {
+    name: String(index.title || indexName),
+    format: 'yomichan',
+    language: index.sourceLanguage || undefined,
+    entries: [...entries.values()]
+  }
+}
+
+function getBankNumber(name: string): number {
+  return Number(name.match(/term_bank_(\d+)\.json$/)?.[1] ?? 0)
+}
+
+// 释义为字符串或 { type: 'text' | 'structured-content' | 'image' }, 变形说明(数组)忽略
+function glossaryToText(glossary: unknown): string {
+  if (typeof glossary === 'string') return glossary.trim()
+  if (!glossary || Array.isArray(glossary) || typeof glossary !== 'object') return ''
+  const item = glossary as { type?: string, text?: string, content?: StructuredContent }
+  if (item.type === 'text') return item.text?.trim() ?? ''
+  if (item.type === 'structured-content') return structuredContentToText(item.content).replace(/\n{2,}/g, '\n').trim()
+  return ''
+}
+
+function structuredContentToText(content: StructuredContent | undefined): string {
+  if (content === undefined || content === null) return ''
+  if (typeof content === 'string') return content
+  if (Array.isArray(content)) return content.map(structuredContentToText).join('')
+  if (content.tag === 'br') return '\n'
+  if (content.tag === 'img') return ''
+  const text = structuredContentToText(content.content)
+  return content.tag && DICTIONARY_BLOCK_TAGS.includes(content.tag) ? `${text}\n` : text
+}
@@ -0,0 +1,279 @@
+import { ANTHROPIC_CONFIG, LLM_PROXY_URL } from "@/constants/llm";
+import { Provider, Model, Client, ClientOptions } from "@/types/llm"
+import { TokenUsage, UsageContext } from "@/types/usage"
+import { recordUsage } from "@/services/Usage"
+import OpenAI from "openai"
+import { displayError, getTextContent, readSSEData } from "./utils"
+
+type AnthropicMessage = {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+type AnthropicContentBlock = {
+  type: string
+  text?: string
+  thinking?: string
+}
+
+type AnthropicUsage = {
+  input_tokens?: number
+  output_tokens?: number
+}
+
+type AnthropicStreamEvent = {
+  type: string
+  message?: {
+    usage?: AnthropicUsage
+  }
+  usage?: AnthropicUsage
+  delta?: {
+    type: string
+    text?: string
+    thinking?: string
+  }
+  error?: {
+    type: string
+    message: string
+  }
+}
+
+/**
+ * Anthropic Messages API 客户端
+ *
+ * 系统提示词放在顶层 system 字段; 模型设置了思考预算时开启 extended thinking,
+ * 思考内容与 openai 客户端一样用 <think></think> 包裹输出
+ */
+export function createAnthropicClient(provider: Provider, model: Model, options?: ClientOptions): Client {
+
+  const { baseUrl, apiKey } = provider
+  const { max_tokens = 1000, ...restOptions } = options || {}
+  const thinkingBudget = model.thinkingBudget && Math.max(model.thinkingBudget, ANTHROPIC_CONFIG.MIN_THINKING_BUDGET)
+
+  // 开启思考时 max_tokens 需大于思考预算, 且不能修改 temperature 与 top_p
+  const baseRequestParams = thinkingBudget ? {
+    model: model.id,
+    max_tokens: max_tokens + thinkingBudget,
+    thinking: { type: 'enabled', budget_tokens: thinkingBudget },
+    ...restOptions
+  } : {
+    model: model.id,
+    max_tokens,
+    temperature: model.temperature,
+    // 部分模型不允许同时设置 temperature 与 top_p, 仅在修改过 top_p 时传入
+    ...(model.topP < 1 ? { top_p: model.topP } : {}),
+    ...restOptions
+  }
+
+  let useProxy = false;
+  // 初始更新一次useProxy
+
+  check()
+
+  async function check(): Promise<{ valid: boolean, error: Error | null }> {
+    try {
+      for await (const chunk of completionsGenerator([{ role: 'user', content: 'hi' }])) {
+        return { valid: true, error: null }
+      }
+      return { valid: false, error: new Error("No response received") };
+    } catch (error) {
+      return { valid: false, error: error as Error }
+    }
+  }
+
+  // 统一API请求处理函数, 直连失败时改用代理
+  async function _executeApiRequest(params: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const errorList: Error[] = []
+    if (!useProxy) {
+      try {
+        const response = await fetch(`${baseUrl}${ANTHROPIC_CONFIG.MESSAGES_PATH}`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'x-api-key': apiKey,
+            'anthropic-version': ANTHROPIC_CONFIG.API_VERSION,
+            'anthropic-dangerous-direct-browser-access': 'true',
+          },
+          body: JSON.stringify(params),
+          signal,
+        });
+        if (!response.ok) {
+          throw new Error(`API 请求失败: ${await response.text()}`)
+        }
+        return response
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error
+        }
+        console.log('本地请求失败，尝试使用代理:', error);
+        errorList.push(error as Error)
+        useProxy = true;
+      }
+    }
+
+    // 使用代理请求
+    const response = await fetch(LLM_PROXY_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        url: `${baseUrl}${ANTHROPIC_CONFIG.MESSAGES_PATH}`,
+        apiKey: apiKey,
+        kind: 'anthropic',
+        ...params
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      errorList.push(new Error(`API 请求失败: ${error}`))
+      throw new Error(errorList.join('\n'));
+    }
+
+    return response
+  }
+
+  async function* completionsGenerator(
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    prompt = '',
+    signal?: AbortSignal,
+    usage?: UsageContext
+  ): AsyncGenerator<string, void, unknown> {
+    const params = {
+      ...baseRequestParams,
+      ...formatMessages(messages, prompt),
+      stream: true,
+    }
+
+    try {
+      const response = await _executeApiRequest(params, signal);
+      if (!response.body) throw new Error('No response body')
+      yield* processStream(response.body, signal, tokenUsage => recordUsage(model, usage, tokenUsage));
+    } catch (error) {
+      if (signal?.aborted) {
+        return
+      }
+
+      displayError(error, 'Stream completion')
+      throw error;
+    }
+  }
+
+  async function completions(
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    prompt = '',
+    signal?: AbortSignal,
+    usage?: UsageContext
+  ): Promise<string> {
+    const params = {
+      ...baseRequestParams,
+      ...formatMessages(messages, prompt),
+    }
+
+    try {
+      const response = await _executeApiRequest(params, signal);
+      const result = await response.json() as { content?: AnthropicContentBlock[], usage?: AnthropicUsage }
+      if (result.usage) {
+        recordUsage(model, usage, { inputTokens: result.usage.input_tokens || 0, outputTokens: result.usage.output_tokens || 0 })
+      }
+      const blocks = result.content || []
+      const thinking = blocks.map(block => block.type === 'thinking' ? block.thinking : '').join('')
+      const content = blocks.map(block => block.type === 'text' ? block.text : '').join('')
+      return thinking ? `${thinking}\n${content}` : content;
+    } catch (error) {
+      if (signal?.aborted) {
+        return ''
+      }
+      displayError(error, 'Completion')
+      throw error;
+    }
+  }
+
+  return {
+    name: model.name,
+    id: model.id,
+    Provider: provider,
+    completionsGenerator,
+    completions,
+    check,
+  }
+}
+
+// 将 openai 格式的消息转换为 Anthropic 格式: system 消息合并到顶层 system 字段, 相邻同角色消息合并
+function formatMessages(messages: OpenAI.Chat.ChatCompletionMessageParam[], prompt: string): { system?: string, messages: AnthropicMessage[] } {
+  const system: string[] = prompt ? [prompt] : []
+  const result: AnthropicMessage[] = []
+
+  for (const message of messages) {
+    const content = getTextContent(message.content)
+    if (message.role === 'system' || message.role === 'developer') {
+      if (content) system.push(content)
+      continue
+    }
+    if (message.role !== 'user' && message.role !== 'assistant') continue
+    if (!content) continue
+    const last = result[result.length - 1]
+    if (last?.role === message.role) {
+      last.content += `\n\n${content}`
+    } else {
+      result.push({ role: message.role, content })
+    }
+  }
+
+  return system.length > 0 ? { system: system.join('\n\n'), messages: result } : { messages: result }
+}
+
+// 按 content_block_delta 输出文本与思考内容, 输入 token 数在 message_start 中, 输出 token 数在 message_delta 中累计; 结束或取消时记录用量
+async function* processStream(
+  body: ReadableStream<Uint8Array>,
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void
+): AsyncGenerator<string, void, unknown> {
+  let isThinking = false;
+  const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+  try {
+    for await (const event of readSSEData<AnthropicStreamEvent>(body, signal)) {
+      if (event.type === 'message_start' && event.message?.usage) {
+        usage.inputTokens = event.message.usage.input_tokens || 0;
+      }
+      if (event.type === 'message_delta' && event.usage) {
+        usage.outputTokens = event.usage.output_tokens || 0;
+      }
+      if (event.type === 'error') {
+        throw new Error(event.error?.message || 'Stream error')
+      }
+      if (event.type !== 'content_block_delta' || !event.delta) continue
+
+      const { type, text, thinking } = event.delta
+      if (type === 'thinking_delta' && thinking) {
+        if (!isThinking) {
+          yield '<think>';
+          isThinking = true;
+        }
+        yield thinking;
+      }
+      if (type === 'text_delta' && text) {
+        if (isThinking) {
+          yield '</think>';
+          isThinking = false;
+        }
+        yield text;
+      }
+    }
+  } catch (error) {
+    if (signal?.aborted) {
+      return
+    }
+    console.error('Stream completion error:', error);
+    throw error;
+  } finally {
+    // 中途取消的请求同样计费, 记录已收到的用量(至少有 message_start 中的输入 token 数)
+    if (usage.inputTokens || usage.outputTokens) onUsage?.(usage);
+    if (isThinking) {
+      yield '</think>';
+    }
+  }
+}
@@ -0,0 +1,293 @@
+import { GEMINI_CONFIG, LLM_PROXY_URL } from "@/constants/llm";
+import { Provider, Model, Client, ClientOptions } from "@/types/llm"
+import { TokenUsage, UsageContext } from "@/types/usage"
+import { recordUsage } from "@/services/Usage"
+import OpenAI from "openai"
+import { displayError, getTextContent, readSSEData } from "./utils"
+
+type GeminiContent = {
+  role: 'user' | 'model'
+  parts: { text: string }[]
+}
+
+type GeminiResponse = {
+  candidates?: {
+    content?: {
+      parts?: { text?: string, thought?: boolean }[]
+    }
+    finishReason?: string
+  }[]
+  promptFeedback?: {
+    blockReason?: string
+  }
+  usageMetadata?: {
+    promptTokenCount?: number
+    candidatesTokenCount?: number
+    thoughtsTokenCount?: number
+  }
+  error?: {
+    message: string
+  }
+}
+
+/**
+ * Google Gemini generateContent 客户端
+ *
+ * 系统提示词放在 systemInstruction 字段; 模型设置了思考预算时返回思考摘要,
+ * 思考内容与 openai 客户端一样用 <think></think> 包裹输出。
+ * 提示词或回复被安全策略拦截时抛出可读的错误, 而不是返回空内容
+ */
+export function createGeminiClient(provider: Provider, model: Model, options?: ClientOptions): Client {
+
+  const { baseUrl, apiKey } = provider
+  const { max_tokens = 1000 } = options || {}
+
+  // Gemini 的 maxOutputTokens 包含思考所用的 token
+  const baseRequestParams = {
+    generationConfig: {
+      temperature: model.temperature,
+      topP: model.topP,
+      maxOutputTokens: Number(max_tokens) + (model.thinkingBudget || 0),
+      ...(model.thinkingBudget ? { thinkingConfig: { thinkingBudget: model.thinkingBudget, includeThoughts: true } } : {}),
+    }
+  }
+
+  let useProxy = false;
+  // 初始更新一次useProxy
+
+  check()
+
+  async function check(): Promise<{ valid: boolean, error: Error | null }> {
+    try {
+      for await (const chunk of completionsGenerator([{ role: 'user', content: 'hi' }])) {
+        return { valid: true, error: null }
+      }
+      return { valid: false, error: new Error("No response received") };
+    } catch (error) {
+      return { valid: false, error: error as Error }
+    }
+  }
+
+  // 统一API请求处理函数, 直连失败时改用代理
+  async function _executeApiRequest(params: Record<string, unknown>, isStream: boolean, signal?: AbortSignal): Promise<Response> {
+    const errorList: Error[] = []
+    const url = isStream
+      ? `${baseUrl}/models/${model.id}:streamGenerateContent?alt=sse`
+      : `${baseUrl}/models/${model.id}:generateContent`
+    if (!useProxy) {
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'x-goog-api-key': apiKey,
+          },
+          body: JSON.stringify(params),
+          signal,
+        });
+        if (!response.ok) {
+          throw new Error(`API 请求失败: ${await response.text()}`)
+        }
+        return response
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error
+        }
+        console.log('本地请求失败，尝试使用代理:', error);
+        errorList.push(error as Error)
+        useProxy = true;
+      }
+    }
+
+    // 使用代理请求
+    const response = await fetch(LLM_PROXY_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        url,
+        apiKey: apiKey,
+        kind: 'gemini',
+        ...params
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      errorList.push(new Error(`API 请求失败: ${error}`))
+      throw new Error(errorList.join('\n'));
+    }
+
+    return response
+  }
+
+  async function* completionsGenerator(
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    prompt = '',
+    signal?: AbortSignal,
+    usage?: UsageContext
+  ): AsyncGenerator<string, void, unknown> {
+    const params = {
+      ...baseRequestParams,
+      ...formatMessages(messages, prompt),
+    }
+
+    try {
+      const response = await _executeApiRequest(params, true, signal);
+      if (!response.body) throw new Error('No response body')
+      yield* processStream(response.body, signal, tokenUsage => recordUsage(model, usage, tokenUsage));
+    } catch (error) {
+      if (signal?.aborted) {
+        return
+      }
+
+      displayError(error, 'Stream completion')
+      throw error;
+    }
+  }
+
+  async function completions(
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    prompt = '',
+    signal?: AbortSignal,
+    usage?: UsageContext
+  ): Promise<string> {
+    const params = {
+      ...baseRequestParams,
+      ...formatMessages(messages, prompt),
+    }
+
+    try {
+      const response = await _executeApiRequest(params, false, signal);
+      const result = await response.json() as GeminiResponse
+      if (result.usageMetadata) {
+        recordUsage(model, usage, formatUsage(result.usageMetadata))
+      }
+      const parts = getParts(result)
+      const thinking = parts.map(part => part.thought ? part.text : '').join('')
+      const content = parts.map(part => part.thought ? '' : part.text).join('')
+      if (!content) checkBlocked(result)
+      return thinking ? `${thinking}\n${content}` : content;
+    } catch (error) {
+      if (signal?.aborted) {
+        return ''
+      }
+      displayError(error, 'Completion')
+      throw error;
+    }
+  }
+
+  return {
+    name: model.name,
+    id: model.id,
+    Provider: provider,
+    completionsGenerator,
+    completions,
+    check,
+  }
+}
+
+// 将 openai 格式的消息转换为 Gemini 格式: system 消息合并到 systemInstruction, 相邻同角色消息合并
+function formatMessages(messages: OpenAI.Chat.ChatCompletionMessageParam[], prompt: string): { systemInstruction?: { parts: { text: string }[] }, contents: GeminiContent[] } {
+  const system: string[] = prompt ? [prompt] : []
+  const contents: GeminiContent[] = []
+
+  for (const message of messages) {
+    const content = getTextContent(message.content)
+    if (message.role === 'system' || message.role === 'developer') {
+      if (content) system.push(content)
+      continue
+    }
+    if (message.role !== 'user' && message.role !== 'assistant') continue
+    if (!content) continue
+    const role = message.role === 'assistant' ? 'model' : 'user'
+    const last = contents[contents.length - 1]
+    if (last?.role === role) {
+      last.parts.push({ text: content })
+    } else {
+      contents.push({ role, parts: [{ text: content }] })
+    }
+  }
+
+  return system.length > 0
+    ? { systemInstruction: { parts: [{ text: system.join('\n\n') }] }, contents }
+    : { contents }
+}
+
+// 输出 token 数包含思考所用的 token
+function formatUsage(usage: NonNullable<GeminiResponse['usageMetadata']>): TokenUsage {
+  return {
+    inputTokens: usage.promptTokenCount || 0,
+    outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0)
+  }
+}
+
+function getParts(response: GeminiResponse): { text: string, thought: boolean }[] {
+  return (response.candidates?.[0]?.content?.parts || [])
+    .filter(part => part.text)
+    .map(part => ({ text: part.text!, thought: !!part.thought }))
+}
+
+// 提示词或回复被拦截时抛出异常
+function checkBlocked(response: GeminiResponse) {
+  if (response.error) {
+    throw new Error(response.error.message)
+  }
+  const blockReason = response.promptFeedback?.blockReason
+  if (blockReason) {
+    throw new Error(`Gemini blocked the prompt (${blockReason}). Please rephrase the content or try another model.`)
+  }
+  const finishReason = response.candidates?.[0]?.finishReason
+  if (finishReason && GEMINI_CONFIG.BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new Error(`Gemini stopped the response (${finishReason}). The content was blocked by its safety filters.`)
+  }
+}
+
+// 按 parts 输出文本与思考摘要, 每个 chunk 的 usageMetadata 为累计用量
+async function* processStream(
+  body: ReadableStream<Uint8Array>,
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void
+): AsyncGenerator<string, void, unknown> {
+  let isThinking = false;
+  let hasContent = false;
+  let usage: TokenUsage | null = null;
+
+  try {
+    for await (const chunk of readSSEData<GeminiResponse>(body, signal)) {
+      if (chunk.usageMetadata) usage = formatUsage(chunk.usageMetadata);
+      for (const part of getParts(chunk)) {
+        if (part.thought) {
+          if (!isThinking) {
+            yield '<think>';
+            isThinking = true;
+          }
+          yield part.text;
+        } else {
+          if (isThinking) {
+            yield '</think>';
+            isThinking = false;
+          }
+          hasContent = true;
+          yield part.text;
+        }
+      }
+      // 已输出的内容保留, 只在没有任何回复时报告拦截原因
+      if (!hasContent) checkBlocked(chunk)
+    }
+  } catch (error) {
+    if (signal?.aborted) {
+      return
+    }
+    console.error('Stream completion error:', error);
+    throw error;
+  } finally {
+    // 中途取消的请求同样计费, 记录最后收到的累计用量
+    if (usage) onUsage?.(usage);
+    if (isThinking) {
+      yield '</think>';
+    }
+  }
+}
@@ -1,15 +1,23 @@
-import { LLM_PROXY_PATH, LLM_PROXY_URL } from "@/constants/llm";
+import { LLM_PROXY_PATH, LLM_PROXY_URL, LOCAL_PROVIDER_CONFIG } from "@/constants/llm";
 import { Provider, Model, Client, ClientOptions } from "@/types/llm"
-import { message } from 'antd'
+import { TokenUsage, UsageContext } from "@/types/usage"
+import { recordUsage } from "@/services/Usage"
 import OpenAI from "openai"
+import { displayError } from "./utils"
 
 export function createOpenAIClient(provider: Provider, model: Model, options?: ClientOptions): Client {
 
   const { baseUrl, apiKey } = provider
+  // 本地服务商不经过代理, 且首个 token 可能要等模型加载, 使用可配置的超时时间并不自动重试
+  const isLocal = provider.kind === 'local'
   const openaiClient = new OpenAI({
     dangerouslyAllowBrowser: true,
-    apiKey: apiKey,
+    apiKey: isLocal ? apiKey || LOCAL_PROVIDER_CONFIG.PLACEHOLDER_API_KEY : apiKey,
     baseURL: baseUrl,
+    ...(isLocal ? {
+      timeout: (provider.timeout || LOCAL_PROVIDER_CONFIG.DEFAULT_TIMEOUT) * 1000,
+      maxRetries: 0,
+    } : {}),
   });
 
   const baseRequestParams = {
@@ -42,7 +50,7 @@ export function createOpenAIClient(provider: Provider, model: Model, options?: C
     top_p: number,
     stream?: boolean,
     messages: OpenAI.Chat.ChatCompletionMessageParam[],
-    [key: string]: number | string | boolean | OpenAI.Chat.ChatCompletionMessageParam[] | undefined
+    [key: string]: number | string | boolean | OpenAI.Chat.ChatCompletionMessageParam[] | OpenAI.Chat.ChatCompletionStreamOptions | undefined
   }, isStream: boolean, signal?: AbortSignal): Promise<T> {
     const errorList: Error[] = []
     if (!useProxy) {
@@ -58,6 +66,9 @@ export function createOpenAIClient(provider: Provider, model: Model, options?: C
         if (signal?.aborted) {
           return null as T
         }
+        else if (isLocal) {
+          throw error
+        }
         else {
           console.log('本地请求失败，尝试使用代理:', error);
           errorList.push(error as Error)
@@ -101,18 +112,21 @@ export function createOpenAIClient(provider: Provider, model: Model, options?: C
   async function* completionsGenerator(
     messages: OpenAI.Chat.ChatCompletionMessageParam[],
     prompt = '',
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    usage?: UsageContext
   ): AsyncGenerator<string, void, unknown> {
     const systemMessage = prompt ? formatSystemMessage(prompt) : undefined
     const params = {
       ...baseRequestParams,
       stream: true,
+      // 流式响应的最后一个 chunk 返回 token 用量
+      stream_options: { include_usage: true },
       messages: systemMessage ? [systemMessage, ...messages] : messages,
     }
 
     try {
       const stream = await _executeApiRequest<AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk> | ReadableStream<Uint8Array>>(params, true, signal);
-      yield* processUnifiedStream(stream, signal);
+      yield* processUnifiedStream(stream, signal, tokenUsage => recordUsage(model, usage, tokenUsage));
     } catch (error) {
       if (signal?.aborted) {
         return
@@ -126,7 +140,8 @@ export function createOpenAIClient(provider: Provider, model: Model, options?: C
   async function completions(
     messages: OpenAI.Chat.ChatCompletionMessageParam[],
     prompt = '',
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    usage?: UsageContext
   ): Promise<string> {
     const systemMessage = prompt ? formatSystemMessage(prompt) : undefined
     const params = {
@@ -135,7 +150,11 @@ export function createOpenAIClient(provider: Provider, model: Model, options?: C
     }
 
     try {
-      const result = await _executeApiRequest<{ choices: { message: { reasoning_content?: string, reasoning?: string, content?: string } }[] }>(params, false, signal);
+      const result = await _executeApiRequest<{ choices: { message: { reasoning_content?: string, reasoning?: string, content?: string } }[], usage?: OpenAI.CompletionUsage }>(params, false, signal);
+
+      if (result?.usage) {
+        recordUsage(model, usage, formatUsage(result.usage))
+      }
 
       if (result.choices && result.choices[0]) {
         const choice = result.choices[0]
@@ -168,6 +187,10 @@ function formatSystemMessage(prompt: string): OpenAI.Chat.ChatCompletionMessageP
   return { role: 'system', content: prompt }
 }
 
+function formatUsage(usage: OpenAI.CompletionUsage): TokenUsage {
+  return { inputTokens: usage.prompt_tokens || 0, outputTokens: usage.completion_tokens || 0 }
+}
+
 // 格式化FetchStream
 async function* processFetchStream(body: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<OpenAI.Chat.Completions.ChatCompletionChunk, void, unknown> {
   const reader = body.getReader();
@@ -213,13 +236,23 @@ async function* processFetchStream(body: ReadableStream<Uint8Array>, signal?: Ab
 }
 
 // 统一处理两种流的函数
-async function* processUnifiedStream(stream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk> | ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<string, void, unknown> {
+async function* processUnifiedStream(
+  stream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk> | ReadableStream<Uint8Array>,
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void
+): AsyncGenerator<string, void, unknown> {
   const openAIStyleStream = stream instanceof ReadableStream ? processFetchStream(stream, signal) : stream;
 
   let isThinking = false;
+  // 部分兼容服务在每个 chunk 都返回累计用量, 只记录最后一次
+  let usage: TokenUsage | null = null;
 
   try {
     for await (const chunk of openAIStyleStream) {
+      if (chunk.usage) {
+        usage = formatUsage(chunk.usage)
+      }
+
       type ExtendedDelta = OpenAI.Chat.ChatCompletionChunk.Choice.Delta & {
         reasoning_content?: string;
         reasoning?: string;
@@ -252,14 +285,10 @@ async function* processUnifiedStream(stream: AsyncIterable<OpenAI.Chat.Completio
     console.error('Stream completion error:', error);
     throw error;
   } finally {
+    // 中途取消的请求同样计费, 记录已收到的用量; 用量在最后一个 chunk 中返回时, 取消的请求没有用量可记
+    if (usage) onUsage?.(usage);
     if (isThinking) {
       yield '</think>';
     }
   }
-}
-
-function displayError(error: unknown, type: string): void {
-  console.error(type ? `${type} error:` : '', error)
-  const errorMessage = String(error).slice(0, 100)
-  message.error(errorMessage + (String(error).length > 100 ? '...' : ''))
 }
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { message } from 'antd'
+import OpenAI from 'openai'
+
+export function displayError(error: unknown, type: string): void {
+  console.error(type ? `${type} error:` : '', error)
+  const errorMessage = String(error).slice(0, 100)
+  message.error(errorMessage + (String(error).length > 100 ? '...' : ''))
+}
+
+// 取出 openai 格式消息中的文本内容
+export function getTextContent(content: OpenAI.Chat.ChatCompletionMessageParam['content']): string {
+  if (!content) return ''
+  if (typeof content === 'string') return content
+  return content.map(part => part.type === 'text' ? part.text : '').join('')
+}
+
+// 逐条解析 SSE 事件流中的 data 字段
+export async function* readSSEData<T>(body: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<T, void, unknown> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+
+      // 处理可能分成多块的事件流
+      const lines = buffer.split(/\r?\n/)
+      buffer = lines.pop() || ''
+
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue
+        const data = line.slice(5).trim()
+        if (!data || data === '[DONE]') continue
+
+        try {
+          yield JSON.parse(data) as T
+        } catch (e) {
+          console.error('Error parsing JSON:', e, data)
+        }
+      }
+    }
+  } catch (error) {
+    if (signal?.aborted) {
+      await reader.cancel()
+      return
+    }
+    console.error('Error processing fetch stream:', error)
+    throw error
+  }
+}
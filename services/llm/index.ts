@@ -1,6 +1,8 @@
 import { Model, ClientOptions } from "@/types/llm"
 import { useLLMStore } from '@/store/useLLMStore'
 import { createOpenAIClient } from './clients/openai'
+import { createAnthropicClient } from './clients/anthropic'
+import { createGeminiClient } from './clients/gemini'
 import { LLM_CLIENT_OPTIONS } from "@/constants/llm"
 
 export function createLLMClient(model: Model, options?: ClientOptions) {
@@ -14,12 +16,15 @@ export function createLLMClient(model: Model, options?: ClientOptions) {
     ...(options ? options : {})
   }
 
-  switch (provider.id) {
+  switch (provider.kind) {
+    case 'anthropic':
+      return createAnthropicClient(provider, model, clientOptions)
+    case 'gemini':
+      return createGeminiClient(provider, model, clientOptions)
+    case 'local':
     case 'openai':
-      return createOpenAIClient(provider, model, clientOptions)
     default:
       // 默认使用openai 兼容
       return createOpenAIClient(provider, model, clientOptions)
-    // TODO 未来兼容claude gemini 
   }
 }
\ No newline at end of file
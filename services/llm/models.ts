@@ -0,0 +1,120 @@
+import { Model, Provider } from "@/types/llm"
+import { DEFAULT_MODEL_OPTIONS, LLM_PROXY_URL, LOCAL_PROVIDER_CONFIG, MODEL_LIST_CONFIG } from "@/constants/llm"
+import { getProviderAuthHeaders } from "@/utils/provider"
+
+type ModelListResponse = {
+  data?: { id: string }[]
+  models?: { name: string, supportedGenerationMethods?: string[] }[]
+}
+
+/**
+ * 获取服务商可用的模型
+ *
+ * 请求服务商的 GET /models 接口, 直连失败时改用代理; 本地服务商只直连
+ *
+ * @param provider 服务商
+ * @returns 模型 id 列表
+ * @throws 请求失败或返回格式无法识别时抛出异常
+ */
+export async function fetchProviderModels(provider: Provider): Promise<string[]> {
+  if (provider.kind === 'local') return fetchLocalModels(provider)
+
+  const baseUrl = provider.baseUrl.replace(/\/+$/, '')
+  // Gemini 与 Anthropic 的模型列表分页返回, 一次取尽量多的模型
+  const query = provider.kind === 'gemini' ? `?pageSize=${MODEL_LIST_CONFIG.PAGE_SIZE}`
+    : provider.kind === 'anthropic' ? `?limit=${MODEL_LIST_CONFIG.PAGE_SIZE}` : ''
+  const url = `${baseUrl}${MODEL_LIST_CONFIG.MODELS_PATH}${query}`
+  const headers = {
+    ...getProviderAuthHeaders(provider.kind, provider.apiKey),
+    ...(provider.kind === 'anthropic' ? { 'anthropic-dangerous-direct-browser-access': 'true' } : {})
+  }
+
+  let data: ModelListResponse
+  try {
+    data = await fetchJSON<ModelListResponse>(url, { headers })
+  } catch (error) {
+    console.log('本地请求失败，尝试使用代理:', error)
+    data = await fetchJSON<ModelListResponse>(LLM_PROXY_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url, apiKey: provider.apiKey, kind: provider.kind, method: 'GET' })
+    })
+  }
+
+  if (Array.isArray(data.data)) return data.data.map(model => model.id)
+  // Gemini 的模型名带有 models/ 前缀, 只保留可用于生成内容的模型
+  if (Array.isArray(data.models)) {
+    return data.models
+      .filter(model => !model.supportedGenerationMethods || model.supportedGenerationMethods.includes('generateContent'))
+      .map(model => model.name.replace(/^models\//, ''))
+  }
+  throw new Error('Invalid model list response')
+}
+
+/**
+ * 对比服务商已有的模型与获取到的模型
+ *
+ * @returns added 新增的模型 id, removed 已不在列表中的模型
+ */
+export function diffProviderModels(provider: Provider, modelIds: string[]): { added: string[], removed: Model[] } {
+  const ids = new Set(modelIds)
+  const existing = new Set(provider.models.map(model => model.id))
+  return {
+    added: [...ids].filter(id => !existing.has(id)).sort(),
+    removed: provider.models.filter(model => !ids.has(model.id))
+  }
+}
+
+/**
+ * 以默认参数创建模型
+ */
+export function createModel(provider: Provider, id: string): Model {
+  return {
+    id,
+    name: id,
+    providerId: provider.id,
+    ...DEFAULT_MODEL_OPTIONS
+  }
+}
+
+/**
+ * 获取本地服务商已安装的模型
+ *
+ * 先请求 openai 兼容的 /models 接口(llama.cpp server 与 Ollama 均支持),
+ * 失败时再尝试 Ollama 原生的 /api/tags 接口
+ *
+ * @param provider 本地服务商
+ * @returns 模型 id 列表
+ * @throws 两个接口都无法访问时抛出异常
+ */
+export async function fetchLocalModels(provider: Provider): Promise<string[]> {
+  const baseUrl = provider.baseUrl.replace(/\/+$/, '')
+  const headers = getProviderAuthHeaders(provider.kind, provider.apiKey)
+
+  try {
+    const data = await fetchJSON<ModelListResponse>(`${baseUrl}${MODEL_LIST_CONFIG.MODELS_PATH}`, { headers })
+    if (Array.isArray(data.data)) return data.data.map(model => model.id)
+  } catch (error) {
+    console.log('获取 /models 失败，尝试 Ollama 接口:', error)
+  }
+
+  const data = await fetchJSON<ModelListResponse>(`${new URL(baseUrl).origin}${LOCAL_PROVIDER_CONFIG.OLLAMA_TAGS_PATH}`, { headers })
+  if (!Array.isArray(data.models)) throw new Error('Invalid model list response')
+  return data.models.map(model => model.name)
+}
+
+/**
+ * 按获取到的模型 id 更新服务商的模型列表
+ *
+ * 保留已有模型的参数设置, 新模型使用默认参数, 不在列表中的模型被移除
+ */
+export function mergeProviderModels(provider: Provider, modelIds: string[]): Model[] {
+  const existing = new Map(provider.models.map(model => [model.id, model]))
+  return [...new Set(modelIds)].map(id => existing.get(id) ?? createModel(provider, id))
+}
+
+async function fetchJSON<T>(url: string, init: RequestInit): Promise<T> {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(MODEL_LIST_CONFIG.TIMEOUT) })
+  if (!response.ok) throw new Error(`Request failed with status ${response.status}`)
+  return await response.json() as T
+}
@@ -0,0 +1,14 @@
+import type { RubyAnnotator } from '@/types/ruby'
+
+/**
+ * 中文拼音标注, 使用 pinyin-pro 按词判断多音字, 每个汉字标注带声调的拼音
+ */
+export const chineseRubyAnnotator: RubyAnnotator = {
+  language: 'zh',
+  annotate: async (text: string) => {
+    const { pinyin } = await import('pinyin-pro')
+    return pinyin(text, { type: 'all' }).map(({ origin, pinyin: ruby, isZh }) => (
+      isZh && ruby ? { text: origin, ruby } : { text: origin }
+    ))
+  }
+}
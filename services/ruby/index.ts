@@ -0,0 +1,98 @@
+import type { TextRun } from '@/types/book'
+import type { RubyAnnotator, RubySegment } from '@/types/ruby'
+import { resolveSegmentLanguage } from '@/services/segmenter'
+import { chineseRubyAnnotator } from './chinese'
+import { japaneseRubyAnnotator } from './japanese'
+import { koreanRubyAnnotator } from './korean'
+
+const annotators = new Map<string, RubyAnnotator>()
+
+/**
+ * 登记注音器, 覆盖该语言的默认注音器
+ * @param annotator 注音器, language 取主语言子标签
+ */
+export function registerRubyAnnotator(annotator: RubyAnnotator) {
+  annotators.set(getPrimaryLanguage(annotator.language), annotator)
+}
+
+/**
+ * 获取语言对应的注音器, 没有注音器的语言返回 undefined
+ * @param language 语言代码, 如 'zh-Hant'
+ */
+export function getRubyAnnotator(language: string): RubyAnnotator | undefined {
+  return annotators.get(getPrimaryLanguage(language))
+}
+
+/**
+ * 为文本标注读音
+ *
+ * 按文字选择注音器(与分句相同), 如英文书中的中文引文标注拼音;
+ * 没有注音器或注音器加载失败时不标注。结果按原文对齐, 相邻的无注音片段合并
+ *
+ * @param text 文本
+ * @param language 书籍语言
+ * @returns 覆盖整段原文的注音片段
+ *
+ * @example
+ * ```typescript
+ * await annotateRuby('银行', 'zh');
+ * // [{ text: '银', ruby: 'yín' }, { text: '行', ruby: 'háng' }]
+ * ```
+ */
+export async function annotateRuby(text: string, language?: string): Promise<RubySegment[]> {
+  if (!text.trim()) return [{ text }]
+  const annotator = getRubyAnnotator(resolveSegmentLanguage(text, language))
+  if (!annotator) return [{ text }]
+  try {
+    return alignSegments(text, await annotator.annotate(text))
+  } catch (error) {
+    console.error('注音器加载失败:', error)
+    return [{ text }]
+  }
+}
+
+/**
+ * 为带格式文本标注读音
+ *
+ * 已有注音(如 EPUB 中的 <ruby>)的 run 保持不变, 其余 run 按注音片段拆分, 保留原有格式
+ *
+ * @param runs 一行的 run
+ * @param language 书籍语言
+ */
+export async function annotateRuns(runs: TextRun[], language?: string): Promise<TextRun[]> {
+  const annotated = await Promise.all(runs.map(async run => {
+    if (run.ruby) return [run]
+    const segments = await annotateRuby(run.text, language)
+    return segments.map(({ text, ruby }): TextRun => ruby ? { ...run, text, ruby } : { ...run, text })
+  }))
+  return annotated.flat()
+}
+
+function alignSegments(text: string, segments: RubySegment[]): RubySegment[] {
+  const aligned: RubySegment[] = []
+  const push = (segment: RubySegment) => {
+    const last = aligned[aligned.length - 1]
+    if (last && !last.ruby && !segment.ruby) last.text += segment.text
+    else aligned.push({ ...segment })
+  }
+  let cursor = 0
+  segments.forEach(segment => {
+    if (!segment.text) return
+    const index = text.indexOf(segment.text, cursor)
+    // 注音器改写过的文本无法对齐, 跳过, 由后面的间隙补回原文
+    if (index === -1) return
+    if (index > cursor) push({ text: text.slice(cursor, index) })
+    push(segment)
+    cursor = index + segment.text.length
+  })
+  if (cursor < text.length) push({ text: text.slice(cursor) })
+  return aligned
+}
+
+function getPrimaryLanguage(language: string): string {
+  return language.split(/[-_]/)[0].toLowerCase()
+}
+
+registerRubyAnnotator(chineseRubyAnnotator)
+registerRubyAnnotator(japaneseRubyAnnotator)
+registerRubyAnnotator(koreanRubyAnnotator)
@@ -0,0 +1,38 @@
+import type { RubyAnnotator, RubySegment } from '@/types/ruby'
+import { KANJI_PATTERN } from '@/constants/ruby'
+import { japaneseTokenizer } from '@/services/tokenizer/japanese'
+
+/**
+ * 日语振假名标注, 读音来自 kuromoji 的形态素解析
+ *
+ * 只标注汉字部分, 送假名不重复标注, 如「食べる」标注为「食(た)べる」
+ */
+export const japaneseRubyAnnotator: RubyAnnotator = {
+  language: 'ja',
+  annotate: async (text: string) => {
+    const tokens = await japaneseTokenizer.tokenize(text)
+    return tokens.flatMap(token => (
+      token.reading && KANJI_PATTERN.test(token.text)
+        ? alignFurigana(token.text, toHiragana(token.reading))
+        : [{ text: token.text }]
+    ))
+  }
+}
+
+// 按假名部分在读音中的位置切出各段汉字的读音, 对不上时整个词标注读音
+function alignFurigana(surface: string, reading: string): RubySegment[] {
+  const groups = surface.match(new RegExp(`${KANJI_PATTERN.source}+|(?:(?!${KANJI_PATTERN.source}).)+`, 'g')) ?? [surface]
+  const pattern = groups.map(group => KANJI_PATTERN.test(group) ? '(.+?)' : `(${escapeRegExp(toHiragana(group))})`).join('')
+  const match = new RegExp(`^${pattern}$`).exec(reading)
+  if (!match) return [{ text: surface, ruby: reading }]
+  return groups.map((group, i) => KANJI_PATTERN.test(group) ? { text: group, ruby: match[i + 1] } : { text: group })
+}
+
+// 片假名转平假名, 长音符等其他字符不变
+function toHiragana(text: string): string {
+  return text.replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60))
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
@@ -0,0 +1,47 @@
+import type { RubyAnnotator, RubySegment } from '@/types/ruby'
+import { HANGUL_FINALS, HANGUL_INITIALS, HANGUL_MEDIALS, HANGUL_SYLLABLE, HANGUL_SYLLABLES_PATTERN } from '@/constants/ruby'
+
+/**
+ * 韩文罗马字标注, 按国语罗马字逐词标注
+ *
+ * 只处理连音(终声后接 ㅇ 时移到下一音节)与流音化(ㄴㄹ、ㄹㄴ 读作 ll), 不处理鼻音化等其他音变
+ */
+export const koreanRubyAnnotator: RubyAnnotator = {
+  language: 'ko',
+  annotate: async (text: string) => {
+    const segments: RubySegment[] = []
+    let cursor = 0
+    for (const match of text.matchAll(HANGUL_SYLLABLES_PATTERN)) {
+      const index = match.index ?? 0
+      if (index > cursor) segments.push({ text: text.slice(cursor, index) })
+      segments.push({ text: match[0], ruby: romanizeHangul(match[0]) })
+      cursor = index + match[0].length
+    }
+    if (cursor < text.length) segments.push({ text: text.slice(cursor) })
+    return segments
+  }
+}
+
+function romanizeHangul(word: string): string {
+  const { BASE, MEDIAL_COUNT, FINAL_COUNT, SILENT_INITIAL, NIEUN_INITIAL, RIEUL_INITIAL, NIEUN_FINAL, RIEUL_FINAL } = HANGUL_SYLLABLE
+  const syllables = [...word].map(char => {
+    const code = char.charCodeAt(0) - BASE
+    return {
+      initial: Math.floor(code / (MEDIAL_COUNT * FINAL_COUNT)),
+      medial: Math.floor(code / FINAL_COUNT) % MEDIAL_COUNT,
+      final: code % FINAL_COUNT
+    }
+  })
+
+  return syllables.map(({ initial, medial, final }, i) => {
+    const previous = syllables[i - 1]
+    const next = syllables[i + 1]
+    let onset = HANGUL_INITIALS[initial]
+    if (previous && initial === SILENT_INITIAL) onset = HANGUL_FINALS[previous.final][2]
+    else if (previous?.final === RIEUL_FINAL && (initial === RIEUL_INITIAL || initial === NIEUN_INITIAL)) onset = 'l'
+    else if (previous?.final === NIEUN_FINAL && initial === RIEUL_INITIAL) onset = 'l'
+    let coda = next?.initial === SILENT_INITIAL ? HANGUL_FINALS[final][1] : HANGUL_FINALS[final][0]
+    if (final === NIEUN_FINAL && next?.initial === RIEUL_INITIAL) coda = 'l'
+    return onset + HANGUL_MEDIALS[medial] + coda
+  }).join('')
+}
@@ -0,0 +1,73 @@
+import nlp from 'compromise'
+import type { Book } from '@/types/book'
+import type { SegmenterScript, SentenceSegmenter } from '@/types/segmenter'
+import { DEFAULT_SEGMENTER_RULE, SCRIPT_LANGUAGES, SCRIPT_PATTERNS, SEGMENTER_RULES } from '@/constants/segmenter'
+import { createRuleSegmenter } from './rule'
+
+export { createRuleSegmenter } from './rule'
+
+const segmenters = new Map<string, SentenceSegmenter>()
+
+/**
+ * 登记分句器, 覆盖该语言的默认分句器
+ * @param segmenter 分句器, language 取主语言子标签
+ */
+export function registerSegmenter(segmenter: SentenceSegmenter) {
+  segmenters.set(getPrimaryLanguage(segmenter.language), segmenter)
+}
+
+/**
+ * 获取语言对应的分句器, 未登记的语言按 SEGMENTER_RULES 创建
+ * @param language 语言代码, 如 'zh-Hant'
+ */
+export function getSegmenter(language: string): SentenceSegmenter {
+  const key = getPrimaryLanguage(language)
+  const registered = segmenters.get(key)
+  if (registered) return registered
+
+  const segmenter = createRuleSegmenter(key, SEGMENTER_RULES[key] ?? DEFAULT_SEGMENTER_RULE)
+  segmenters.set(key, segmenter)
+  return segmenter
+}
+
+/**
+ * 确定段落的分句语言
+ * 段落文字与书籍语言一致时使用书籍语言, 否则(如英文书中的中文引文)按段落文字选择
+ * @param text 段落纯文本
+ * @param language 书籍语言
+ */
+export function resolveSegmentLanguage(text: string, language?: string): string {
+  const script = detectScript(text)
+  if (language) {
+    const rule = SEGMENTER_RULES[getPrimaryLanguage(language)] ?? DEFAULT_SEGMENTER_RULE
+    if (rule.scripts.includes(script)) return language
+  }
+  return SCRIPT_LANGUAGES[script]
+}
+
+/**
+ * 将段落切分为句子
+ * @param text 段落纯文本
+ * @param language 书籍语言
+ */
+export function segmentSentences(text: string, language?: string): string[] {
+  return getSegmenter(resolveSegmentLanguage(text, language)).segment(text)
+}
+
+/**
+ * 书籍的分句语言, 书籍设置中指定的优先于元数据中的语言
+ */
+export function getBookSegmentLanguage(book: Pick<Book, 'segmentLanguage' | 'metadata'>): string | undefined {
+  return book.segmentLanguage || book.metadata.language || undefined
+}
+
+function getPrimaryLanguage(language: string): string {
+  return language.split(/[-_]/)[0].toLowerCase()
+}
+
+function detectScript(text: string): SegmenterScript {
+  return SCRIPT_PATTERNS.find(({ pattern }) => pattern.test(text))?.script ?? 'latin'
+}
+
+// 不支持 Intl.Segmenter 的环境中英文仍使用 compromise 断句
+registerSegmenter(createRuleSegmenter('en', SEGMENTER_RULES.en, text => nlp(text).sentences().out('array')))
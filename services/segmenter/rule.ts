@@ -0,0 +1,147 @@
+import type { SegmenterRule, SentenceSegmenter } from '@/types/segmenter';
+
+/**
+ * 按分句规则创建分句器
+ *
+ * 先由 Intl.Segmenter 初步断句(不可用时使用 fallback 或按句末标点断句),
+ * 再按规则合并被误断的句子: 未闭合的引号内、缩写与人名缩写之后、句中的省略号之后
+ *
+ * @param language - 语言代码
+ * @param rule - 分句规则
+ * @param fallback - Intl.Segmenter 不可用时的初步断句方法
+ * @returns SentenceSegmenter 分句器
+ *
+ * @example
+ * ```typescript
+ * const segmenter = createRuleSegmenter('zh', SEGMENTER_RULES.zh);
+ * segmenter.segment('他说：「走吧。快点。」然后走了。'); // ['他说：「走吧。快点。」', '然后走了。']
+ * ```
+ */
+export function createRuleSegmenter(
+  language: string,
+  rule: SegmenterRule,
+  fallback?: (text: string) => string[]
+): SentenceSegmenter {
+  const intl = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+    ? new Intl.Segmenter(language, { granularity: 'sentence' })
+    : null
+
+  const split = (text: string): string[] => {
+    if (intl) return Array.from(intl.segment(text), item => item.segment)
+    if (fallback) return fallback(text)
+    return splitByTerminators(text, rule)
+  }
+
+  return {
+    language,
+    segment: (text: string) => {
+      const pieces = rule.splitOnSpace
+        ? split(text).flatMap(piece => piece.split(/(\s+)/))
+        : split(text)
+      return mergePieces(pieces, rule, getBalancedQuotes(text, rule))
+        .map(sentence => sentence.trim())
+        .filter(Boolean)
+    }
+  }
+}
+
+function mergePieces(pieces: string[], rule: SegmenterRule, quotes: [string, string][]): string[] {
+  const sentences: string[] = []
+  let current = ''
+  for (let piece of pieces) {
+    // 闭合引号前有空格时(如法文的 « … »), Intl.Segmenter 会把闭合引号断到下一句
+    const closing = getLeadingClosers(current, piece, quotes)
+    if (closing) {
+      current += closing
+      piece = piece.slice(closing.length)
+    }
+    if (!current.trim() || !piece.trim() || shouldJoin(current, piece, rule, quotes)) {
+      current += piece
+      continue
+    }
+    sentences.push(current)
+    current = piece
+  }
+  if (current) sentences.push(current)
+  return sentences
+}
+
+function shouldJoin(current: string, next: string, rule: SegmenterRule, quotes: [string, string][]): boolean {
+  if (hasOpenQuote(current, quotes)) return true
+
+  const text = current.trimEnd()
+  const word = (text.split(/\s+/).pop() ?? '').replace(/^[("'“‘«„»]+/, '')
+  if (rule.abbreviations.includes(word.toLowerCase())) return true
+  if (rule.initials && isInitial(word)) return true
+
+  const rest = next.trimStart()
+  // 引号后紧接引述动词(如日文的「…。」と言った), 仍是同一句
+  if (rule.continuations?.some(word => rest.startsWith(word)) && quotes.some(([, close]) => text.endsWith(close))) return true
+
+  const first = rest.charAt(0)
+  if (rule.ellipsis && /(\.\.\.|…)$/.test(text) && first !== first.toUpperCase()) return true
+
+  return false
+}
+
+// 只检查段落内成对出现的引号, 跨段落的引号(如连续多段的对话)不影响断句
+function getBalancedQuotes(text: string, rule: SegmenterRule): [string, string][] {
+  return rule.quotes.filter(([open, close]) => open === close
+    ? countChar(text, open) % 2 === 0
+    : countChar(text, open) === countChar(text, close)
+  )
+}
+
+function getLeadingClosers(current: string, next: string, quotes: [string, string][]): string {
+  let length = 0
+  while (length < next.length) {
+    const char = next[length]
+    if (/\s/.test(char)) {
+      length++
+      continue
+    }
+    const pair = quotes.find(([, close]) => close === char)
+    if (!pair || !hasOpenQuote(current + next.slice(0, length), [pair])) break
+    length++
+  }
+  // 只有空白时不移动
+  return next.slice(0, length).trim() ? next.slice(0, length).trimEnd() : ''
+}
+
+function hasOpenQuote(text: string, quotes: [string, string][]): boolean {
+  return quotes.some(([open, close]) => open === close
+    ? countChar(text, open) % 2 === 1
+    : countChar(text, open) > countChar(text, close)
+  )
+}
+
+function countChar(text: string, char: string): number {
+  return text.split(char).length - 1
+}
+
+function isInitial(word: string): boolean {
+  return word.length === 2 && word[1] === '.' && word[0] !== word[0].toLowerCase()
+}
+
+function splitByTerminators(text: string, rule: SegmenterRule): string[] {
+  const closers = rule.quotes.map(([, close]) => close).join('')
+  const pieces: string[] = []
+  let start = 0
+  let index = 0
+  while (index < text.length) {
+    if (!rule.terminators.includes(text[index])) {
+      index++
+      continue
+    }
+    let end = index + 1
+    while (end < text.length && (rule.terminators.includes(text[end]) || closers.includes(text[end]))) end++
+    // 以空白分隔句子的语言, 标点后没有空白时不断句(如小数点、网址)
+    if (!rule.spaced || end >= text.length || /\s/.test(text[end])) {
+      pieces.push(text.slice(start, end))
+      start = end
+    }
+    index = end
+  }
+  if (start < text.length) pieces.push(text.slice(start))
+  return pieces
+}
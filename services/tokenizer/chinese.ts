@@ -0,0 +1,42 @@
+import type { WordToken, WordTokenizer } from '@/types/tokenizer'
+import { CHINESE_POS_CHUNKS } from '@/constants/tokenizer'
+
+interface Segmentit {
+  doSegment: (text: string, options?: { stripPunctuation?: boolean }) => { w: string, p?: number }[]
+}
+
+let segmentit: Promise<{ segment: Segmentit, getPOSTag: (pos: number) => string }> | null = null
+
+/**
+ * 中文分词器, 使用 segmentit 按词典分词并标注词性
+ *
+ * 词典随模块打包, 约 4MB, 首次分词时才加载
+ */
+export const chineseTokenizer: WordTokenizer = {
+  language: 'zh',
+  tokenize: async (text: string) => {
+    const { segment, getPOSTag } = await loadSegmentit()
+    return segment.doSegment(text, { stripPunctuation: false }).map((word): WordToken => {
+      // 兼类词标注为 "l,m" 的形式, 取第一个
+      const pos = word.p ? getPOSTag(word.p).split(',')[0] : ''
+      return {
+        text: word.w,
+        isWord: pos !== 'w' && word.w.trim() !== '',
+        chunk: CHINESE_POS_CHUNKS[pos[0]] ?? 'Noun',
+        pos: pos || undefined
+      }
+    })
+  }
+}
+
+function loadSegmentit() {
+  if (!segmentit) {
+    segmentit = import('segmentit').then(({ Segment, useDefault, enPOSTag }) => ({
+      segment: useDefault(new Segment()) as Segmentit,
+      getPOSTag: enPOSTag as (pos: number) => string
+    }))
+    // 加载失败时允许下次重试
+    segmentit.catch(() => { segmentit = null })
+  }
+  return segmentit
+}
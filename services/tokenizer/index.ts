@@ -0,0 +1,161 @@
+import nlp from 'compromise'
+import type { WordChunk, WordToken, WordTokenizer } from '@/types/tokenizer'
+import type { WordSpan } from '@/types/word'
+import { resolveSegmentLanguage } from '@/services/segmenter'
+import { normalizeLemma } from '@/utils/word'
+import { chineseTokenizer } from './chinese'
+import { japaneseTokenizer } from './japanese'
+
+const tokenizers = new Map<string, WordTokenizer>()
+
+/**
+ * 登记分词器, 覆盖该语言的默认分词器
+ * @param tokenizer 分词器, language 取主语言子标签
+ */
+export function registerTokenizer(tokenizer: WordTokenizer) {
+  tokenizers.set(getPrimaryLanguage(tokenizer.language), tokenizer)
+}
+
+/**
+ * 获取语言对应的分词器, 未登记的语言按 Intl.Segmenter 的词粒度分词
+ * @param language 语言代码, 如 'zh-Hant'
+ */
+export function getTokenizer(language: string): WordTokenizer {
+  const key = getPrimaryLanguage(language)
+  return tokenizers.get(key) ?? createIntlTokenizer(key)
+}
+
+/**
+ * 将句子切分为可点击的词
+ *
+ * 按句子文字选择分词器(与分句相同), 分词器加载失败时改用 Intl.Segmenter;
+ * 结果按原文对齐, 分词器丢弃的空白与标点作为不可点击的片段补回
+ *
+ * @param text 句子
+ * @param language 书籍语言
+ * @returns 覆盖整句原文的词
+ *
+ * @example
+ * ```typescript
+ * await tokenizeWords('我们去公园。', 'zh');
+ * // [{ text: '我们', isWord: true, chunk: 'Noun', pos: 'r' }, { text: '去', ... }, ..., { text: '。', isWord: false }]
+ * ```
+ */
+export async function tokenizeWords(text: string, language?: string): Promise<WordToken[]> {
+  if (!text.trim()) return []
+  const key = resolveWordLanguage(text, language)
+  let tokens: WordToken[]
+  try {
+    tokens = await getTokenizer(key).tokenize(text)
+  } catch (error) {
+    console.error('分词器加载失败, 改用 Intl.Segmenter:', error)
+    tokens = await createIntlTokenizer(key).tokenize(text)
+  }
+  return alignTokens(text, tokens)
+}
+
+/**
+ * 句子中的词使用的语言, 与分词器的选择一致, 用作词状态的语言
+ * @param text 句子
+ * @param language 书籍语言
+ * @returns 主语言子标签, 如 'en'
+ */
+export function resolveWordLanguage(text: string, language?: string): string {
+  return getPrimaryLanguage(resolveSegmentLanguage(text, language))
+}
+
+/**
+ * 提取句子中需要记录状态的词及其位置
+ *
+ * @param text 句子
+ * @param language 书籍语言
+ * @returns 按位置排列的词, 不含标点与纯数字
+ *
+ * @example
+ * ```typescript
+ * await extractWords('The cats ran.', 'en');
+ * // [{ start: 0, end: 3, text: 'The', lemma: 'the', language: 'en' }, { start: 4, end: 8, text: 'cats', lemma: 'cat', ... }, ...]
+ * ```
+ */
+export async function extractWords(text: string, language?: string): Promise<WordSpan[]> {
+  const wordLanguage = resolveWordLanguage(text, language)
+  const words: WordSpan[] = []
+  let offset = 0
+  for (const token of await tokenizeWords(text, language)) {
+    const lemma = token.isWord ? normalizeLemma(token) : ''
+    if (lemma) words.push({ start: offset, end: offset + token.text.length, text: token.text, lemma, language: wordLanguage })
+    offset += token.text.length
+  }
+  return words
+}
+
+/**
+ * 提取多个句子中出现的词, 按语言与原形去重
+ *
+ * @param sentences 句子
+ * @param language 书籍语言
+ * @param yieldInterval 每分词这么多句后让出一次线程, 在主线程中调用时传入
+ * @returns 去重后的词, 位置为该词首次出现的句子中的位置
+ */
+export async function extractUniqueWords(sentences: string[], language?: string, yieldInterval?: number): Promise<WordSpan[]> {
+  const words = new Map<string, WordSpan>()
+  for (const [index, sentence] of sentences.entries()) {
+    for (const word of await extractWords(sentence, language)) {
+      const key = `${word.language}:${word.lemma}`
+      if (!words.has(key)) words.set(key, word)
+    }
+    if (yieldInterval && (index + 1) % yieldInterval === 0) {
+      await new Promise(resolve => setTimeout(resolve, 0))
+    }
+  }
+  return [...words.values()]
+}
+
+function createIntlTokenizer(language: string): WordTokenizer {
+  return {
+    language,
+    tokenize: async (text: string) => {
+      // 不支持 Intl.Segmenter 的环境按空白分词
+      if (typeof Intl === 'undefined' || !('Segmenter' in Intl)) {
+        return text.split(/(\s+)/).filter(Boolean).map(word => ({ text: word, isWord: !!word.trim() }))
+      }
+      const segmenter = new Intl.Segmenter(language, { granularity: 'word' })
+      return [...segmenter.segment(text)].map(({ segment, isWordLike }) => ({ text: segment, isWord: !!isWordLike }))
+    }
+  }
+}
+
+// 英文沿用 compromise 的分词与词性, 原形取词根, 如 ran -> run
+const englishTokenizer: WordTokenizer = {
+  language: 'en',
+  tokenize: async (text: string) => {
+    const doc = nlp(text)
+    doc.compute('root')
+    const terms = doc.terms().json() as { text: string, terms: { chunk?: WordChunk, root?: string }[] }[]
+    return terms.map(term => ({ text: term.text, isWord: true, chunk: term.terms[0]?.chunk, lemma: term.terms[0]?.root || undefined }))
+  }
+}
+
+function alignTokens(text: string, tokens: WordToken[]): WordToken[] {
+  const aligned: WordToken[] = []
+  let cursor = 0
+  tokens.forEach(token => {
+    if (!token.text) return
+    const index = text.indexOf(token.text, cursor)
+    // 分词器改写过的词(如全角转半角)无法对齐, 跳过, 由后面的间隙补回原文
+    if (index === -1) return
+    if (index > cursor) aligned.push({ text: text.slice(cursor, index), isWord: false })
+    aligned.push(token)
+    cursor = index + token.text.length
+  })
+  if (cursor < text.length) aligned.push({ text: text.slice(cursor), isWord: false })
+  return aligned
+}
+
+function getPrimaryLanguage(language: string): string {
+  return language.split(/[-_]/)[0].toLowerCase()
+}
+
+registerTokenizer(englishTokenizer)
+registerTokenizer(chineseTokenizer)
+registerTokenizer(japaneseTokenizer)
@@ -0,0 +1,87 @@
+import { gunzipSync } from 'fflate'
+import type { IpadicFeatures, Tokenizer } from 'kuromoji'
+import type { WordToken, WordTokenizer } from '@/types/tokenizer'
+import { JAPANESE_INFLECTION_POS, JAPANESE_POS_CHUNKS } from '@/constants/tokenizer'
+
+type LoadCallback = (error: unknown, buffer: ArrayBufferLike | null) => void
+
+interface DictionaryLoader {
+  loadArrayBuffer: (file: string, callback: LoadCallback) => void
+  load: (callback: (error: unknown, dic: unknown) => void) => void
+}
+
+let tokenizer: Promise<Tokenizer<IpadicFeatures>> | null = null
+
+/**
+ * 日语分词器, 使用 kuromoji 做形态素解析
+ *
+ * 动词、形容词后的助动词并入前一个词, 点击时得到「見た」而不是「見」「た」
+ */
+export const japaneseTokenizer: WordTokenizer = {
+  language: 'ja',
+  tokenize: async (text: string) => {
+    const features = (await loadTokenizer()).tokenize(text)
+    return features.reduce((tokens, feature) => {
+      const last = tokens[tokens.length - 1]
+      if (last && JAPANESE_INFLECTION_POS.includes(feature.pos) && (last.chunk === 'Verb' || last.chunk === 'Adjective')) {
+        last.text += feature.surface_form
+        last.reading = last.reading && feature.reading ? last.reading + feature.reading : undefined
+        return tokens
+      }
+      tokens.push({
+        text: feature.surface_form,
+        isWord: feature.pos !== '記号',
+        chunk: JAPANESE_POS_CHUNKS[feature.pos] ?? 'Noun',
+        pos: feature.pos,
+        lemma: feature.basic_form !== '*' ? feature.basic_form : undefined,
+        // 词典外的词没有读音
+        reading: feature.reading && feature.reading !== '*' ? feature.reading : undefined
+      })
+      return tokens
+    }, [] as WordToken[])
+  }
+}
+
+// kuromoji 在浏览器中按 path.join 拼接词典地址, 无法使用 webpack 输出的资源地址, 因此自行加载词典
+function loadTokenizer(): Promise<Tokenizer<IpadicFeatures>> {
+  if (!tokenizer) {
+    tokenizer = (async () => {
+      const [{ default: DictionaryLoader }, { default: KuromojiTokenizer }] = await Promise.all([
+        import('kuromoji/src/loader/DictionaryLoader'),
+        import('kuromoji/src/Tokenizer')
+      ])
+      const urls = getDictionaryUrls()
+      const loader: DictionaryLoader = new DictionaryLoader('')
+      loader.loadArrayBuffer = (file, callback) => {
+        fetch(urls[file])
+          .then(response => response.arrayBuffer())
+          .then(buffer => callback(null, gunzipSync(new Uint8Array(buffer)).buffer))
+          .catch(error => callback(error, null))
+      }
+      return new Promise<Tokenizer<IpadicFeatures>>((resolve, reject) => {
+        loader.load((error, dic) => error ? reject(error) : resolve(new KuromojiTokenizer(dic)))
+      })
+    })()
+    // 加载失败时允许下次重试
+    tokenizer.catch(() => { tokenizer = null })
+  }
+  return tokenizer
+}
+
+// 词典文件由 webpack 作为静态资源输出, new URL 须使用字面量路径
+function getDictionaryUrls(): Record<string, URL> {
+  return {
+    'base.dat.gz': new URL('kuromoji/dict/base.dat.gz', import.meta.url),
+    'check.dat.gz': new URL('kuromoji/dict/check.dat.gz', import.meta.url),
+    'tid.dat.gz': new URL('kuromoji/dict/tid.dat.gz', import.meta.url),
+    'tid_pos.dat.gz': new URL('kuromoji/dict/tid_pos.dat.gz', import.meta.url),
+    'tid_map.dat.gz': new URL('kuromoji/dict/tid_map.dat.gz', import.meta.url),
+    'cc.dat.gz': new URL('kuromoji/dict/cc.dat.gz', import.meta.url),
+    'unk.dat.gz': new URL('kuromoji/dict/unk.dat.gz', import.meta.url),
+    'unk_pos.dat.gz': new URL('kuromoji/dict/unk_pos.dat.gz', import.meta.url),
+    'unk_map.dat.gz': new URL('kuromoji/dict/unk_map.dat.gz', import.meta.url),
+    'unk_char.dat.gz': new URL('kuromoji/dict/unk_char.dat.gz', import.meta.url),
+    'unk_compat.dat.gz': new URL('kuromoji/dict/unk_compat.dat.gz', import.meta.url),
+    'unk_invoke.dat.gz': new URL('kuromoji/dict/unk_invoke.dat.gz', import.meta.url),
+  }
+}
@@ -1,7 +1,8 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import { Bookmark } from '@/types/book'
+import { Bookmark, ContentLocation } from '@/types/book'
 import { generateUUID } from '@/utils/uuid'
+import { createSentenceAnchor } from '@/utils/anchor'
 import dayjs from 'dayjs'
 
 interface BookmarkStore {
@@ -11,6 +12,7 @@ interface BookmarkStore {
   addBookmark: (bookmark: Omit<Bookmark, 'id' | 'createTime'>) => void
   removeBookmark: (bookId: string, bookmarkId: string) => void
   removeAllBookmarks: (bookId: string) => void
+  relocateBookmarks: (bookId: string, locate: (bookmark: Bookmark) => ContentLocation) => void
   getBookmarkCount: (bookId?: string) => number
 }
 
@@ -63,6 +65,19 @@ export const useBookmarkStore = create<BookmarkStore>()(
         return { bookmarksByBook: rest }
       }),
 
+      // 书籍编辑或重新分句后按内容锚点更新书签位置
+      relocateBookmarks: (bookId, locate) => set((state) => {
+        const bookBookmarks = state.bookmarksByBook[bookId]
+        if (!bookBookmarks) return state
+
+        return {
+          bookmarksByBook: {
+            ...state.bookmarksByBook,
+            [bookId]: bookBookmarks.map(bookmark => ({ ...bookmark, ...locate(bookmark) }))
+          }
+        }
+      }),
+
       getBookmarkCount: (bookId?: string) => {
         const { bookmarksByBook } = get()
         if (bookId) {
@@ -73,6 +88,17 @@ export const useBookmarkStore = create<BookmarkStore>()(
     }),
     {
       name: 'bookmark-storage',
+      version: 1,
+      // 旧书签只记录了行下标, 按书签文本补上只含内容哈希的锚点, 编辑书籍前再按行补全上下文
+      migrate: (persistedState, version) => {
+        const state = persistedState as Pick<BookmarkStore, 'bookmarksByBook'>
+        if (version < 1) {
+          Object.values(state.bookmarksByBook ?? {}).forEach(bookmarks => bookmarks.forEach(bookmark => {
+            if (!bookmark.anchor) bookmark.anchor = createSentenceAnchor(bookmark.sentence)
+          }))
+        }
+        return state as BookmarkStore
+      }
     }
   )
 ) 
\ No newline at end of file
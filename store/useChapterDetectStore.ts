@@ -0,0 +1,26 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { ChapterDetectOptions } from '@/types/book'
+import { DEFAULT_CHAPTER_DETECT_OPTIONS } from '@/constants/chapter'
+
+interface ChapterDetectStore {
+  // 纯文本书籍导入时使用的章节识别配置
+  chapterDetectOptions: ChapterDetectOptions
+  setChapterDetectOptions: (options: Partial<ChapterDetectOptions>) => void
+  resetChapterDetectOptions: () => void
+}
+
+export const useChapterDetectStore = create<ChapterDetectStore>()(
+  persist(
+    (set) => ({
+      chapterDetectOptions: DEFAULT_CHAPTER_DETECT_OPTIONS,
+      setChapterDetectOptions: (options) => set((state) => ({
+        chapterDetectOptions: { ...state.chapterDetectOptions, ...options }
+      })),
+      resetChapterDetectOptions: () => set({ chapterDetectOptions: DEFAULT_CHAPTER_DETECT_OPTIONS }),
+    }),
+    {
+      name: 'chapter-detect-storage',
+    }
+  )
+)
@@ -1,7 +1,7 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 import { Model, Provider } from '@/types/llm'
-import { newProvider } from '@/utils/provider'
+import { isProviderConfigured, newProvider } from '@/utils/provider'
 import { defaultProviders } from '@/config/llm'
 interface LLMStore {
   level: number
@@ -35,12 +35,7 @@ export const useLLMStore = create<LLMStore>()(
       editProvider: (provider: Provider) => set({ providers: get().providers.map(p => p.id === provider.id ? provider : p) }),
       addProvider: () => set({ providers: [...get().providers, newProvider()] }),
       deleteProvider: (providerId: string) => set({ providers: get().providers.filter(p => p.id !== providerId) }),
-      models: () => get().providers.filter(p => {
-        if (!!p.baseUrl && !!p.apiKey && p.models.length > 0) {
-          return true
-        }
-        return false
-      }).map(p => p.models).flat(),
+      models: () => get().providers.filter(isProviderConfigured).map(p => p.models).flat(),
       chatModel: null,
       setChatModel: (model: Model | null) => set({ chatModel: model }),
       parseModel: null,
@@ -0,0 +1,27 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { ReviewCardType } from '@/types/review'
+import { REVIEW_CARD_TYPES, REVIEW_CONFIG } from '@/constants/review'
+
+interface ReviewStore {
+  // 每日新卡片上限
+  newCardsPerDay: number
+  // 复习的卡片类型
+  cardTypes: ReviewCardType[]
+  setNewCardsPerDay: (newCardsPerDay: number) => void
+  setCardTypes: (cardTypes: ReviewCardType[]) => void
+}
+
+export const useReviewStore = create<ReviewStore>()(
+  persist(
+    (set) => ({
+      newCardsPerDay: REVIEW_CONFIG.DEFAULT_NEW_CARDS_PER_DAY,
+      cardTypes: REVIEW_CARD_TYPES,
+      setNewCardsPerDay: (newCardsPerDay) => set({ newCardsPerDay }),
+      setCardTypes: (cardTypes) => set({ cardTypes }),
+    }),
+    {
+      name: 'review-storage',
+    }
+  )
+)
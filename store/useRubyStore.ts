@@ -0,0 +1,24 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+
+// 注音(拼音、振假名、罗马字)按书籍开关
+interface RubyStore {
+  rubyByBook: Record<string, boolean>
+  isRubyEnabled: (bookId: string) => boolean
+  toggleRuby: (bookId: string) => void
+}
+
+export const useRubyStore = create<RubyStore>()(
+  persist(
+    (set, get) => ({
+      rubyByBook: {},
+      isRubyEnabled: (bookId) => !!get().rubyByBook[bookId],
+      toggleRuby: (bookId) => set((state) => ({
+        rubyByBook: { ...state.rubyByBook, [bookId]: !state.rubyByBook[bookId] }
+      })),
+    }),
+    {
+      name: 'ruby-storage',
+    }
+  )
+)
@@ -0,0 +1,22 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { TEXT_ENCODING_TYPE } from '@/types/book'
+import { AUTO_ENCODING } from '@/constants/encoding'
+
+interface UploadStore {
+  // TXT/MD 导入时使用的字符编码, auto 为自动检测
+  encoding: TEXT_ENCODING_TYPE
+  setEncoding: (encoding: TEXT_ENCODING_TYPE) => void
+}
+
+export const useUploadStore = create<UploadStore>()(
+  persist(
+    (set) => ({
+      encoding: AUTO_ENCODING,
+      setEncoding: (encoding) => set({ encoding }),
+    }),
+    {
+      name: 'upload-storage',
+    }
+  )
+)
@@ -0,0 +1,44 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { BudgetAction, ModelPrice } from '@/types/usage'
+import { USAGE_CONFIG } from '@/constants/usage'
+
+interface UsageStore {
+  // 模型价格, key 为 getModelPriceKey 的结果
+  prices: Record<string, ModelPrice>
+  // 价格与预算使用的货币符号
+  currency: string
+  // 月度预算, 为空时不限制
+  monthlyBudget: number | null
+  // 整书翻译等批量任务超出预算时的处理方式
+  budgetAction: BudgetAction
+  setPrice: (key: string, price: ModelPrice | null) => void
+  setCurrency: (currency: string) => void
+  setMonthlyBudget: (monthlyBudget: number | null) => void
+  setBudgetAction: (budgetAction: BudgetAction) => void
+}
+
+export const getModelPriceKey = (providerId: string, modelId: string) => `${providerId}/${modelId}`
+
+export const useUsageStore = create<UsageStore>()(
+  persist(
+    (set, get) => ({
+      prices: {},
+      currency: USAGE_CONFIG.DEFAULT_CURRENCY,
+      monthlyBudget: null,
+      budgetAction: USAGE_CONFIG.DEFAULT_BUDGET_ACTION,
+      setPrice: (key, price) => {
+        const prices = { ...get().prices }
+        if (price) prices[key] = price
+        else delete prices[key]
+        set({ prices })
+      },
+      setCurrency: (currency) => set({ currency }),
+      setMonthlyBudget: (monthlyBudget) => set({ monthlyBudget }),
+      setBudgetAction: (budgetAction) => set({ budgetAction }),
+    }),
+    {
+      name: 'usage-storage',
+    }
+  )
+)
@@ -0,0 +1,48 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { WordStatus } from '@/types/word'
+
+interface WordStatusStore {
+  // 语言 -> 原形 -> 状态, 不记录 new
+  wordsByLanguage: Record<string, Record<string, WordStatus>>
+  // 阅读区是否高亮生词与学习中的词
+  highlightWords: boolean
+  getWordStatus: (language: string, lemma: string) => WordStatus
+  setWordStatus: (language: string, lemma: string, status: WordStatus) => void
+  setWordsStatus: (language: string, lemmas: string[], status: WordStatus) => void
+  toggleHighlightWords: () => void
+}
+
+export const useWordStatusStore = create<WordStatusStore>()(
+  persist(
+    (set, get) => ({
+      wordsByLanguage: {},
+      highlightWords: false,
+
+      getWordStatus: (language, lemma) => {
+        return get().wordsByLanguage[language]?.[lemma] ?? 'new'
+      },
+
+      setWordStatus: (language, lemma, status) => get().setWordsStatus(language, [lemma], status),
+
+      setWordsStatus: (language, lemmas, status) => set((state) => {
+        const words = { ...state.wordsByLanguage[language] }
+        lemmas.forEach(lemma => {
+          if (status === 'new') delete words[lemma]
+          else words[lemma] = status
+        })
+        return {
+          wordsByLanguage: {
+            ...state.wordsByLanguage,
+            [language]: words
+          }
+        }
+      }),
+
+      toggleHighlightWords: () => set((state) => ({ highlightWords: !state.highlightWords })),
+    }),
+    {
+      name: 'word-status-storage',
+    }
+  )
+)
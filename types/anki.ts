@@ -0,0 +1,27 @@
+// vocabulary: 生词本; bookmarks: 书签; translations: 已翻译的句子(ReadBridgeDB.translations)
+export type AnkiExportSource = 'vocabulary' | 'bookmarks' | 'translations';
+
+export interface AnkiExportOptions {
+  sources: AnkiExportSource[];
+  bookId?: string; // 只导出某本书, 未指定时导出全部
+  deckName: string;
+  tts: boolean; // 是否添加 Anki 内置朗读
+}
+
+// 笔记类型与 Anki 中的字段、卡片模板
+export interface AnkiModel {
+  id: number;
+  name: string;
+  type: 'standard' | 'cloze';
+  fields: string[];
+  sortField: number; // 浏览器中排序使用的字段下标
+  questionFormat: string;
+  answerFormat: string;
+}
+
+export interface AnkiNote {
+  model: AnkiModel;
+  guid: string; // 由来源生成, 重复导入时 Anki 更新已有笔记
+  fields: string[]; // 与笔记类型的字段一一对应, 内容为 HTML
+  tags: string[];
+}
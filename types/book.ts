@@ -1,4 +1,6 @@
 import { BOOK_FORMAT, BOOK_MIME_TYPE } from '@/constants/book';
+import { TEXT_ENCODINGS } from '@/constants/encoding';
+import type { WordSpan } from '@/types/word';
 
 export type BOOK_FORMAT_TYPE = typeof BOOK_FORMAT[keyof typeof BOOK_FORMAT];
 export type BOOK_MIME_TYPE_TYPE = typeof BOOK_MIME_TYPE[keyof typeof BOOK_MIME_TYPE];
@@ -16,21 +18,103 @@ export interface Metadata {
   identifier?: string; // 图书唯一标识符
   language: string; // 语言代码
   cover?: Resource;
+  thumbnail?: Resource; // 由封面生成的缩略图, 用于书架展示
   [key: string]: string | undefined | Resource;
 }
 
 export interface FormattedBook {
   metadata: Metadata
   chapterList: PlainTextChapter[]
+  toc?: TocItem[] // 书籍自带的层级目录, 缺省时按章节列表生成
+  resources?: Record<string, Resource> // 章节中引用的图片等资源
+}
+
+export interface ImageBlock {
+  type: 'image';
+  src: string; // Book.resources 的键, EPUB 中为 manifest href
+  alt?: string;
+  caption?: string;
+}
+
+export type TextMark = 'em' | 'strong' | 'code';
+
+export interface TextRun {
+  text: string;
+  marks?: TextMark[];
+  ruby?: string; // 注音(如振假名), 只用于展示, 不计入纯文本
+  href?: string; // 外部链接
+}
+
+// 带格式的段落, 分句、翻译与缓存使用各 run 拼接而成的纯文本
+export interface RichParagraph {
+  type: 'rich';
+  runs: TextRun[];
+}
+
+// 段落为纯文本、带格式文本或图片; 图片段落不参与分句、翻译与朗读
+export type ChapterParagraph = string | RichParagraph | ImageBlock;
+
+// 脚注/尾注, 引用标记已从正文中移除, 按位置挂在引用它的句子上
+export interface ChapterNote {
+  paragraph: number; // 引用所在段落的下标
+  offset: number; // 引用在段落文本中的位置
+  label: string; // 引用标记, 如 "1"、"*"
+  content: string; // 注释正文
 }
 
 export interface PlainTextChapter {
   title: string;
-  paragraphs: string[];
+  paragraphs: ChapterParagraph[];
+  notes?: ChapterNote[];
+}
+
+export interface ChapterDetectOptions {
+  useBuiltinRules: boolean; // 是否启用内置章节标题规则
+  customRules: string[]; // 用户自定义的正则表达式, 支持 /pattern/flags 写法
+  chunkSize: number; // 未识别到章节标题时, 按该字数分块
 }
-interface TocItem {
+
+export type TEXT_ENCODING_TYPE = typeof TEXT_ENCODINGS[number]['value'];
+
+export interface ProcessBookOptions {
+  chapterDetect?: ChapterDetectOptions; // 纯文本书籍的章节识别配置
+  encoding?: TEXT_ENCODING_TYPE; // TXT/MD 的字符编码, 默认自动检测
+}
+
+// 导入阶段: 排队 -> 解压 -> 解析章节 -> 分句 -> 保存
+export type ImportStage = 'queued' | 'unzip' | 'parse' | 'segment' | 'save';
+
+export interface ImportProgress {
+  stage: ImportStage;
+  current?: number; // 当前阶段已处理的数量(页、文件或章节)
+  total?: number;
+}
+
+export type ImportProgressHandler = (progress: ImportProgress) => void;
+
+// 导入结果, 句子索引随书一起保存, 打开书籍时无需再分句
+export interface ImportedBook {
+  book: Book;
+  sentences: SentenceRecord[];
+}
+
+// 主线程与解析 Worker 之间的消息
+export type BookWorkerRequest =
+  | { type: 'import'; id: number; buffer: ArrayBuffer; fileType: BOOK_MIME_TYPE_TYPE; name: string; hash: string; options: ProcessBookOptions }
+  | { type: 'segment'; id: number; paragraphs: ChapterParagraph[]; language?: string }
+  | { type: 'words'; id: number; sentences: string[]; language?: string };
+
+export type BookWorkerResponse =
+  | { type: 'progress'; id: number; progress: ImportProgress }
+  | { type: 'imported'; id: number; result: ImportedBook }
+  | { type: 'segmented'; id: number; lines: string[] }
+  | { type: 'words'; id: number; words: WordSpan[] }
+  | { type: 'error'; id: number; message: string };
+
+export interface TocItem {
   title: string;
-  index: number;
+  index: number; // 对应 chapterList 中的章节下标
+  children?: TocItem[];
 }
 
 export interface Book {
@@ -38,10 +122,13 @@ export interface Book {
   title: string;
   author?: string;
   fileHash: string;
+  format?: BOOK_FORMAT_TYPE; // 源文件格式, 旧版导入的书籍没有该字段
   createTime: number;
   chapterList: PlainTextChapter[];
   toc: TocItem[];
   metadata: Metadata;
+  resources?: Record<string, Resource>; // 每本书只存一份, 由段落中的 ImageBlock 引用
+  segmentLanguage?: string; // 分句语言, 未指定时使用 metadata.language
 }
 
 export interface BookPreview {
@@ -51,23 +138,77 @@ export interface BookPreview {
   cover?: Resource;
 }
 
+// 基于内容的位置锚点, 章节重排、书籍编辑或重新分句后按内容重新找到句子
+export interface ContentAnchor {
+  textHash: string; // 去除空白后的句子内容哈希
+  prefix: string; // 句子之前的一段章节文本(去除空白)
+  suffix: string; // 句子之后的一段章节文本(去除空白)
+}
+
+// 阅读位置, 行下标与句子 id 可能因编辑失效, 以锚点为准重新定位
+export interface ContentLocation {
+  chapterIndex: number;
+  lineIndex: number;
+  sentenceId?: string;
+  anchor?: ContentAnchor;
+}
+
 export interface ReadingProgress {
   bookId: string;
   lastReadTime: number;
-  currentLocation: {
-    chapterIndex: number;
-    lineIndex: number;
-  };
+  currentLocation: ContentLocation;
+  // 由句子索引生成的章节行, 每个段落以一个空行结尾
   sentenceChapters: {
     [chapterIndex: number]: string[];
   }
+  // 与 sentenceChapters 一一对应的句子 id, 段落分隔为空字符串
+  sentenceIds?: {
+    [chapterIndex: number]: string[];
+  }
 }
 
-export type Bookmark = {
+// 句子索引, 导入时整书分句后写入, 阅读位置、书签、翻译与解析缓存均以 id 引用句子
+export interface SentenceRecord {
+  bookId: string;
+  id: string; // 章节-段落-段内偏移-内容哈希, 在书内唯一
+  chapterIndex: number;
+  paragraphIndex: number;
+  offset: number; // 句子在段落纯文本中的起始位置
+  lineIndex: number; // 句子在章节行中的下标
+  text: string;
+}
+
+// 以新版本文件更新书籍时新旧内容的差异, 按去除空白后的内容比较
+export interface BookContentDiff {
+  chapters: {
+    unchanged: number;
+    changed: number; // 标题相同而内容不同
+    added: number;
+    removed: number;
+  };
+  sentences: {
+    unchanged: number;
+    added: number;
+    removed: number;
+  };
+}
+
+// 以新版本文件更新书籍的结果, 列出未能迁移到新句子的内容
+export interface BookUpdateReport extends BookContentDiff {
+  progressMapped: boolean;
+  bookmarks: {
+    mapped: number;
+    unmapped: Bookmark[];
+  };
+  translations: {
+    mapped: number;
+    unmapped: number;
+  };
+}
+
+export type Bookmark = ContentLocation & {
   id: string;
   bookId: string;
   sentence: string;
   createTime: string;
-  chapterIndex: number;
-  lineIndex: number;
 }
\ No newline at end of file
@@ -54,6 +54,8 @@ export interface CacheKeyParams {
   bookId: string;
   /** 句子内容 */
   sentence: string;
+  /** 句子id, 多句合并分析时为各句id以逗号连接 */
+  sentenceId?: string;
   /** 规则ID */
   ruleId: string;
 }
@@ -65,6 +67,7 @@ export type SentenceProcessing = {
   generator: AsyncGenerator<string, void, unknown>,
   id: string,
   text: string,
+  sentenceId?: string,
   fromCache?: boolean,
   bookId?: string,
   signal?: AbortSignal
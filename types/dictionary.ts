@@ -0,0 +1,46 @@
+export type DictionaryFormat = 'stardict' | 'yomichan' | 'json';
+
+// 已导入的词典
+export interface DictionaryInfo {
+  id?: number;
+  name: string;
+  format: DictionaryFormat;
+  language?: string; // 词条的语言, 词典未声明时为空
+  entryCount: number;
+  enabled: boolean; // 停用的词典不参与查词
+  createdAt: Date;
+}
+
+// 词典中的一个词条
+export interface DictionaryEntry {
+  id?: number;
+  dictionaryId: number;
+  term: string; // 查询用的词头, 小写
+  headword: string; // 原始词头
+  reading?: string; // 读音, 如日语假名, 也可用于查询
+  definition: string; // 纯文本释义, 换行分隔
+}
+
+export type ParsedDictionaryEntry = Omit<DictionaryEntry, 'id' | 'dictionaryId' | 'term'>;
+
+export interface ParsedDictionary {
+  name: string;
+  format: DictionaryFormat;
+  language?: string;
+  entries: ParsedDictionaryEntry[];
+}
+
+export interface DictionaryLookupResult {
+  dictionaryId: number;
+  dictionaryName: string;
+  headword: string;
+  reading?: string;
+  definition: string;
+}
+
+// 导入进度, parse: 解析文件; save: 写入词条
+export type DictionaryImportProgress = {
+  stage: 'parse' | 'save';
+  current?: number;
+  total?: number;
+};
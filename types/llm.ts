@@ -1,5 +1,6 @@
 import { OpenAI } from 'openai'
 import { OutputType } from '@/types/prompt'
+import { UsageContext } from '@/types/usage'
 
 export type Model = {
   id: string
@@ -7,13 +8,19 @@ export type Model = {
   providerId: string
   temperature: number
   topP: number
+  thinkingBudget?: number // 思考预算 token 数, 仅 anthropic 与 gemini 接口使用, 为空时不开启思考或不返回思考内容
 }
 
+// 服务商接口类型, 决定使用哪种客户端
+export type ProviderKind = 'openai' | 'anthropic' | 'gemini' | 'local'
+
 export type Provider = {
   id: string
   name: string
+  kind?: ProviderKind // 为空时按 openai 兼容处理
   baseUrl: string
-  apiKey: string
+  apiKey: string // local 服务商可为空
+  timeout?: number // 请求超时秒数, 仅 local 服务商使用
   isDefault?: boolean
   models: Model[]
 }
@@ -22,15 +29,18 @@ export type Client = {
   name: string,
   id: string,
   Provider: Provider,
+  // usage 用于归类本次调用的 token 用量
   completionsGenerator: (
     messages: OpenAI.Chat.ChatCompletionMessageParam[],
     prompt?: string,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    usage?: UsageContext
   ) => AsyncGenerator<string, void, unknown>
   completions: (
     messages: OpenAI.Chat.ChatCompletionMessageParam[],
     prompt?: string,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    usage?: UsageContext
   ) => Promise<string>
   check: () => Promise<{ valid: boolean, error: Error | null }>
 }
@@ -0,0 +1,55 @@
+import type { ContentAnchor } from '@/types/book';
+
+// word: 单词 -> 释义; cloze: 原句挖空单词; translation: 句子 -> 译文
+export type ReviewCardType = 'word' | 'cloze' | 'translation';
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// SM-2 调度状态
+export interface ReviewSchedule {
+  repetitions: number; // 连续答对次数, 答错后归零
+  interval: number; // 复习间隔(天), 答错后为 0
+  easeFactor: number; // 难度系数
+  lapses: number; // 答错次数
+  due: number; // 下次复习时间
+  lastReviewedAt?: number; // 未复习过的为新卡片
+}
+
+export interface ReviewCard extends ReviewSchedule {
+  id?: number;
+  type: ReviewCardType;
+  sourceId: string; // 生词本记录id 或 书签id
+  bookId: string;
+  bookTitle: string;
+  sentence: string;
+  word?: string;
+  lemma?: string;
+  explanation?: string;
+  translation?: string;
+  // 原句位置, 复习时可打开阅读器
+  sentenceId?: string;
+  anchor?: ContentAnchor;
+  chapterIndex?: number;
+  lineIndex?: number;
+  createdAt: number;
+}
+
+export interface ReviewLog {
+  id?: number;
+  cardId: number;
+  cardType: ReviewCardType;
+  grade: ReviewGrade;
+  isNew: boolean; // 是否为第一次复习
+  interval: number; // 复习后的间隔(天)
+  reviewedAt: number;
+}
+
+export interface ReviewStats {
+  total: number;
+  newCards: number;
+  due: number;
+  mature: number; // 间隔达到 MATURE_INTERVAL 的卡片
+  reviewedToday: number;
+  retention: number | null; // 近期复习中非 again 的比例, 没有复习记录时为 null
+  history: { date: string, count: number }[]; // 近几天每天的复习次数
+}
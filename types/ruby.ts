@@ -0,0 +1,10 @@
+// 注音片段, 没有 ruby 的片段原样显示
+export interface RubySegment {
+  text: string;
+  ruby?: string; // 拼音、振假名或罗马字
+}
+
+export interface RubyAnnotator {
+  language: string;
+  annotate: (text: string) => Promise<RubySegment[]>;
+}
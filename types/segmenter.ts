@@ -0,0 +1,19 @@
+// 段落使用的文字, 用于在书籍语言与段落实际语言不一致时选择分句器
+export type SegmenterScript = 'latin' | 'cyrillic' | 'han' | 'kana' | 'hangul' | 'thai';
+
+export interface SegmenterRule {
+  scripts: SegmenterScript[]; // 该语言使用的文字, 段落文字不在其中时改用该文字的默认语言
+  terminators: string; // 句末标点, Intl.Segmenter 不可用时按此断句
+  spaced: boolean; // 句与句之间是否以空白分隔
+  quotes: [string, string][]; // 引号对, 引号内的句末标点不断句
+  abbreviations: string[]; // 缩写(小写, 含末尾的点), 其后不断句
+  ellipsis: boolean; // 省略号后接小写字母时不断句
+  initials?: boolean; // 单个大写字母加点(如人名缩写)后不断句
+  continuations?: string[]; // 闭合引号后以这些词开头时不断句
+  splitOnSpace?: boolean; // 泰文等以空格作为句子分隔
+}
+
+export interface SentenceSegmenter {
+  language: string;
+  segment: (text: string) => string[];
+}
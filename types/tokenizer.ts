@@ -0,0 +1,16 @@
+// 词性高亮分类, 与 compromise 的 chunk 一致
+export type WordChunk = 'Verb' | 'Adjective' | 'Pivot' | 'Noun';
+
+export interface WordToken {
+  text: string;
+  isWord: boolean; // 标点与空白不可点击
+  chunk?: WordChunk;
+  pos?: string; // 分词器给出的原始词性
+  lemma?: string; // 原形, 如日语动词的终止形
+  reading?: string; // 读音, 如日语词的片假名读音
+}
+
+export interface WordTokenizer {
+  language: string;
+  tokenize: (text: string) => Promise<WordToken[]>;
+}
@@ -0,0 +1,50 @@
+// 消耗 token 的功能: 句子解析、单词解析、聊天、阅读区翻译、整书翻译、其他(如检查模型可用性)
+export type UsageFeature = 'sentence' | 'word' | 'chat' | 'translation' | 'bookTranslation' | 'other';
+
+// 超出月度预算时的处理方式
+export type BudgetAction = 'warn' | 'block';
+
+// 调用模型时用于归类用量的信息
+export interface UsageContext {
+  feature: UsageFeature;
+  bookId?: string;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number; // 包含思考所用的 token
+}
+
+export interface UsageRecord extends UsageContext, TokenUsage {
+  id?: number;
+  providerId: string;
+  modelId: string;
+  timestamp: number;
+}
+
+// 每百万 token 的价格
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+  requests: number;
+  cost: number; // 未设置价格的模型不计入
+}
+
+export interface UsageSummary {
+  totals: UsageTotals;
+  daily: ({ date: string } & UsageTotals)[];
+  byModel: ({ providerId: string, modelId: string } & UsageTotals)[];
+  byFeature: ({ feature: UsageFeature } & UsageTotals)[];
+  byBook: ({ bookId: string } & UsageTotals)[]; // 不含没有关联书籍的调用
+}
+
+export interface BudgetCheck {
+  budget: number;
+  spent: number; // 本月已花费
+  estimated: number; // 本次任务的预估花费
+  exceeded: boolean;
+  action: BudgetAction;
+}
@@ -0,0 +1,11 @@
+// 词的掌握程度, 没有记录的词为 new
+export type WordStatus = 'new' | 'learning' | 'known' | 'ignored';
+
+// 句子中的词, lemma 为规范化后的原形, 作为词状态的键
+export interface WordSpan {
+  start: number; // 在句子中的起止位置
+  end: number;
+  text: string;
+  lemma: string;
+  language: string; // 主语言子标签, 如 'en'
+}
@@ -0,0 +1,254 @@
+import { CONTENT_ANCHOR_CONFIG } from '@/constants/book'
+import { ContentAnchor, ContentLocation, SentenceRecord } from '@/types/book'
+import { generateSentenceHash } from '@/utils/cache'
+
+interface ChapterText {
+  records: SentenceRecord[]
+  hashes: string[] // 每个句子去除空白后的内容哈希
+  text: string // 章节内全部句子去除空白后拼接的文本
+  starts: number[] // 每个句子在 text 中的起始位置
+}
+
+interface SentencePosition {
+  chapter: ChapterText
+  index: number // 句子在章节中的序号
+}
+
+interface SentenceIndex {
+  chapters: Map<number, ChapterText>
+  byId: Map<string, SentenceRecord>
+  byHash: Map<string, SentencePosition[]>
+  lastChapter: number
+}
+
+/**
+ * 生成阅读位置的内容锚点
+ *
+ * 记录句子的内容哈希与前后各一段章节文本, 类似 EPUB CFI 中的文本断言;
+ * 比较前去除全部空白, 段落分隔与分句方式不影响锚点。段落分隔行锚定到前一句
+ *
+ * @param lines - 章节分句后的行
+ * @param lineIndex - 行下标
+ * @returns ContentAnchor | undefined 章节没有句子时返回 undefined
+ *
+ * @example
+ * ```typescript
+ * createContentAnchor(['第一句。', '第二句。', ''], 1);
+ * // { textHash: '...', prefix: '第一句。', suffix: '' }
+ * ```
+ */
+export function createContentAnchor(lines: string[], lineIndex: number): ContentAnchor | undefined {
+  let index = Math.min(lineIndex, lines.length - 1)
+  while (index >= 0 && !normalizeText(lines[index])) index--
+  if (index < 0) index = lines.findIndex(line => normalizeText(line))
+  if (index < 0) return undefined
+
+  const { CONTEXT_LENGTH } = CONTENT_ANCHOR_CONFIG
+  let prefix = ''
+  for (let i = index - 1; i >= 0 && prefix.length < CONTEXT_LENGTH; i--) prefix = normalizeText(lines[i]) + prefix
+  let suffix = ''
+  for (let i = index + 1; i < lines.length && suffix.length < CONTEXT_LENGTH; i++) suffix += normalizeText(lines[i])
+
+  return {
+    textHash: generateSentenceHash(normalizeText(lines[index])),
+    prefix: prefix.slice(-CONTEXT_LENGTH),
+    suffix: suffix.slice(0, CONTEXT_LENGTH)
+  }
+}
+
+/**
+ * 由句子文本生成不含上下文的锚点
+ *
+ * 用于迁移只记录了句子文本的旧数据, 定位时按离原位置的远近区分内容相同的句子
+ *
+ * @param sentence - 句子文本
+ * @returns ContentAnchor 上下文为空的锚点
+ */
+export function createSentenceAnchor(sentence: string): ContentAnchor {
+  return { textHash: generateSentenceHash(normalizeText(sentence)), prefix: '', suffix: '' }
+}
+
+/**
+ * 判断句子是否为锚点指向的内容
+ *
+ * @param sentence - 句子
+ * @param anchor - 锚点, 没有锚点时视为匹配
+ * @returns boolean 是否匹配
+ */
+export function isAnchoredSentence(sentence: SentenceRecord, anchor?: ContentAnchor): boolean {
+  return !anchor || generateSentenceHash(normalizeText(sentence.text)) === anchor.textHash
+}
+
+/**
+ * 创建按内容重新定位阅读位置与书签的函数
+ *
+ * - 位置没有锚点或锚点缺少上下文时(旧版数据只记录了行下标), 先按编辑前的句子补全锚点
+ * - 句子 id 仍指向锚点内容时直接使用该句子
+ * - 否则在内容哈希相同的句子中按上下文吻合程度选出, 吻合程度相同时取离原位置最近的
+ * - 句子本身被修改时, 按前后文在章节文本中找到原句所在的位置
+ * - 都找不到时保留原章节, 行下标归零并清除锚点
+ *
+ * 句子只建立一次索引, 可用于批量迁移书签与翻译
+ *
+ * @param sentences - 编辑后的整书句子
+ * @param oldSentences - 编辑前的整书句子, 位置都有完整锚点时可省略
+ * @returns 重新定位的函数, 锚点按新位置重新生成
+ *
+ * @example
+ * ```typescript
+ * const relocate = createContentRelocator(newSentences, oldSentences);
+ * const bookmark = relocate(oldBookmark); // { ...oldBookmark, chapterIndex: 3, lineIndex: 12, sentenceId, anchor }
+ * ```
+ */
+export function createContentRelocator(sentences: SentenceRecord[], oldSentences: SentenceRecord[] = []): <T extends ContentLocation>(location: T) => T {
+  const index = buildSentenceIndex(sentences)
+  const oldIndex = oldSentences.length > 0 ? buildSentenceIndex(oldSentences) : null
+  return <T extends ContentLocation>(location: T): T => relocate(oldIndex ? completeAnchor(location, oldIndex) : location, index)
+}
+
+function completeAnchor<T extends ContentLocation>(location: T, index: SentenceIndex): T {
+  const { anchor, sentenceId } = location
+  if (anchor && (anchor.prefix || anchor.suffix)) return location
+
+  // 优先按句子 id 找到编辑前的句子, 否则取行下标处(段落分隔取前一句)的句子
+  const sentence = sentenceId ? index.byId.get(sentenceId) : undefined
+  const chapter = index.chapters.get(sentence?.chapterIndex ?? location.chapterIndex)
+  if (!chapter) return location
+  let recordIndex = sentence
+    ? chapter.records.indexOf(sentence)
+    : chapter.records.findIndex(record => record.lineIndex > location.lineIndex) - 1
+  if (recordIndex === -2) recordIndex = chapter.records.length - 1
+  recordIndex = Math.max(recordIndex, 0)
+  if (anchor && chapter.hashes[recordIndex] !== anchor.textHash) return location
+
+  const record = chapter.records[recordIndex]
+  return {
+    ...location,
+    chapterIndex: record.chapterIndex,
+    lineIndex: sentence ? record.lineIndex : location.lineIndex,
+    anchor: createChapterAnchor(chapter, recordIndex)
+  }
+}
+
+function relocate<T extends ContentLocation>(location: T, index: SentenceIndex): T {
+  const { sentenceId, anchor } = location
+  const sentence = sentenceId ? index.byId.get(sentenceId) : undefined
+  if (sentence && isAnchoredSentence(sentence, anchor)) {
+    return { ...location, chapterIndex: sentence.chapterIndex, lineIndex: sentence.lineIndex }
+  }
+  if (!anchor || index.chapters.size === 0) return location
+
+  const found = findByHash(anchor, index, location) ?? findByContext(anchor, index, location)
+  if (!found) {
+    return { ...location, chapterIndex: Math.min(location.chapterIndex, index.lastChapter), lineIndex: 0, sentenceId: undefined, anchor: undefined }
+  }
+
+  const { chapter, index: recordIndex } = found
+  const record = chapter.records[recordIndex]
+  return {
+    ...location,
+    chapterIndex: record.chapterIndex,
+    lineIndex: record.lineIndex,
+    sentenceId: record.id,
+    anchor: createChapterAnchor(chapter, recordIndex)
+  }
+}
+
+function findByHash(anchor: ContentAnchor, index: SentenceIndex, hint: ContentLocation): SentencePosition | null {
+  let best: (SentencePosition & { score: number[] }) | null = null
+  for (const { chapter, index: recordIndex } of index.byHash.get(anchor.textHash) ?? []) {
+    const record = chapter.records[recordIndex]
+    const start = chapter.starts[recordIndex]
+    const end = start + normalizeText(record.text).length
+    const context = commonSuffixLength(anchor.prefix, chapter.text.slice(Math.max(start - anchor.prefix.length, 0), start))
+      + commonPrefixLength(anchor.suffix, chapter.text.slice(end, end + anchor.suffix.length))
+    const score = [
+      context,
+      -Math.abs(record.chapterIndex - hint.chapterIndex),
+      -Math.abs(record.lineIndex - hint.lineIndex)
+    ]
+    if (!best || compareScores(score, best.score) > 0) best = { chapter, index: recordIndex, score }
+  }
+  return best
+}
+
+function findByContext(anchor: ContentAnchor, index: SentenceIndex, hint: ContentLocation): SentencePosition | null {
+  // 离原章节越近越先查找
+  const ordered = [...index.chapters.entries()]
+    .sort(([a], [b]) => Math.abs(a - hint.chapterIndex) - Math.abs(b - hint.chapterIndex))
+    .map(([, chapter]) => chapter)
+
+  // 原句之前的文本结束处即原句的起始位置, 之后的文本开始处即原句的结束位置;
+  // 上下文不足 CONTEXT_LENGTH 说明原句靠近章节开头或结尾, 只在相应位置匹配
+  const { CONTEXT_LENGTH } = CONTENT_ANCHOR_CONFIG
+  const locate = (context: string, atEdge: (chapter: ChapterText) => number, toPosition: (index: number) => number) => {
+    if (!context) return null
+    for (const chapter of ordered) {
+      const position = context.length < CONTEXT_LENGTH
+        ? atEdge(chapter)
+        : chapter.text.indexOf(context)
+      if (position !== -1) return { chapter, index: findRecordAt(chapter, toPosition(position)) }
+    }
+    return null
+  }
+
+  const { prefix, suffix } = anchor
+  return locate(prefix, chapter => chapter.text.startsWith(prefix) ? 0 : -1, position => position + prefix.length)
+    ?? locate(suffix, chapter => chapter.text.endsWith(suffix) ? chapter.text.length - suffix.length : -1, position => position - 1)
+}
+
+function buildSentenceIndex(sentences: SentenceRecord[]): SentenceIndex {
+  const index: SentenceIndex = { chapters: new Map(), byId: new Map(), byHash: new Map(), lastChapter: 0 }
+  const sorted = [...sentences].sort((a, b) => a.chapterIndex - b.chapterIndex || a.lineIndex - b.lineIndex)
+  sorted.forEach(record => {
+    const chapter = index.chapters.get(record.chapterIndex) ?? { records: [], hashes: [], text: '', starts: [] }
+    const text = normalizeText(record.text)
+    const hash = generateSentenceHash(text)
+    const positions = index.byHash.get(hash) ?? []
+    positions.push({ chapter, index: chapter.records.length })
+    index.byHash.set(hash, positions)
+    index.byId.set(record.id, record)
+    chapter.records.push(record)
+    chapter.hashes.push(hash)
+    chapter.starts.push(chapter.text.length)
+    chapter.text += text
+    index.chapters.set(record.chapterIndex, chapter)
+    index.lastChapter = record.chapterIndex
+  })
+  return index
+}
+
+function createChapterAnchor(chapter: ChapterText, index: number): ContentAnchor | undefined {
+  return createContentAnchor(chapter.records.map(record => record.text), index)
+}
+
+function findRecordAt(chapter: ChapterText, position: number): number {
+  let target = 0
+  chapter.starts.forEach((start, index) => {
+    if (start <= position) target = index
+  })
+  return target
+}
+
+function normalizeText(text: string | undefined): string {
+  return (text ?? '').replace(/\s+/g, '')
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let length = 0
+  while (length < a.length && length < b.length && a[length] === b[length]) length++
+  return length
+}
+
+function commonSuffixLength(a: string, b: string): number {
+  let length = 0
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) length++
+  return length
+}
+
+function compareScores(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i]
+  }
+  return 0
+}
@@ -62,7 +62,7 @@ export function getTimeSlot(): string {
  * 生成缓存键
  * 
  * @param params - 缓存键生成参数
- * @returns string 格式为 bookSuffix|chapterIndex|sentenceHash|ruleSuffix 的缓存键
+ * @returns string 格式为 bookSuffix|sentenceHash|ruleSuffix 的缓存键, 有句子id时按id生成 sentenceHash
  * 
  * @example
  * ```typescript
@@ -76,10 +76,10 @@ export function getTimeSlot(): string {
  * ```
  */
 export function generateCacheKey(params: CacheKeyParams): string {
-  const { bookId, sentence, ruleId } = params;
+  const { bookId, sentence, sentenceId, ruleId } = params;
 
   const bookSuffix = extractUUIDSuffix(bookId);
-  const sentenceHash = generateSentenceHash(sentence);
+  const sentenceHash = generateSentenceHash(sentenceId || sentence);
   const ruleSuffix = extractUUIDSuffix(ruleId);
 
   return `${bookSuffix}|${sentenceHash}|${ruleSuffix}`;
@@ -0,0 +1,173 @@
+import { BUILTIN_CHAPTER_RULES, CHAPTER_DETECT_BOUNDS } from '@/constants/chapter';
+import { ChapterDetectOptions, ChapterParagraph, PlainTextChapter } from '@/types/book';
+import { getParagraphText, isImageBlock } from '@/utils/paragraph';
+
+/**
+ * 将用户输入的规则解析为正则表达式
+ *
+ * 支持直接书写正则源码, 或使用 /pattern/flags 的写法
+ *
+ * @param rule - 规则字符串
+ * @returns RegExp | null 无法解析时返回 null
+ *
+ * @example
+ * ```typescript
+ * parseChapterRule('^Episode \\d+'); // /^Episode \d+/
+ * parseChapterRule('/^episode \\d+/i'); // /^episode \d+/i
+ * parseChapterRule('('); // null
+ * ```
+ */
+export function parseChapterRule(rule: string): RegExp | null {
+  const source = rule.trim()
+  if (!source) return null
+  try {
+    const literal = source.match(/^\/(.+)\/([gimsuy]*)$/)
+    if (literal) {
+      // 逐行 test 时 g/y 会因 lastIndex 导致结果不稳定
+      return new RegExp(literal[1], literal[2].replace(/[gy]/g, ''))
+    }
+    return new RegExp(source)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 获取当前配置下生效的全部章节规则
+ *
+ * @param options - 章节识别配置
+ * @returns RegExp[] 自定义规则在前, 内置规则在后
+ */
+export function getChapterRules(options: ChapterDetectOptions): RegExp[] {
+  const customRules = options.customRules
+    .map(parseChapterRule)
+    .filter((rule): rule is RegExp => rule !== null)
+  const builtinRules = options.useBuiltinRules
+    ? BUILTIN_CHAPTER_RULES.map(rule => rule.pattern)
+    : []
+  return [...customRules, ...builtinRules]
+}
+
+/**
+ * 判断一行文本是否为章节标题
+ *
+ * @param line - 文本行
+ * @param rules - 章节规则
+ * @returns boolean 是否为章节标题
+ */
+export function isChapterTitle(line: string, rules: RegExp[]): boolean {
+  const text = line.trim()
+  if (!text || text.length > CHAPTER_DETECT_BOUNDS.maxTitleLength) return false
+  return rules.some(rule => rule.test(text))
+}
+
+/**
+ * 将纯文本行切分为章节
+ *
+ * - 按章节规则识别标题行, 标题行作为章节标题, 不再出现在正文中
+ * - 第一个标题之前的内容(书名页、简介等)单独成章, 以书名作为标题
+ * - 没有正文的标题(如目录页、紧邻的"部"与"章")会被丢弃
+ * - 未识别到任何标题时, 按 chunkSize 字数在段落边界处分块
+ *
+ * @param paragraphs - 文本行(可包含图片段落)
+ * @param name - 书籍名称
+ * @param options - 章节识别配置
+ * @returns PlainTextChapter[] 章节列表
+ *
+ * @example
+ * ```typescript
+ * const chapters = detectChapters(['第一章 起', '正文'], '书名', DEFAULT_CHAPTER_DETECT_OPTIONS);
+ * console.log(chapters); // [{ title: '第一章 起', paragraphs: ['正文'] }]
+ * ```
+ */
+export function detectChapters(paragraphs: ChapterParagraph[], name: string, options: ChapterDetectOptions): PlainTextChapter[] {
+  const rules = getChapterRules(options)
+  const chapterList: PlainTextChapter[] = []
+  let current: PlainTextChapter = { title: name, paragraphs: [] }
+  let found = false
+
+  const pushChapter = (chapter: PlainTextChapter) => {
+    const content = trimEmptyLines(chapter.paragraphs)
+    if (content.length === 0) return
+    chapterList.push({ title: chapter.title, paragraphs: content })
+  }
+
+  for (const paragraph of paragraphs) {
+    const text = getParagraphText(paragraph)
+    if (rules.length > 0 && !isImageBlock(paragraph) && isChapterTitle(text, rules)) {
+      pushChapter(current)
+      current = { title: text.trim(), paragraphs: [] }
+      found = true
+      continue
+    }
+    current.paragraphs.push(paragraph)
+  }
+  pushChapter(current)
+
+  if (!found) {
+    return splitIntoChunks(paragraphs, name, options.chunkSize)
+  }
+  return chapterList.length > 0 ? chapterList : [{ title: name, paragraphs: [] }]
+}
+
+/**
+ * 将章节还原为纯文本行, 用于重新识别章节
+ *
+ * 由书名或分块生成的章节标题不属于原文, 不会被还原
+ *
+ * @param chapterList - 章节列表
+ * @param name - 书籍名称
+ * @returns ChapterParagraph[] 文本行
+ */
+export function chaptersToParagraphs(chapterList: PlainTextChapter[], name: string): ChapterParagraph[] {
+  return chapterList.flatMap(chapter => isGeneratedTitle(chapter.title, name)
+    ? chapter.paragraphs
+    : [chapter.title, ...chapter.paragraphs]
+  )
+}
+
+function splitIntoChunks(paragraphs: ChapterParagraph[], name: string, chunkSize: number): PlainTextChapter[] {
+  const { min, max } = CHAPTER_DETECT_BOUNDS.chunkSize
+  const size = Math.min(Math.max(chunkSize || min, min), max)
+  const chunks: ChapterParagraph[][] = []
+  let current: ChapterParagraph[] = []
+  let length = 0
+
+  for (const paragraph of paragraphs) {
+    current.push(paragraph)
+    length += getParagraphText(paragraph).length
+    if (length >= size) {
+      chunks.push(current)
+      current = []
+      length = 0
+    }
+  }
+  if (trimEmptyLines(current).length > 0 || chunks.length === 0) chunks.push(current)
+
+  if (chunks.length === 1) {
+    return [{ title: name, paragraphs: trimEmptyLines(chunks[0]) }]
+  }
+  return chunks.map((chunk, index) => ({
+    title: getChunkTitle(name, index),
+    paragraphs: trimEmptyLines(chunk)
+  }))
+}
+
+function getChunkTitle(name: string, index: number): string {
+  return `${name} (${index + 1})`
+}
+
+function isGeneratedTitle(title: string, name: string): boolean {
+  if (title === name) return true
+  const match = title.match(/^(.*) \((\d+)\)$/)
+  return !!match && match[1] === name
+}
+
+function trimEmptyLines(paragraphs: ChapterParagraph[]): ChapterParagraph[] {
+  const isEmpty = (paragraph: ChapterParagraph) => !isImageBlock(paragraph) && getParagraphText(paragraph).trim() === ''
+  let start = 0
+  let end = paragraphs.length
+  while (start < end && isEmpty(paragraphs[start])) start++
+  while (end > start && isEmpty(paragraphs[end - 1])) end--
+  return paragraphs.slice(start, end)
+}
@@ -1,10 +1,15 @@
 import Dexie, { Table } from 'dexie';
+import type { ContentAnchor } from '@/types/book';
+import type { ReviewCard, ReviewLog } from '@/types/review';
+import type { DictionaryEntry, DictionaryInfo } from '@/types/dictionary';
+import type { UsageRecord } from '@/types/usage';
 
 // 翻译记录的接口定义
 export interface TranslationRecord {
   id?: number;
   bookId: string;           // 书籍ID
   sentenceHash: string;     // 句子的唯一标识（使用hash避免存储过长的原文）
+  sentenceId?: string;      // 句子索引中的句子id
   originalText: string;     // 原文
   translatedText: string;   // 译文
   sourceLanguage?: string;  // 源语言
@@ -13,9 +18,34 @@ export interface TranslationRecord {
   updatedAt: Date;         // 更新时间
 }
 
+// 生词本记录的接口定义，每次查词保存一条
+export interface VocabularyRecord {
+  id?: number;
+  word: string;             // 点击的词
+  lemma?: string;           // 原形
+  language?: string;        // 词的语言
+  explanation: string;      // 词语解析, 模型生成或由离线词典释义整理
+  explanationSource?: 'model' | 'dictionary'; // 解析来源, 旧记录没有该字段, 均为模型生成
+  sentence: string;         // 来源句子
+  bookId: string;           // 书籍ID
+  bookTitle: string;        // 书名，书籍删除后仍可显示
+  sentenceId?: string;      // 句子索引中的句子id
+  anchor?: ContentAnchor;   // 句子的内容锚点，用于回到原文
+  chapterIndex?: number;    // 句子位置，手动编辑过的句子没有位置
+  lineIndex?: number;
+  createdAt: Date;          // 创建时间
+  updatedAt: Date;          // 最近查询时间
+}
+
 // 创建数据库类
 class TranslationDatabase extends Dexie {
   translations!: Table<TranslationRecord>;
+  vocabulary!: Table<VocabularyRecord>;
+  reviewCards!: Table<ReviewCard>;
+  reviewLogs!: Table<ReviewLog>;
+  dictionaries!: Table<DictionaryInfo>;
+  dictionaryEntries!: Table<DictionaryEntry>;
+  usageRecords!: Table<UsageRecord>;
 
   constructor() {
     super('ReadBridgeDB');
@@ -25,6 +55,28 @@ class TranslationDatabase extends Dexie {
       // 索引：id自增主键，bookId+sentenceHash组合索引用于快速查询
       translations: '++id, [bookId+sentenceHash], bookId, createdAt'
     });
+    // 按句子id查询, 同一原文出现在不同位置时各自对应
+    this.version(2).stores({
+      translations: '++id, [bookId+sentenceHash], [bookId+sentenceId], bookId, createdAt'
+    });
+    // 生词本
+    this.version(3).stores({
+      vocabulary: '++id, [bookId+word], bookId, language, updatedAt'
+    });
+    // 复习卡片与复习记录，每个来源(生词本记录或书签)的每种卡片只有一张
+    this.version(4).stores({
+      reviewCards: '++id, &[type+sourceId], due, bookId',
+      reviewLogs: '++id, cardId, reviewedAt'
+    });
+    // 离线词典与词条，按词头或读音查询
+    this.version(5).stores({
+      dictionaries: '++id, createdAt',
+      dictionaryEntries: '++id, dictionaryId, term, reading'
+    });
+    // 模型 token 用量，按时间范围统计
+    this.version(6).stores({
+      usageRecords: '++id, timestamp, bookId'
+    });
   }
 }
 
@@ -43,12 +95,20 @@ export function generateSentenceHash(text: string): string {
   return Math.abs(hash).toString(36);
 }
 
-// 查询翻译记录
+// 查询翻译记录，优先按句子id查询，找不到时按原文查询
 export async function getTranslation(
   bookId: string, 
-  sentenceText: string
+  sentenceText: string,
+  sentenceId?: string
 ): Promise<TranslationRecord | undefined> {
   try {
+    if (sentenceId) {
+      const record = await db.translations
+        .where(['bookId', 'sentenceId'])
+        .equals([bookId, sentenceId])
+        .first();
+      if (record) return record;
+    }
     const sentenceHash = generateSentenceHash(sentenceText);
     const record = await db.translations
       .where(['bookId', 'sentenceHash'])
@@ -61,27 +121,35 @@ export async function getTranslation(
   }
 }
 
-// 保存翻译记录
+// 保存翻译记录，有句子id时按句子id保存，同一原文出现在不同位置时各自一条；没有句子id时按原文保存
 export async function saveTranslation(
   bookId: string,
   originalText: string,
   translatedText: string,
   sourceLanguage?: string,
-  targetLanguage?: string
+  targetLanguage?: string,
+  sentenceId?: string
 ): Promise<number | undefined> {
   try {
     const sentenceHash = generateSentenceHash(originalText);
     const now = new Date();
     
-    // 先检查是否存在
-    const existing = await db.translations
+    // 先检查是否存在，有句子id时可以接管同一原文的旧记录(没有句子id)
+    const existing = (sentenceId
+      ? await db.translations
+        .where(['bookId', 'sentenceId'])
+        .equals([bookId, sentenceId])
+        .first()
+      : undefined) ?? await db.translations
       .where(['bookId', 'sentenceHash'])
       .equals([bookId, sentenceHash])
+      .and(record => !record.sentenceId)
       .first();
     
     if (existing) {
       // 更新现有记录
       await db.translations.update(existing.id!, {
+        ...(sentenceId ? { sentenceId } : {}),
         translatedText,
         sourceLanguage,
         targetLanguage,
@@ -93,6 +161,7 @@ export async function saveTranslation(
       const id = await db.translations.add({
         bookId,
         sentenceHash,
+        sentenceId,
         originalText,
         translatedText,
         sourceLanguage,
@@ -133,6 +202,189 @@ export async function getBatchTranslations(
   }
 }
 
+// 查询生词本中同一句子里的同一个词
+export async function getVocabularyEntry(
+  bookId: string,
+  word: string,
+  sentence: string
+): Promise<VocabularyRecord | undefined> {
+  try {
+    return await db.vocabulary
+      .where(['bookId', 'word'])
+      .equals([bookId, word])
+      .and(record => record.sentence === sentence)
+      .first();
+  } catch (error) {
+    console.error('Error getting vocabulary entry from DB:', error);
+    return undefined;
+  }
+}
+
+// 保存查词记录，同一句子中的同一个词只保留一条，再次查询时更新解析与查询时间
+export async function saveVocabulary(
+  entry: Omit<VocabularyRecord, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<number | undefined> {
+  try {
+    const now = new Date();
+    const existing = await getVocabularyEntry(entry.bookId, entry.word, entry.sentence);
+    if (existing) {
+      // 未生成解析时保留已有的解析, 词典释义不覆盖模型生成的解析
+      const keepExisting = !entry.explanation
+        || (entry.explanationSource === 'dictionary' && !!existing.explanation && existing.explanationSource !== 'dictionary');
+      await db.vocabulary.update(existing.id!, {
+        ...entry,
+        explanation: keepExisting ? existing.explanation : entry.explanation,
+        explanationSource: keepExisting ? existing.explanationSource : entry.explanationSource,
+        updatedAt: now
+      });
+      return existing.id;
+    }
+    return await db.vocabulary.add({ ...entry, createdAt: now, updatedAt: now });
+  } catch (error) {
+    console.error('Error saving vocabulary to DB:', error);
+    return undefined;
+  }
+}
+
+// 获取生词本全部记录，按最近查询时间倒序
+export async function getAllVocabulary(): Promise<VocabularyRecord[]> {
+  try {
+    return await db.vocabulary.orderBy('updatedAt').reverse().toArray();
+  } catch (error) {
+    console.error('Error getting vocabulary from DB:', error);
+    return [];
+  }
+}
+
+// 删除生词本记录
+export async function deleteVocabulary(id: number): Promise<void> {
+  try {
+    await db.vocabulary.delete(id);
+  } catch (error) {
+    console.error('Error deleting vocabulary:', error);
+  }
+}
+
+// 保存导入的词典与词条，onProgress 报告已写入的词条数
+export async function addDictionary(
+  info: Omit<DictionaryInfo, 'id'>,
+  entries: Omit<DictionaryEntry, 'id' | 'dictionaryId'>[],
+  bulkSize: number,
+  onProgress?: (saved: number) => void
+): Promise<number> {
+  try {
+    return await db.transaction('rw', db.dictionaries, db.dictionaryEntries, async () => {
+      const dictionaryId = await db.dictionaries.add(info) as number;
+      for (let i = 0; i < entries.length; i += bulkSize) {
+        await db.dictionaryEntries.bulkAdd(entries.slice(i, i + bulkSize).map(entry => ({ ...entry, dictionaryId })));
+        onProgress?.(Math.min(i + bulkSize, entries.length));
+      }
+      return dictionaryId;
+    });
+  } catch (error) {
+    console.error('Error adding dictionary to DB:', error);
+    throw error;
+  }
+}
+
+// 获取已导入的词典，按导入时间排序
+export async function getDictionaries(): Promise<DictionaryInfo[]> {
+  try {
+    return await db.dictionaries.orderBy('createdAt').toArray();
+  } catch (error) {
+    console.error('Error getting dictionaries from DB:', error);
+    return [];
+  }
+}
+
+// 启用或停用词典
+export async function setDictionaryEnabled(id: number, enabled: boolean): Promise<void> {
+  try {
+    await db.dictionaries.update(id, { enabled });
+  } catch (error) {
+    console.error('Error updating dictionary:', error);
+  }
+}
+
+// 删除词典及其词条
+export async function deleteDictionary(id: number): Promise<void> {
+  try {
+    await db.transaction('rw', db.dictionaries, db.dictionaryEntries, async () => {
+      await db.dictionaryEntries.where('dictionaryId').equals(id).delete();
+      await db.dictionaries.delete(id);
+    });
+  } catch (error) {
+    console.error('Error deleting dictionary:', error);
+  }
+}
+
+// 按词头或读音查询词条，terms 须已规范化
+export async function findDictionaryEntries(terms: string[]): Promise<DictionaryEntry[]> {
+  try {
+    const [byTerm, byReading] = await Promise.all([
+      db.dictionaryEntries.where('term').anyOf(terms).toArray(),
+      db.dictionaryEntries.where('reading').anyOf(terms).toArray()
+    ]);
+    const entries = new Map([...byTerm, ...byReading].map(entry => [entry.id, entry]));
+    return [...entries.values()];
+  } catch (error) {
+    console.error('Error finding dictionary entries:', error);
+    return [];
+  }
+}
+
+// 保存一次模型调用的 token 用量
+export async function addUsageRecord(record: Omit<UsageRecord, 'id'>): Promise<void> {
+  try {
+    await db.usageRecords.add(record);
+  } catch (error) {
+    console.error('Error saving usage record:', error);
+  }
+}
+
+// 获取某个时间之后的用量记录
+export async function getUsageRecords(since: number): Promise<UsageRecord[]> {
+  try {
+    return await db.usageRecords.where('timestamp').aboveOrEqual(since).toArray();
+  } catch (error) {
+    console.error('Error getting usage records:', error);
+    return [];
+  }
+}
+
+// 清空用量记录
+export async function clearUsageRecords(): Promise<void> {
+  try {
+    await db.usageRecords.clear();
+  } catch (error) {
+    console.error('Error clearing usage records:', error);
+  }
+}
+
+// 书籍更新为新版本后迁移翻译记录，locate 返回对应的新句子id，找不到时返回 undefined
+// 未能迁移的记录保留原样，原文再次出现时仍可按原文查询
+export async function remapBookTranslations(
+  bookId: string,
+  locate: (record: TranslationRecord) => string | undefined
+): Promise<{ mapped: number; unmapped: number }> {
+  try {
+    const records = await db.translations.where('bookId').equals(bookId).toArray();
+    let mapped = 0;
+    await db.transaction('rw', db.translations, async () => {
+      for (const record of records) {
+        const sentenceId = locate(record);
+        if (!sentenceId) continue;
+        mapped++;
+        if (sentenceId !== record.sentenceId) await db.translations.update(record.id!, { sentenceId });
+      }
+    });
+    return { mapped, unmapped: records.length - mapped };
+  } catch (error) {
+    console.error('Error remapping book translations:', error);
+    return { mapped: 0, unmapped: 0 };
+  }
+}
+
 // 删除某本书的所有翻译记录
 export async function deleteBookTranslations(bookId: string): Promise<void> {
   try {
@@ -0,0 +1,78 @@
+import { Book, BookContentDiff, SentenceRecord } from '@/types/book'
+import { getParagraphText, isImageBlock } from '@/utils/paragraph'
+import { createSentenceAnchor } from '@/utils/anchor'
+
+/**
+ * 对比书籍新旧版本的章节与句子
+ *
+ * - 标题与内容都相同的章节为未修改, 其余标题相同的章节为已修改, 剩下的为新增或删除
+ * - 句子按内容计数, 同一内容出现多次时逐个对应
+ *
+ * @param oldBook - 旧版本书籍
+ * @param oldSentences - 旧版本的句子
+ * @param book - 新版本书籍
+ * @param sentences - 新版本的句子
+ * @returns BookContentDiff 差异统计
+ *
+ * @example
+ * ```typescript
+ * const diff = diffBookContent(oldBook, oldSentences, book, sentences);
+ * console.log(diff.chapters); // { unchanged: 20, changed: 2, added: 1, removed: 0 }
+ * ```
+ */
+export function diffBookContent(oldBook: Book, oldSentences: SentenceRecord[], book: Book, sentences: SentenceRecord[]): BookContentDiff {
+  const getChapterKeys = (target: Book) => target.chapterList.map(chapter => ({
+    title: chapter.title.trim(),
+    content: createSentenceAnchor(chapter.paragraphs
+      .map(paragraph => isImageBlock(paragraph) ? paragraph.src : getParagraphText(paragraph))
+      .join('\n')).textHash
+  }))
+  const oldChapters = getChapterKeys(oldBook)
+  const newChapters = getChapterKeys(book)
+
+  const unchanged = takeMatches(oldChapters, newChapters, (a, b) => a.title === b.title && a.content === b.content)
+  const changed = takeMatches(oldChapters, newChapters, (a, b) => a.title === b.title)
+
+  const oldHashes = countBy(oldSentences.map(sentence => createSentenceAnchor(sentence.text).textHash))
+  let unchangedSentences = 0
+  sentences.forEach(sentence => {
+    const hash = createSentenceAnchor(sentence.text).textHash
+    const count = oldHashes.get(hash) ?? 0
+    if (count === 0) return
+    oldHashes.set(hash, count - 1)
+    unchangedSentences++
+  })
+
+  return {
+    chapters: {
+      unchanged,
+      changed,
+      added: newChapters.length,
+      removed: oldChapters.length
+    },
+    sentences: {
+      unchanged: unchangedSentences,
+      added: sentences.length - unchangedSentences,
+      removed: oldSentences.length - unchangedSentences
+    }
+  }
+}
+
+// 逐个对应满足条件的新旧项, 并从两个列表中移除, 返回对应的数量
+function takeMatches<T>(oldItems: T[], newItems: T[], isMatch: (a: T, b: T) => boolean): number {
+  let count = 0
+  for (let i = newItems.length - 1; i >= 0; i--) {
+    const index = oldItems.findIndex(item => isMatch(item, newItems[i]))
+    if (index === -1) continue
+    oldItems.splice(index, 1)
+    newItems.splice(i, 1)
+    count++
+  }
+  return count
+}
+
+function countBy(keys: string[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  keys.forEach(key => counts.set(key, (counts.get(key) ?? 0) + 1))
+  return counts
+}
@@ -0,0 +1,125 @@
+import { AUTO_ENCODING } from '@/constants/encoding';
+import { TEXT_ENCODING_TYPE } from '@/types/book';
+
+// 统计检测时只取文件开头的部分字节
+const SAMPLE_SIZE = 64 * 1024;
+// 非 UTF-8 时参与打分的候选编码(纯中日韩文本的 UTF-16 几乎没有零字节, 也需打分判断)
+const CANDIDATE_ENCODINGS = ['gb18030', 'big5', 'shift_jis', 'euc-jp', 'euc-kr', 'utf-16le', 'utf-16be'] as const;
+
+// 简体/繁体中文高频字
+const COMMON_HAN = '的一是不了在人有我他这個个们們中来來上大为為和国國地到以说說时時要就出会會可也你对對生能而子那得于於着著下自之年过過发發后後作里裡用道行所然家种種事成方多经經么麼去法学學如都同现現当當没沒动動面起看定天分还還进進好小部其些主样樣理心她本前开開但因只从從想实實日';
+// 韩文高频音节
+const COMMON_HANGUL = '이다는의에가을를하고한지기로사서자리도인어아수시대나정그게일적보상해부것들전라주구제국여장면요우만내원성비동드소중개데모신있없었했되된될니며습말문화우리';
+
+const COMMON_CHARS = new Set([...COMMON_HAN, ...COMMON_HANGUL]);
+
+/**
+ * 检测文本文件的字符编码
+ *
+ * 依次检查 BOM、UTF-16 的零字节分布、UTF-8 合法性,
+ * 都不满足时用各候选编码解码样本, 按高频字命中率与乱码比例打分, 取得分最高者
+ *
+ * @param bytes - 文件内容
+ * @returns string TextDecoder 可用的编码标签
+ *
+ * @example
+ * ```typescript
+ * const encoding = detectEncoding(buffer);
+ * console.log(encoding); // "gb18030"
+ * ```
+ */
+export function detectEncoding(bytes: Uint8Array): string {
+  const bomEncoding = detectBOM(bytes);
+  if (bomEncoding) return bomEncoding;
+
+  const sample = bytes.subarray(0, SAMPLE_SIZE);
+  const utf16Encoding = detectUTF16(sample);
+  if (utf16Encoding) return utf16Encoding;
+
+  if (isValidUTF8(sample)) return 'utf-8';
+
+  let bestEncoding = 'utf-8';
+  let bestScore = -Infinity;
+  for (const encoding of CANDIDATE_ENCODINGS) {
+    const score = scoreDecodedText(new TextDecoder(encoding).decode(sample));
+    if (score > bestScore) {
+      bestScore = score;
+      bestEncoding = encoding;
+    }
+  }
+  return bestEncoding;
+}
+
+/**
+ * 按指定编码解码文本, 编码为 auto 时自动检测
+ *
+ * @param bytes - 文件内容
+ * @param encoding - 编码标签, 默认自动检测
+ * @returns string 解码后的文本(已去除 BOM)
+ */
+export function decodeText(bytes: Uint8Array, encoding: TEXT_ENCODING_TYPE = AUTO_ENCODING): string {
+  const label = encoding === AUTO_ENCODING ? detectEncoding(bytes) : encoding;
+  return new TextDecoder(label).decode(bytes);
+}
+
+function detectBOM(bytes: Uint8Array): string | null {
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'utf-8';
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return 'utf-16le';
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return 'utf-16be';
+  return null;
+}
+
+/**
+ * 无 BOM 的 UTF-16 中, ASCII 字符的高位字节为 0
+ * 零字节集中出现在奇数位为 LE, 集中出现在偶数位为 BE
+ */
+function detectUTF16(sample: Uint8Array): string | null {
+  const length = Math.min(sample.length, 4096) & ~1;
+  if (length === 0) return null;
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < length; i += 2) {
+    if (sample[i] === 0) evenZeros++;
+    if (sample[i + 1] === 0) oddZeros++;
+  }
+  const pairs = length / 2;
+  if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return 'utf-16le';
+  if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return 'utf-16be';
+  return null;
+}
+
+function isValidUTF8(sample: Uint8Array): boolean {
+  try {
+    // stream 模式下, 样本末尾被截断的多字节字符不会被视为错误
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 为解码结果打分
+ * 正确的解码会大量命中高频字、假名和全角标点, 错误的解码则多为生僻字或替换字符
+ */
+function scoreDecodedText(text: string): number {
+  let total = 0;
+  let hits = 0;
+  let invalid = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0;
+    if (code < 0x80) continue;
+    total++;
+    if (code === 0xFFFD || (code >= 0xE000 && code <= 0xF8FF)) {
+      invalid++;
+    } else if (
+      COMMON_CHARS.has(char) ||
+      (code >= 0x3000 && code <= 0x30FF) || // 中日文标点、平假名、片假名
+      (code >= 0xFF01 && code <= 0xFF5E) // 全角标点与字母
+    ) {
+      hits++;
+    }
+  }
+  if (total === 0) return 0;
+  return (hits - invalid * 5) / total;
+}
@@ -0,0 +1,82 @@
+import { THUMBNAIL_OPTIONS } from '@/constants/book';
+import { Resource } from '@/types/book';
+
+/**
+ * 由封面生成缩略图
+ *
+ * 书架每张卡片都会解码封面, 原图动辄数 MB, 缩略图只保留卡片所需的尺寸
+ * 原图已经足够小或当前环境不支持 canvas 时返回 undefined, 展示时退回使用原图
+ * 解析 Worker 中没有 document, 优先使用 OffscreenCanvas
+ *
+ * @param cover - 封面图片
+ * @returns Promise<Resource | undefined> 缩略图
+ *
+ * @example
+ * ```typescript
+ * const thumbnail = await createThumbnail(book.metadata.cover);
+ * console.log(thumbnail?.mediaType); // "image/jpeg"
+ * ```
+ */
+export async function createThumbnail(cover: Resource): Promise<Resource | undefined> {
+  if (typeof createImageBitmap === 'undefined') return undefined
+  if (typeof OffscreenCanvas === 'undefined' && typeof document === 'undefined') return undefined
+
+  const { maxWidth, maxHeight, mediaType, quality } = THUMBNAIL_OPTIONS
+  try {
+    const bitmap = await createImageBitmap(base64ToBlob(cover))
+    const scale = Math.min(maxWidth / bitmap.width, maxHeight / bitmap.height)
+    if (scale >= 1) {
+      bitmap.close()
+      return undefined
+    }
+
+    const width = Math.round(bitmap.width * scale)
+    const height = Math.round(bitmap.height * scale)
+
+    if (typeof OffscreenCanvas !== 'undefined') {
+      const canvas = new OffscreenCanvas(width, height)
+      const context = canvas.getContext('2d')
+      if (!context) {
+        bitmap.close()
+        return undefined
+      }
+      context.drawImage(bitmap, 0, 0, width, height)
+      bitmap.close()
+
+      const blob = await canvas.convertToBlob({ type: mediaType, quality })
+      return {
+        data: Buffer.from(await blob.arrayBuffer()).toString('base64'),
+        mediaType
+      }
+    }
+
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    const context = canvas.getContext('2d')
+    if (!context) {
+      bitmap.close()
+      return undefined
+    }
+    context.drawImage(bitmap, 0, 0, width, height)
+    bitmap.close()
+
+    const dataURL = canvas.toDataURL(mediaType, quality)
+    return {
+      data: dataURL.slice(dataURL.indexOf(',') + 1),
+      mediaType
+    }
+  } catch (error) {
+    console.warn('生成封面缩略图失败:', error)
+    return undefined
+  }
+}
+
+function base64ToBlob(resource: Resource): Blob {
+  const binary = atob(resource.data)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return new Blob([bytes], { type: resource.mediaType })
+}
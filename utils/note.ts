@@ -0,0 +1,54 @@
+import { ChapterNote, PlainTextChapter } from '@/types/book';
+import { getParagraphText, groupParagraphLines, locateSentences } from '@/utils/paragraph';
+
+/**
+ * 将章节注释对应到分句后的行
+ *
+ * 分句结果中每个段落以一个空行结尾, 按空行找到注释所在段落的句子,
+ * 再按引用位置找到引用所在的句子
+ *
+ * @param chapter - 章节
+ * @param lines - 该章节分句后的行
+ * @returns Map<number, ChapterNote[]> 行下标 -> 该行引用的注释
+ *
+ * @example
+ * ```typescript
+ * const lineNotes = mapNotesToLines(book.chapterList[0], readingProgress.sentenceChapters[0]);
+ * console.log(lineNotes.get(3)); // [{ paragraph: 1, offset: 12, label: '1', content: '...' }]
+ * ```
+ */
+export function mapNotesToLines(chapter: PlainTextChapter | undefined, lines: string[]): Map<number, ChapterNote[]> {
+  const lineNotes = new Map<number, ChapterNote[]>()
+  if (!chapter?.notes || chapter.notes.length === 0) return lineNotes
+
+  const paragraphLines = groupParagraphLines(lines)
+
+  chapter.notes.forEach(note => {
+    const indexes = paragraphLines[note.paragraph]
+    if (!indexes || indexes.length === 0) return
+
+    const text = getParagraphText(chapter.paragraphs[note.paragraph] ?? '')
+    const starts = locateSentences(text, indexes.map(index => lines[index]))
+    let target = indexes[0]
+    for (let i = 1; i < indexes.length; i++) {
+      // 分句时被规范化的句子无法定位, 跳过
+      if (starts[i] === -1) continue
+      if (starts[i] >= note.offset) break
+      target = indexes[i]
+    }
+
+    lineNotes.set(target, [...(lineNotes.get(target) ?? []), note])
+  })
+
+  return lineNotes
+}
+
+/**
+ * 将注释整理为发送给模型的上下文文本
+ *
+ * @param notes - 注释列表
+ * @returns string 每条注释一行, 形如 "[1] 注释正文"
+ */
+export function formatNotes(notes: ChapterNote[]): string {
+  return notes.map(note => `[${note.label}] ${note.content}`).join('\n')
+}
@@ -0,0 +1,250 @@
+import type { AnyNode, Element } from 'domhandler';
+import { ChapterParagraph, ImageBlock, PlainTextChapter, RichParagraph, TextMark, TextRun } from '@/types/book';
+
+const MARK_TAGS: Record<string, TextMark> = {
+  em: 'em',
+  i: 'em',
+  cite: 'em',
+  strong: 'strong',
+  b: 'strong',
+  code: 'code',
+  kbd: 'code',
+  samp: 'code'
+}
+
+/**
+ * 判断段落是否为图片
+ *
+ * @param paragraph - 章节段落
+ * @returns boolean 是否为图片段落
+ */
+export function isImageBlock(paragraph: ChapterParagraph): paragraph is ImageBlock {
+  return typeof paragraph !== 'string' && paragraph.type === 'image'
+}
+
+/**
+ * 判断段落是否为带格式文本
+ *
+ * @param paragraph - 章节段落
+ * @returns boolean 是否为带格式段落
+ */
+export function isRichParagraph(paragraph: ChapterParagraph): paragraph is RichParagraph {
+  return typeof paragraph !== 'string' && paragraph.type === 'rich'
+}
+
+/**
+ * 获取段落的纯文本, 图片段落返回空字符串
+ *
+ * @param paragraph - 章节段落
+ * @returns string 段落文本, 带格式段落为各 run 文本的拼接(不含注音)
+ */
+export function getParagraphText(paragraph: ChapterParagraph): string {
+  if (typeof paragraph === 'string') return paragraph
+  if (isRichParagraph(paragraph)) return paragraph.runs.map(run => run.text).join('')
+  return ''
+}
+
+/**
+ * 由文本 run 创建段落, 没有任何格式时返回纯文本以减少存储
+ *
+ * @param runs - 文本 run
+ * @returns string | RichParagraph
+ */
+export function createParagraph(runs: TextRun[]): string | RichParagraph {
+  const plain = runs.every(run => !run.marks?.length && !run.ruby && !run.href)
+  return plain ? runs.map(run => run.text).join('') : { type: 'rich', runs }
+}
+
+/**
+ * 将 HTML 段落元素转换为章节段落
+ * 保留强调、加粗、代码、<ruby> 注音与外部链接
+ *
+ * @param element - 段落元素
+ * @param skip - 返回 true 的子元素不计入段落(如脚注引用), offset 为该元素在纯文本中的位置
+ * @returns string | RichParagraph 没有任何格式时为纯文本
+ *
+ * @example
+ * ```typescript
+ * htmlToParagraph($('<p>A <em>big</em> dog</p>')[0]);
+ * // { type: 'rich', runs: [{ text: 'A ' }, { text: 'big', marks: ['em'] }, { text: ' dog' }] }
+ * ```
+ */
+export function htmlToParagraph(element: Element, skip?: (element: Element, offset: number) => boolean): string | RichParagraph {
+  const runs: TextRun[] = []
+  let length = 0
+
+  const push = (text: string, marks: TextMark[], href?: string, ruby?: string) => {
+    if (!text) return
+    length += text.length
+    const last = runs[runs.length - 1]
+    if (last && !last.ruby && !ruby && last.href === href && (last.marks ?? []).join() === marks.join()) {
+      last.text += text
+      return
+    }
+    runs.push({
+      text,
+      ...(marks.length > 0 ? { marks } : {}),
+      ...(ruby ? { ruby } : {}),
+      ...(href ? { href } : {})
+    })
+  }
+
+  const walk = (node: AnyNode, marks: TextMark[], href?: string) => {
+    if (node.type === 'text') {
+      push(node.data, marks, href)
+      return
+    }
+    if (!('attribs' in node)) return
+    if (skip?.(node, length)) return
+    if (node.name === 'rt' || node.name === 'rp') return
+
+    if (node.name === 'ruby') {
+      // <ruby>漢<rt>かん</rt>字<rt>じ</rt></ruby>, 每个 rt 注音其前面的基文本
+      let base = ''
+      node.children.forEach(child => {
+        if ('attribs' in child && child.name === 'rt') {
+          push(base, marks, href, getNodeText(child).trim())
+          base = ''
+        } else if (!('attribs' in child && child.name === 'rp')) {
+          base += getNodeText(child)
+        }
+      })
+      push(base, marks, href)
+      return
+    }
+
+    const mark = MARK_TAGS[node.name]
+    const childMarks = mark && !marks.includes(mark) ? [...marks, mark] : marks
+    const childHref = node.name === 'a' && /^(https?:|mailto:)/i.test(node.attribs.href || '') ? node.attribs.href : href
+    node.children.forEach(child => walk(child, childMarks, childHref))
+  }
+  element.children.forEach(child => walk(child, []))
+
+  return createParagraph(runs)
+}
+
+/**
+ * 截取纯文本 [start, end) 范围内的 run, 用于按句渲染带格式段落
+ * 被截断的注音 run 不再保留注音
+ *
+ * @param runs - 文本 run
+ * @param start - 起始位置
+ * @param end - 结束位置
+ * @returns TextRun[]
+ */
+export function sliceRuns(runs: TextRun[], start: number, end: number): TextRun[] {
+  const result: TextRun[] = []
+  let position = 0
+  for (const run of runs) {
+    const runStart = position
+    const runEnd = position + run.text.length
+    position = runEnd
+    if (runEnd <= start || runStart >= end) continue
+    const text = run.text.slice(Math.max(start - runStart, 0), Math.min(end, runEnd) - runStart)
+    if (text === run.text) {
+      result.push(run)
+    } else {
+      const piece: TextRun = { ...run, text }
+      delete piece.ruby
+      result.push(piece)
+    }
+  }
+  return result
+}
+
+/**
+ * 按段落分隔(空行)将分句后的行分组
+ *
+ * @param lines - 章节分句后的行, 每个段落以一个空行结尾
+ * @returns number[][] 段落下标 -> 该段落句子行的下标
+ */
+export function groupParagraphLines(lines: string[]): number[][] {
+  const paragraphLines: number[][] = [[]]
+  lines.forEach((line, index) => {
+    if (line) paragraphLines[paragraphLines.length - 1].push(index)
+    else paragraphLines.push([])
+  })
+  return paragraphLines
+}
+
+/**
+ * 依次在段落文本中定位句子
+ *
+ * @param text - 段落纯文本
+ * @param sentences - 该段落分句后的句子
+ * @returns 每个句子(去除首尾空白后)在段落中的起始位置, 分句时被规范化而无法定位的为 -1
+ */
+export function locateSentences(text: string, sentences: string[]): number[] {
+  let cursor = 0
+  return sentences.map(sentence => {
+    const trimmed = sentence.trim()
+    const start = text.indexOf(trimmed, cursor)
+    if (start !== -1) cursor = start + trimmed.length
+    return start
+  })
+}
+
+/**
+ * 将带格式段落的 run 对应到分句后的行
+ *
+ * @param chapter - 章节
+ * @param lines - 该章节分句后的行
+ * @returns Map<number, TextRun[]> 行下标 -> 该行的 run, 只包含带格式段落中能定位的行
+ */
+export function mapRunsToLines(chapter: PlainTextChapter | undefined, lines: string[]): Map<number, TextRun[]> {
+  const lineRuns = new Map<number, TextRun[]>()
+  if (!chapter) return lineRuns
+
+  groupParagraphLines(lines).forEach((indexes, paragraphIndex) => {
+    const paragraph = chapter.paragraphs[paragraphIndex]
+    if (!paragraph || !isRichParagraph(paragraph) || indexes.length === 0) return
+    const starts = locateSentences(getParagraphText(paragraph), indexes.map(index => lines[index]))
+    indexes.forEach((index, i) => {
+      if (starts[i] === -1) return
+      lineRuns.set(index, sliceRuns(paragraph.runs, starts[i], starts[i] + lines[index].trim().length))
+    })
+  })
+
+  return lineRuns
+}
+
+function getNodeText(node: AnyNode): string {
+  if (node.type === 'text') return node.data
+  if (!('children' in node)) return ''
+  return node.children.map(getNodeText).join('')
+}
+
+/**
+ * 将图片段落序列化为一行占位文本, 用于章节文本编辑
+ *
+ * @param image - 图片段落
+ * @returns string 形如 ![alt](src "caption") 的占位文本
+ *
+ * @example
+ * ```typescript
+ * imageToPlaceholder({ type: 'image', src: 'Images/1.png', alt: 'map' }); // '![map](Images/1.png)'
+ * ```
+ */
+export function imageToPlaceholder(image: ImageBlock): string {
+  const caption = image.caption ? ` "${image.caption.replace(/"/g, "'")}"` : ''
+  return `![${image.alt ?? ''}](${image.src}${caption})`
+}
+
+/**
+ * 将占位文本解析回图片段落
+ * 只有 src 指向书中已有资源时才视为图片, 避免误伤正文中相同格式的文本
+ *
+ * @param line - 文本行
+ * @param resourceKeys - 书中已有的资源键
+ * @returns ImageBlock | null
+ */
+export function placeholderToImage(line: string, resourceKeys: Set<string>): ImageBlock | null {
+  const match = line.trim().match(/^!\[([^\]]*)\]\((\S+?)(?:\s+"([^"]*)")?\)$/)
+  if (!match || !resourceKeys.has(match[2])) return null
+  return {
+    type: 'image',
+    src: match[2],
+    ...(match[1] ? { alt: match[1] } : {}),
+    ...(match[3] ? { caption: match[3] } : {})
+  }
+}
@@ -1,10 +1,30 @@
-import { Provider } from '@/types/llm'
+import { Provider, ProviderKind } from '@/types/llm'
 import { generateUUID } from '@/utils/uuid'
+import { ANTHROPIC_CONFIG } from '@/constants/llm'
+
+// 按服务商接口类型生成鉴权请求头, 默认为 OpenAI 兼容
+export const getProviderAuthHeaders = (kind: ProviderKind | undefined, apiKey: string): Record<string, string> => {
+  if (!apiKey) return {}
+  switch (kind) {
+    case 'anthropic':
+      return { 'x-api-key': apiKey, 'anthropic-version': ANTHROPIC_CONFIG.API_VERSION }
+    case 'gemini':
+      return { 'x-goog-api-key': apiKey }
+    default:
+      return { 'Authorization': `Bearer ${apiKey}` }
+  }
+}
+
+// 服务商是否已配置完成可供选择模型, 本地服务商不需要密钥
+export const isProviderConfigured = (provider: Provider): boolean => {
+  return !!provider.baseUrl && (!!provider.apiKey || provider.kind === 'local') && provider.models.length > 0
+}
 
 export const newProvider = (): Provider => {
   return {
     id: generateUUID(),
     name: 'new Provider',
+    kind: 'openai',
     baseUrl: '',
     apiKey: '',
     models: [],
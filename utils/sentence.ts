@@ -0,0 +1,100 @@
+import { ChapterParagraph, SentenceRecord } from '@/types/book'
+import { getParagraphText, groupParagraphLines, isImageBlock, locateSentences } from '@/utils/paragraph'
+import { generateSentenceHash } from '@/utils/cache'
+import { segmentSentences } from '@/services/segmenter'
+
+/**
+ * 将章节段落切分为句子行, 每个段落以一个空行结尾
+ *
+ * 在 Worker 与主线程中共用, 导入时整书预先分句, 编辑章节后按章重新分句
+ *
+ * @param paragraphs - 章节段落
+ * @param language - 书籍的分句语言, 各段落再按实际文字选择分句器
+ * @returns string[] 句子行
+ */
+export function paragraphsToLines(paragraphs: ChapterParagraph[], language?: string): string[] {
+  const lines: string[] = []
+  paragraphs.forEach(item => {
+    // 图片段落只保留段落分隔, 由阅读区在分隔处渲染图片
+    if (isImageBlock(item)) {
+      lines.push('')
+      return
+    }
+    // 带格式段落按纯文本分句, 格式由阅读区按句还原
+    lines.push(...segmentSentences(getParagraphText(item), language), '')
+  })
+  return lines
+}
+
+/**
+ * 生成句子 id
+ *
+ * 由章节、段落、段内偏移与内容哈希组成, 同一位置的句子内容不变时 id 不变
+ *
+ * @example
+ * ```typescript
+ * createSentenceId(2, 5, 37, 'Hello world.'); // "2-5-37-1a2b3c4d"
+ * ```
+ */
+export function createSentenceId(chapterIndex: number, paragraphIndex: number, offset: number, text: string): string {
+  return `${chapterIndex}-${paragraphIndex}-${offset}-${generateSentenceHash(text)}`
+}
+
+/**
+ * 由章节分句后的行生成句子索引
+ *
+ * @param bookId - 书籍id
+ * @param chapterIndex - 章节下标
+ * @param paragraphs - 章节段落
+ * @param lines - 该章节分句后的行
+ * @returns SentenceRecord[] 按行顺序排列的句子
+ */
+export function createSentenceRecords(bookId: string, chapterIndex: number, paragraphs: ChapterParagraph[], lines: string[]): SentenceRecord[] {
+  const records: SentenceRecord[] = []
+  groupParagraphLines(lines).forEach((indexes, paragraphIndex) => {
+    if (indexes.length === 0) return
+    const text = getParagraphText(paragraphs[paragraphIndex] ?? '')
+    const starts = locateSentences(text, indexes.map(index => lines[index]))
+    let cursor = 0
+    indexes.forEach((lineIndex, i) => {
+      const sentence = lines[lineIndex]
+      // 分句时被规范化而无法定位的句子, 接在上一句之后
+      const offset = starts[i] === -1 ? cursor : starts[i]
+      cursor = offset + sentence.trim().length
+      records.push({
+        bookId,
+        id: createSentenceId(chapterIndex, paragraphIndex, offset, sentence),
+        chapterIndex,
+        paragraphIndex,
+        offset,
+        lineIndex,
+        text: sentence
+      })
+    })
+  })
+  return records
+}
+
+/**
+ * 由句子索引还原章节行
+ *
+ * @param records - 该章节的句子
+ * @param paragraphCount - 章节段落数, 没有句子的段落(如图片)同样保留段落分隔
+ * @returns 章节行与对应的句子 id, 段落分隔的 id 为空字符串
+ */
+export function sentenceRecordsToLines(records: SentenceRecord[], paragraphCount: number): { lines: string[], ids: string[] } {
+  const sorted = [...records].sort((a, b) => a.lineIndex - b.lineIndex)
+  const lines: string[] = []
+  const ids: string[] = []
+  let cursor = 0
+  for (let paragraphIndex = 0; paragraphIndex < paragraphCount; paragraphIndex++) {
+    while (cursor < sorted.length && sorted[cursor].paragraphIndex === paragraphIndex) {
+      lines.push(sorted[cursor].text)
+      ids.push(sorted[cursor].id)
+      cursor++
+    }
+    lines.push('')
+    ids.push('')
+  }
+  return { lines, ids }
+}
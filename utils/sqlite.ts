@@ -0,0 +1,404 @@
+export type SQLiteValue = number | string | null
+
+export interface SQLiteIndex {
+  name: string
+  sql: string // CREATE INDEX 语句
+  columns: number[] // 索引列在行中的下标
+}
+
+export interface SQLiteTable {
+  name: string
+  sql: string // CREATE TABLE 语句
+  rows: SQLiteValue[][]
+  rowidAlias?: boolean // 第一列为 INTEGER PRIMARY KEY, 即 rowid 的别名
+  indexes?: SQLiteIndex[]
+}
+
+type Payload = Uint8Array
+type TableCell = { rowid: number, payload: Payload }
+type ChildPage = { page: number, maxRowid: number }
+
+const PAGE_SIZE = 4096
+const HEADER_SIZE = 100 // 第一页开头的数据库文件头
+const LEAF_HEADER_SIZE = 8
+const INTERIOR_HEADER_SIZE = 12
+const PAGE_TYPE = {
+  INTERIOR_INDEX: 0x02,
+  INTERIOR_TABLE: 0x05,
+  LEAF_INDEX: 0x0a,
+  LEAF_TABLE: 0x0d
+}
+// 兼容的 SQLite 版本号, 只作为文件头中的写入版本记录
+const SQLITE_VERSION_NUMBER = 3040000
+
+const encoder = new TextEncoder()
+
+/**
+ * 生成 SQLite 数据库文件
+ *
+ * 只写入建表时的内容: 表与索引按 SQLite 文件格式组织为 B 树, 超出页面的内容写入溢出页,
+ * 不支持 WITHOUT ROWID 表与自增序列。用于在浏览器中导出需要 SQLite 文件的格式, 如 Anki 牌组
+ *
+ * @param tables - 表结构与数据, 行按列顺序给出, 索引列只支持整数与文本
+ * @returns Uint8Array 数据库文件内容
+ *
+ * @example
+ * ```typescript
+ * const file = createSQLiteDatabase([{
+ *   name: 'notes',
+ *   sql: 'CREATE TABLE notes (id integer primary key, text text not null)',
+ *   rows: [[1, 'hello']],
+ *   rowidAlias: true
+ * }]);
+ * ```
+ */
+export function createSQLiteDatabase(tables: SQLiteTable[]): Uint8Array {
+  // 第一页保留给 sqlite_master, 其余页按写入顺序分配
+  const pages: Uint8Array[] = [new Uint8Array(PAGE_SIZE)]
+  const allocate = () => {
+    pages.push(new Uint8Array(PAGE_SIZE))
+    return pages.length
+  }
+
+  const schema: SQLiteValue[][] = []
+  tables.forEach(table => {
+    const rows = table.rows.map((row, i) => ({
+      rowid: table.rowidAlias ? row[0] as number : i + 1,
+      row
+    }))
+    const cells = rows
+      .map(({ rowid, row }) => ({ rowid, payload: encodeRecord(table.rowidAlias ? [null, ...row.slice(1)] : row) }))
+      .sort((a, b) => a.rowid - b.rowid)
+    schema.push(['table', table.name, table.name, writeTableTree(cells, pages, allocate), table.sql])
+
+    table.indexes?.forEach(index => {
+      const entries = rows
+        .map(({ rowid, row }) => [...index.columns.map(column => table.rowidAlias && column === 0 ? rowid : row[column]), rowid])
+        .sort(compareRecords)
+        .map(encodeRecord)
+      schema.push(['index', index.name, table.name, writeIndexTree(entries, pages, allocate), index.sql])
+    })
+  })
+
+  const schemaCells = schema.map((row, i) => ({ rowid: i + 1, payload: encodeRecord(row) }))
+  writeTableTree(schemaCells, pages, allocate, 1)
+  writeFileHeader(pages[0], pages.length)
+
+  const file = new Uint8Array(pages.length * PAGE_SIZE)
+  pages.forEach((page, i) => file.set(page, i * PAGE_SIZE))
+  return file
+}
+
+function writeFileHeader(page: Uint8Array, pageCount: number) {
+  const view = new DataView(page.buffer)
+  page.set(encoder.encode('SQLite format 3\0'), 0)
+  view.setUint16(16, PAGE_SIZE)
+  page[18] = 1 // 写入版本: legacy
+  page[19] = 1 // 读取版本: legacy
+  page[20] = 0 // 每页末尾保留字节
+  page[21] = 64 // 最大内嵌负载比例
+  page[22] = 32 // 最小内嵌负载比例
+  page[23] = 32 // 叶子负载比例
+  view.setUint32(24, 1) // 文件修改计数
+  view.setUint32(28, pageCount)
+  view.setUint32(40, 1) // schema cookie
+  view.setUint32(44, 4) // schema 格式
+  view.setUint32(56, 1) // UTF-8
+  view.setUint32(92, 1) // 与文件修改计数一致时页数有效
+  view.setUint32(96, SQLITE_VERSION_NUMBER)
+}
+
+// 自底向上写入表 B 树, 返回根页号; 指定根页号时根页写入该页
+function writeTableTree(cells: TableCell[], pages: Uint8Array[], allocate: () => number, rootPage?: number): number {
+  const offset = rootPage === 1 ? HEADER_SIZE : 0
+  const capacity = PAGE_SIZE - offset
+  const encoded = cells.map(({ rowid, payload }) => ({
+    rowid,
+    cell: concat(encodeVarint(payload.length), encodeVarint(rowid), spillPayload(payload, maxTableLocal(), pages, allocate))
+  }))
+
+  const leafGroups = groupCells(encoded.map(({ cell }) => cell), capacity - LEAF_HEADER_SIZE)
+  if (leafGroups.length <= 1) {
+    const page = rootPage ?? allocate()
+    writePage(pages[page - 1], offset, PAGE_TYPE.LEAF_TABLE, encoded.map(({ cell }) => cell))
+    return page
+  }
+
+  let index = 0
+  let level: ChildPage[] = leafGroups.map(group => {
+    const page = allocate()
+    writePage(pages[page - 1], 0, PAGE_TYPE.LEAF_TABLE, group)
+    index += group.length
+    return { page, maxRowid: encoded[index - 1].rowid }
+  })
+
+  // 内部页每个单元为 (左子页, 左子树最大 rowid), 最后一个子页作为最右指针
+  for (;;) {
+    const children = level
+    const groups = groupChildren(children.map(child => concat(encodeUint32(child.page), encodeVarint(child.maxRowid))), capacity - INTERIOR_HEADER_SIZE)
+    if (groups.length === 1) {
+      const page = rootPage ?? allocate()
+      const cellsOfRoot = children.slice(0, -1).map(child => concat(encodeUint32(child.page), encodeVarint(child.maxRowid)))
+      writePage(pages[page - 1], offset, PAGE_TYPE.INTERIOR_TABLE, cellsOfRoot, children[children.length - 1].page)
+      return page
+    }
+    let start = 0
+    level = groups.map(count => {
+      const group = children.slice(start, start + count)
+      start += count
+      const page = allocate()
+      writePage(
+        pages[page - 1], 0, PAGE_TYPE.INTERIOR_TABLE,
+        group.slice(0, -1).map(child => concat(encodeUint32(child.page), encodeVarint(child.maxRowid))),
+        group[group.length - 1].page
+      )
+      return { page, maxRowid: group[group.length - 1].maxRowid }
+    })
+  }
+}
+
+// 索引 B 树的内部页单元本身也是索引条目, 相邻两页之间的条目移到上一层
+function writeIndexTree(entries: Payload[], pages: Uint8Array[], allocate: () => number): number {
+  const toCell = (payload: Payload) => concat(encodeVarint(payload.length), spillPayload(payload, maxIndexLocal(), pages, allocate))
+  const cells = entries.map(toCell)
+
+  const { groups, separators } = splitEntries(cells, PAGE_SIZE - LEAF_HEADER_SIZE)
+  if (groups.length === 1) {
+    const page = allocate()
+    writePage(pages[page - 1], 0, PAGE_TYPE.LEAF_INDEX, groups[0])
+    return page
+  }
+
+  let children = groups.map(group => {
+    const page = allocate()
+    writePage(pages[page - 1], 0, PAGE_TYPE.LEAF_INDEX, group)
+    return page
+  })
+  let keys = separators
+  for (;;) {
+    const interiorCells = keys.map((key, i) => concat(encodeUint32(children[i]), key))
+    const level = splitEntries(interiorCells, PAGE_SIZE - INTERIOR_HEADER_SIZE)
+    let start = 0
+    const nextChildren = level.groups.map(group => {
+      const page = allocate()
+      // 分组之后的第一个子页作为该页的最右指针
+      const rightChild = children[start + group.length]
+      start += group.length + 1
+      writePage(pages[page - 1], 0, PAGE_TYPE.INTERIOR_INDEX, group, rightChild)
+      return page
+    })
+    if (nextChildren.length === 1) return nextChildren[0]
+    children = nextChildren
+    // 分隔条目去掉左子页号, 下一轮按新的子页重新拼接
+    keys = level.separators.map(cell => cell.slice(4))
+  }
+}
+
+// 将单元按顺序装入页面, 返回每页的单元
+function groupCells(cells: Uint8Array[], space: number): Uint8Array[][] {
+  const groups: Uint8Array[][] = []
+  let current: Uint8Array[] = []
+  let used = 0
+  cells.forEach(cell => {
+    const size = cell.length + 2
+    if (current.length > 0 && used + size > space) {
+      groups.push(current)
+      current = []
+      used = 0
+    }
+    current.push(cell)
+    used += size
+  })
+  if (current.length > 0 || groups.length === 0) groups.push(current)
+  return groups
+}
+
+// 表内部页: 每页的单元数为子页数减一, 返回每页包含的子页数
+function groupChildren(cells: Uint8Array[], space: number): number[] {
+  const counts: number[] = []
+  let count = 0
+  let used = 0
+  cells.forEach(cell => {
+    const size = cell.length + 2
+    if (count > 1 && used + size > space) {
+      counts.push(count)
+      count = 0
+      used = 0
+    }
+    count++
+    used += size
+  })
+  counts.push(count)
+  return counts
+}
+
+// 索引页: 装满一页后取下一个条目作为分隔条目, 保证最后一页至少有一个条目
+function splitEntries(cells: Uint8Array[], space: number) {
+  const groups: Uint8Array[][] = []
+  const separators: Uint8Array[] = []
+  let current: Uint8Array[] = []
+  let used = 0
+  for (let i = 0; i < cells.length; i++) {
+    const size = cells[i].length + 2
+    if (current.length > 0 && used + size > space) {
+      if (i === cells.length - 1) {
+        // 剩下的唯一条目无法单独成页, 改用当前页的最后一个条目作为分隔条目
+        separators.push(current.pop()!)
+        groups.push(current)
+        current = [cells[i]]
+        used = size
+        continue
+      }
+      groups.push(current)
+      separators.push(cells[i])
+      current = []
+      used = 0
+      continue
+    }
+    current.push(cells[i])
+    used += size
+  }
+  if (current.length > 0 || groups.length === 0) groups.push(current)
+  return { groups, separators }
+}
+
+function writePage(page: Uint8Array, offset: number, type: number, cells: Uint8Array[], rightChild?: number) {
+  const view = new DataView(page.buffer, page.byteOffset)
+  const headerSize = rightChild === undefined ? LEAF_HEADER_SIZE : INTERIOR_HEADER_SIZE
+  let contentStart = PAGE_SIZE
+  cells.forEach((cell, i) => {
+    contentStart -= cell.length
+    page.set(cell, contentStart)
+    view.setUint16(offset + headerSize + i * 2, contentStart)
+  })
+  page[offset] = type
+  view.setUint16(offset + 1, 0) // 没有空闲块
+  view.setUint16(offset + 3, cells.length)
+  view.setUint16(offset + 5, contentStart)
+  page[offset + 7] = 0
+  if (rightChild !== undefined) view.setUint32(offset + 8, rightChild)
+}
+
+// 超出页面内嵌上限的负载写入溢出页链, 返回页内部分与首个溢出页号
+function spillPayload(payload: Payload, maxLocal: number, pages: Uint8Array[], allocate: () => number): Uint8Array {
+  if (payload.length <= maxLocal) return payload
+  const usable = PAGE_SIZE
+  const minLocal = Math.floor((usable - 12) * 32 / 255) - 23
+  let local = minLocal + ((payload.length - minLocal) % (usable - 4))
+  if (local > maxLocal) local = minLocal
+
+  const overflowPages: number[] = []
+  for (let position = local; position < payload.length; position += usable - 4) overflowPages.push(allocate())
+  overflowPages.forEach((page, i) => {
+    const data = pages[page - 1]
+    new DataView(data.buffer).setUint32(0, overflowPages[i + 1] ?? 0)
+    const start = local + i * (usable - 4)
+    data.set(payload.subarray(start, start + usable - 4), 4)
+  })
+  return concat(payload.subarray(0, local), encodeUint32(overflowPages[0]))
+}
+
+function maxTableLocal() {
+  return PAGE_SIZE - 35
+}
+
+function maxIndexLocal() {
+  return Math.floor((PAGE_SIZE - 12) * 64 / 255) - 23
+}
+
+function encodeRecord(values: SQLiteValue[]): Payload {
+  const types: Uint8Array[] = []
+  const bodies: Uint8Array[] = []
+  values.forEach(value => {
+    const [type, body] = encodeValue(value)
+    types.push(encodeVarint(type))
+    bodies.push(body)
+  })
+  const typesLength = types.reduce((sum, type) => sum + type.length, 0)
+  // 记录头长度包含自身的 varint
+  let headerLength = typesLength + 1
+  while (encodeVarint(headerLength).length + typesLength > headerLength) headerLength++
+  return concat(encodeVarint(headerLength), ...types, ...bodies)
+}
+
+function encodeValue(value: SQLiteValue): [number, Uint8Array] {
+  if (value === null) return [0, new Uint8Array(0)]
+  if (typeof value === 'string') {
+    const bytes = encoder.encode(value)
+    return [bytes.length * 2 + 13, bytes]
+  }
+  if (!Number.isInteger(value)) {
+    const bytes = new Uint8Array(8)
+    new DataView(bytes.buffer).setFloat64(0, value)
+    return [7, bytes]
+  }
+  if (value === 0) return [8, new Uint8Array(0)]
+  if (value === 1) return [9, new Uint8Array(0)]
+  const sizes: [number, number][] = [[1, 1], [2, 2], [3, 3], [4, 4], [5, 6], [6, 8]]
+  const [type, size] = sizes.find(([, size]) => size === 8 || Math.abs(value) < 2 ** (size * 8 - 1)) ?? [6, 8]
+  const full = new Uint8Array(8)
+  new DataView(full.buffer).setBigInt64(0, BigInt(value))
+  return [type, full.slice(8 - size)]
+}
+
+// SQLite varint: 大端序, 每字节 7 位, 超过 56 位时第 9 个字节使用全部 8 位
+function encodeVarint(value: number): Uint8Array {
+  if (value >= 2 ** 56) {
+    const bytes = new Uint8Array(9)
+    let rest = BigInt(value)
+    bytes[8] = Number(rest & BigInt(0xff))
+    rest >>= BigInt(8)
+    for (let i = 7; i >= 0; i--) {
+      bytes[i] = Number(rest & BigInt(0x7f)) | 0x80
+      rest >>= BigInt(7)
+    }
+    return bytes
+  }
+  const bytes: number[] = []
+  let rest = value
+  do {
+    bytes.unshift(rest % 128)
+    rest = Math.floor(rest / 128)
+  } while (rest > 0)
+  return new Uint8Array(bytes.map((byte, i) => i < bytes.length - 1 ? byte | 0x80 : byte))
+}
+
+function encodeUint32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4)
+  new DataView(bytes.buffer).setUint32(0, value)
+  return bytes
+}
+
+// 按 SQLite 的排序规则比较索引条目: NULL < 数字 < 文本(按 UTF-8 字节)
+function compareRecords(a: SQLiteValue[], b: SQLiteValue[]): number {
+  for (let i = 0; i < a.length; i++) {
+    const result = compareValues(a[i], b[i])
+    if (result !== 0) return result
+  }
+  return 0
+}
+
+function compareValues(a: SQLiteValue, b: SQLiteValue): number {
+  const rank = (value: SQLiteValue) => value === null ? 0 : typeof value === 'number' ? 1 : 2
+  if (rank(a) !== rank(b)) return rank(a) - rank(b)
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  if (typeof a === 'string' && typeof b === 'string') {
+    const bytesA = encoder.encode(a)
+    const bytesB = encoder.encode(b)
+    for (let i = 0; i < Math.min(bytesA.length, bytesB.length); i++) {
+      if (bytesA[i] !== bytesB[i]) return bytesA[i] - bytesB[i]
+    }
+    return bytesA.length - bytesB.length
+  }
+  return 0
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  parts.forEach(part => {
+    result.set(part, offset)
+    offset += part.length
+  })
+  return result
+}
@@ -0,0 +1,73 @@
+import { SM2_CONFIG } from '@/constants/review'
+import { ReviewGrade, ReviewSchedule } from '@/types/review'
+
+const DAY = 24 * 60 * 60 * 1000
+const MINUTE = 60 * 1000
+
+/**
+ * 新卡片的调度状态, 创建后即可复习
+ *
+ * @param now - 创建时间
+ * @returns ReviewSchedule
+ */
+export function createSchedule(now = Date.now()): ReviewSchedule {
+  return {
+    repetitions: 0,
+    interval: 0,
+    easeFactor: SM2_CONFIG.INITIAL_EASE,
+    lapses: 0,
+    due: now
+  }
+}
+
+/**
+ * 按 SM-2 计算复习后的调度状态
+ *
+ * - 答错(again)时连续答对次数归零, 间隔为 0, 本次复习中稍后再次出现
+ * - 答对时前两次间隔固定为 1 天、6 天, 之后按上次间隔乘以难度系数
+ * - 难度系数按回答质量调整, 不低于 MIN_EASE
+ *
+ * @param schedule - 当前调度状态
+ * @param grade - 评分
+ * @param now - 复习时间
+ * @returns ReviewSchedule 新的调度状态
+ *
+ * @example
+ * ```typescript
+ * const next = scheduleReview(createSchedule(), 'good');
+ * // { repetitions: 1, interval: 1, easeFactor: 2.5, lapses: 0, due: now + 1 天, lastReviewedAt: now }
+ * ```
+ */
+export function scheduleReview(schedule: ReviewSchedule, grade: ReviewGrade, now = Date.now()): ReviewSchedule {
+  const { GRADE_QUALITY, MIN_EASE, FIRST_INTERVAL, SECOND_INTERVAL, RELEARN_MINUTES } = SM2_CONFIG
+  const quality = GRADE_QUALITY[grade]
+  const easeFactor = Math.max(
+    MIN_EASE,
+    schedule.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)
+  )
+
+  if (quality < 3) {
+    return {
+      repetitions: 0,
+      interval: 0,
+      easeFactor,
+      lapses: schedule.lapses + 1,
+      due: now + RELEARN_MINUTES * MINUTE,
+      lastReviewedAt: now
+    }
+  }
+
+  const interval = schedule.repetitions === 0
+    ? FIRST_INTERVAL
+    : schedule.repetitions === 1
+      ? SECOND_INTERVAL
+      : Math.round(Math.max(schedule.interval, 1) * easeFactor)
+  return {
+    repetitions: schedule.repetitions + 1,
+    interval,
+    easeFactor,
+    lapses: schedule.lapses,
+    due: now + interval * DAY,
+    lastReviewedAt: now
+  }
+}
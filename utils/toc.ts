@@ -0,0 +1,72 @@
+import { PlainTextChapter, TocItem } from '@/types/book';
+
+/**
+ * 按章节列表生成一级目录
+ *
+ * @param chapterList - 章节列表
+ * @returns TocItem[] 与章节一一对应的目录
+ */
+export function chapterListToToc(chapterList: PlainTextChapter[]): TocItem[] {
+  return chapterList.map((chapter, index) => ({
+    title: chapter.title,
+    index
+  }))
+}
+
+/**
+ * 按先序遍历展开层级目录
+ *
+ * @param toc - 层级目录
+ * @returns 带层级深度的目录项, depth 从 0 开始
+ *
+ * @example
+ * ```typescript
+ * flattenToc([{ title: 'Part I', index: 0, children: [{ title: 'Chapter 1', index: 1 }] }]);
+ * // [{ title: 'Part I', index: 0, depth: 0, ... }, { title: 'Chapter 1', index: 1, depth: 1 }]
+ * ```
+ */
+export function flattenToc(toc: TocItem[], depth = 0): (TocItem & { depth: number })[] {
+  return toc.flatMap(item => [
+    { ...item, depth },
+    ...flattenToc(item.children ?? [], depth + 1)
+  ])
+}
+
+/**
+ * 章节增删或重排后重新映射目录中的章节下标
+ *
+ * 映射结果为 null 的目录项会被移除, 其子项上移一层
+ *
+ * @param toc - 层级目录
+ * @param mapIndex - 旧下标到新下标的映射
+ * @returns TocItem[] 新目录
+ */
+export function remapToc(toc: TocItem[], mapIndex: (index: number) => number | null): TocItem[] {
+  return toc.flatMap(item => {
+    const children = remapToc(item.children ?? [], mapIndex)
+    const index = mapIndex(item.index)
+    if (index === null) return children
+    return [children.length > 0
+      ? { ...item, index, children }
+      : { title: item.title, index }]
+  })
+}
+
+/**
+ * 修改章节标题后同步目录中指向该章节的目录项
+ *
+ * 多个目录项可能指向同一章节(如"第一部"与其下的"第一章"), 只修改与原标题相同的项
+ *
+ * @param toc - 层级目录
+ * @param index - 章节下标
+ * @param oldTitle - 原章节标题
+ * @param title - 新标题
+ * @returns TocItem[] 新目录
+ */
+export function renameTocItem(toc: TocItem[], index: number, oldTitle: string, title: string): TocItem[] {
+  return toc.map(item => ({
+    ...item,
+    title: item.index === index && item.title === oldTitle ? title : item.title,
+    ...(item.children ? { children: renameTocItem(item.children, index, oldTitle, title) } : {})
+  }))
+}
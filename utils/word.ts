@@ -0,0 +1,70 @@
+import type { TextRun } from '@/types/book'
+import type { WordToken } from '@/types/tokenizer'
+import type { WordSpan, WordStatus } from '@/types/word'
+
+// 英文分词结果中连带的标点与引号
+const EDGE_PUNCTUATION = /^[\s"'“”‘’«»「」『』()[\]{}.,!?;:…—–-]+|[\s"'“”‘’«»「」『』()[\]{}.,!?;:…—–-]+$/g
+
+/**
+ * 词状态的键: 原形(没有原形时取原文)去除首尾标点后转小写
+ *
+ * @param token - 分词结果
+ * @returns string 纯数字等不需要记录状态的词返回空字符串
+ *
+ * @example
+ * ```typescript
+ * normalizeLemma({ text: 'Stores,', isWord: true, lemma: 'store' }); // 'store'
+ * ```
+ */
+export function normalizeLemma(token: Pick<WordToken, 'text' | 'lemma'>): string {
+  const lemma = (token.lemma ?? token.text).replace(EDGE_PUNCTUATION, '').toLowerCase()
+  return /^\d*$/.test(lemma) ? '' : lemma
+}
+
+/**
+ * 按词的位置拆分一行的 run, 拆出的片段带上所在词的状态
+ *
+ * 带注音的 run 不拆分, 与词有重叠时整体使用该词的状态
+ *
+ * @param runs - 一行的 run
+ * @param words - 该行需要标记的词, 按位置排列且互不重叠
+ * @param getStatus - 查询词状态
+ * @returns 片段与所在词的状态, 不在词中的片段没有状态
+ */
+export function splitRunsByWords(
+  runs: TextRun[],
+  words: WordSpan[],
+  getStatus: (word: WordSpan) => WordStatus
+): { run: TextRun, status?: WordStatus }[] {
+  const pieces: { run: TextRun, status?: WordStatus }[] = []
+  const findWord = (start: number, end: number) => words.find(word => word.start < end && word.end > start)
+  let offset = 0
+
+  runs.forEach(run => {
+    const start = offset
+    const end = offset + run.text.length
+    offset = end
+    if (run.ruby) {
+      const word = findWord(start, end)
+      pieces.push({ run, status: word && getStatus(word) })
+      return
+    }
+
+    // 按词的边界切分 run
+    const bounds = new Set([start, end])
+    words.forEach(word => {
+      if (word.start > start && word.start < end) bounds.add(word.start)
+      if (word.end > start && word.end < end) bounds.add(word.end)
+    })
+    const points = [...bounds].sort((a, b) => a - b)
+    for (let i = 0; i < points.length - 1; i++) {
+      const word = findWord(points[i], points[i + 1])
+      pieces.push({
+        run: { ...run, text: run.text.slice(points[i] - start, points[i + 1] - start) },
+        status: word && getStatus(word)
+      })
+    }
+  })
+
+  return pieces
+}